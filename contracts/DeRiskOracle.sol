@@ -3,7 +3,7 @@ pragma solidity ^0.8.19;
 
 /// @title DeRisk Protocol - AI-Powered Multi-Protocol DeFi Risk Oracle
 /// @notice Receives AI-generated risk assessments from Chainlink CRE,
-///         monitors 3 DeFi protocols, and manages circuit breakers
+///         monitors a registry of DeFi protocols, and manages circuit breakers
 /// @dev Implements IReceiver (CRE), AutomationCompatibleInterface (Chainlink Automation)
 /// @custom:hackathon Chainlink Convergence Hackathon 2026
 contract DeRiskOracle {
@@ -13,30 +13,90 @@ contract DeRiskOracle {
     uint256 public riskScore;
     bool public circuitBreakerActive;
 
+    // Circuit breaker hysteresis (governed, see Parameter Timelock): trips above the trip
+    // threshold, resets only after `breakerResetConfirmations` consecutive
+    // updates at or below the reset threshold once `breakerMinActiveDuration` has passed
+    uint256 public breakerTripThreshold = 80;
+    uint256 public breakerResetThreshold = 70;
+    uint256 public breakerMinActiveDuration = 1800;  // 30 minutes
+    uint256 public breakerResetConfirmations = 3;
+    uint256 public circuitBreakerTrippedAt;
+    uint256 public consecutiveBelowReset;
+
     // DeFi metrics
     uint256 public tvl;
-    uint256 public utilizationRate;
+    uint256 public utilizationRate;  // TVL-weighted lending utilization, basis points (0 = unavailable)
     uint256 public ethPrice;
 
     // Oracle metadata
     uint256 public lastUpdateTimestamp;
     uint256 public updateCount;
+    uint256 public stalenessThreshold = 600;   // 10 minutes (governed)
+    uint256 public updateInterval = 300;       // 5 minutes (governed)
+    uint256 public minReportInterval = 60;     // 1 minute (governed): closer CRE reports are dropped
 
-    // Per-protocol risk scores (0-100 each)
-    uint256 public aaveRiskScore;
-    uint256 public compoundRiskScore;
-    uint256 public makerRiskScore;
+    // Monitored protocol registry (mirrors `protocols` in the CRE workflow config)
+    // Ids are the workflow registry keys as right-padded bytes32 strings ("aave")
+    struct ProtocolInfo {
+        uint256 weight;     // Share of the aggregate score
+        uint256 riskScore;  // 0-100
+        uint256 tvl;        // USD
+        bool registered;
+    }
 
-    // Per-protocol TVLs
-    uint256 public aaveTvl;
-    uint256 public compoundTvl;
-    uint256 public makerTvl;
+    bytes32[] public protocolIds;
+    mapping(bytes32 => ProtocolInfo) public protocols;
 
     // Cross-protocol contagion analysis
     uint256 public contagionRiskScore;     // 0-100: systemic cascade risk
     uint256 public worstCaseSystemLoss;    // USD: worst-case cascade loss
     uint256 public contagionLastUpdated;
 
+    // Liquidation-at-risk: collateral liquidatable if ETH drops 10%, 20% and 30%
+    uint256 public liquidationRiskScore;   // 0-100
+    uint256[3] public collateralAtRisk;    // USD per ETH shock, 0 when no position snapshot
+
+    // Consensus metadata from the latest batched report
+    uint256 public depegRiskScore;         // 0-100: stablecoin depeg risk
+    uint256 public consensusConfidence;    // 0-100: multi-model agreement
+    uint8 public scoreSource;              // SCORE_SOURCE_AI or SCORE_SOURCE_FALLBACK
+    bytes32 public rationaleHash;          // keccak256 of the AI rationale (zero for fallback scores)
+
+    // Per-stablecoin and per-LST peg state, carried across cycles so the workflow can track
+    // how long a coin has been off peg. Ids are the workflow symbols as right-padded
+    // bytes32 strings ("USDC", "stETH")
+    struct PegState {
+        uint64 price;                // 8 decimals: USD for stablecoins, market/fair ETH ratio for LSTs
+        uint64 offPegSince;          // Start of the current off-peg episode, 0 while on peg
+        uint64 updatedAt;
+        uint8 severity;              // 0 none, 1 WATCH, 2 WARNING, 3 CRITICAL
+    }
+
+    mapping(bytes32 => PegState) private pegStates;
+
+    // Batched per-cycle report: everything one CRE run publishes, applied atomically
+    struct RiskReport {
+        uint8 version;               // Must equal REPORT_VERSION
+        uint256 riskScore;           // 0-100 consensus score
+        uint256 utilizationRate;     // Basis points
+        uint256 ethPrice;            // 8 decimals (Chainlink feed format)
+        uint256 contagionScore;      // 0-100
+        uint256 worstCaseLoss;       // USD
+        uint256 liquidationScore;    // 0-100
+        uint256[3] collateralAtRisk; // USD liquidatable at ETH -10%, -20%, -30%
+        uint256 depegScore;          // 0-100
+        uint256 confidence;          // 0-100
+        uint8 scoreSource;           // SCORE_SOURCE_AI or SCORE_SOURCE_FALLBACK
+        bytes32 rationaleHash;       // keccak256 of the AI rationale text, zero for fallback
+        bytes32[] protocolIds;
+        uint256[] protocolScores;    // 0-100, aligned with protocolIds
+        uint256[] protocolTvls;      // USD, aligned with protocolIds; summed into tvl
+        bytes32[] stablecoinIds;
+        uint256[] stablecoinPrices;  // 8 decimals, aligned with stablecoinIds
+        uint256[] offPegSince;       // Unix seconds, 0 while on peg
+        uint8[] pegSeverities;       // 0 none, 1 WATCH, 2 WARNING, 3 CRITICAL
+    }
+
     // Historical backtest proofs (immutable record of algorithm effectiveness)
     struct BacktestProof {
         string eventName;
@@ -49,20 +109,68 @@ contract DeRiskOracle {
 
     BacktestProof[] public backtestResults;
 
+    // Historical risk snapshots: fixed-size ring buffer indexed by roundId % SNAPSHOT_CAPACITY
+    // Round ids are the updateCount at write time (first update = round 1)
+    struct Snapshot {
+        uint64 roundId;
+        uint64 timestamp;
+        uint8 riskScore;
+        uint8 contagionScore;
+        uint8 depegScore;
+        uint8 scoreSource;
+        uint64 totalTvl;             // USD, sum of protocol TVLs that round
+    }
+
+    Snapshot[2016] private snapshots; // SNAPSHOT_CAPACITY
+
     // Owner for admin functions
     address public owner;
 
+    // Report write allowlist: onReport only accepts CRE forwarders listed here.
+    // Workflow id/owner lists are enforced once they have at least one entry.
+    mapping(address => bool) public authorizedForwarders;
+    mapping(bytes32 => bool) public allowedWorkflowIds;
+    mapping(address => bool) public allowedWorkflowOwners;
+    uint256 public allowedWorkflowIdCount;
+    uint256 public allowedWorkflowOwnerCount;
+
+    // Governed parameters change only through queue → execute after timelockDelay
+    enum Param {
+        BreakerTripThreshold,
+        BreakerResetThreshold,
+        BreakerMinActiveDuration,
+        BreakerResetConfirmations,
+        StalenessThreshold,
+        UpdateInterval,
+        ProtocolWeight,     // target = protocol id
+        TimelockDelay,
+        MinReportInterval,
+        RegisterProtocol,   // target = protocol id, value = weight
+        RemoveProtocol      // target = protocol id
+    }
+
+    struct ParameterChange {
+        Param param;
+        bytes32 target;     // Protocol id for protocol changes, otherwise zero
+        uint256 value;
+        uint256 eta;        // Earliest execution time
+        bool executed;
+        bool cancelled;
+    }
+
+    ParameterChange[] public parameterChanges;
+    uint256 public timelockDelay = 1 days;
+
     // ========== Constants ==========
 
-    uint256 public constant CIRCUIT_BREAKER_THRESHOLD = 80;
-    uint256 public constant STALENESS_THRESHOLD = 600;   // 10 minutes
-    uint256 public constant UPDATE_INTERVAL = 300;       // 5 minutes
+    uint256 public constant MIN_TIMELOCK_DELAY = 1 hours;
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    uint8 public constant REPORT_VERSION = 5;
 
-    // Protocol weights for weighted average (out of 100)
-    // Aave dominates TVL so gets highest weight
-    uint256 public constant AAVE_WEIGHT = 50;
-    uint256 public constant COMPOUND_WEIGHT = 25;
-    uint256 public constant MAKER_WEIGHT = 25;
+    // Who produced the report's base risk score
+    uint8 public constant SCORE_SOURCE_AI = 1;       // AI model (Claude)
+    uint8 public constant SCORE_SOURCE_FALLBACK = 2; // Rule-based / Chainlink Functions scorer
+    uint256 public constant SNAPSHOT_CAPACITY = 2016;    // 7 days at 5-minute cadence
 
     // ========== Events ==========
 
@@ -73,21 +181,55 @@ contract DeRiskOracle {
         uint256 timestamp
     );
     event ProtocolScoresUpdated(
-        uint256 aaveScore,
-        uint256 compoundScore,
-        uint256 makerScore,
+        bytes32[] protocolIds,
+        uint256[] scores,
         uint256 aggregateScore,
         uint256 timestamp
     );
+    event ProtocolRegistered(bytes32 indexed protocolId, uint256 weight);
+    event ProtocolRemoved(bytes32 indexed protocolId);
     event CircuitBreakerTriggered(uint256 score, uint256 timestamp);
     event CircuitBreakerReset(uint256 score, uint256 timestamp);
+    event CircuitBreakerResetProgress(uint256 score, uint256 confirmations, uint256 required);
+    event ParameterChangeQueued(
+        uint256 indexed changeId,
+        Param indexed param,
+        bytes32 target,
+        uint256 value,
+        uint256 eta
+    );
+    event ParameterChanged(
+        uint256 indexed changeId,
+        Param indexed param,
+        bytes32 target,
+        uint256 oldValue,
+        uint256 newValue
+    );
+    event ParameterChangeCancelled(uint256 indexed changeId);
     event StalenessAlert(uint256 lastUpdate, uint256 currentTime);
+    /// @notice A CRE report arrived within minReportInterval of the last one and was dropped
+    event RiskReportThrottled(uint256 lastUpdate, uint256 currentTime);
+    /// @notice A stablecoin's alert severity changed (0 none, 1 WATCH, 2 WARNING, 3 CRITICAL);
+    ///         lets consumers act per coin, e.g. pause only USDC markets
+    event DepegAlert(bytes32 indexed symbol, uint256 price, uint8 severity);
     event ContagionScoreUpdated(
         uint256 contagionScore,
         uint256 worstCaseLoss,
         uint256 timestamp
     );
+    event RiskReportSubmitted(
+        uint8 version,
+        uint256 riskScore,
+        uint256 confidence,
+        uint256 depegScore,
+        uint8 scoreSource,
+        bytes32 indexed rationaleHash,
+        uint256 timestamp
+    );
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event ForwarderUpdated(address indexed forwarder, bool allowed);
+    event WorkflowIdUpdated(bytes32 indexed workflowId, bool allowed);
+    event WorkflowOwnerUpdated(address indexed workflowOwner, bool allowed);
 
     // ========== Constructor ==========
 
@@ -104,92 +246,65 @@ contract DeRiskOracle {
 
     // ========== CRE Receiver Interface ==========
 
-    // Function selectors for dispatch
-    bytes4 private constant SEL_UPDATE_RISK_DATA =
-        bytes4(keccak256("updateRiskData(uint256,uint256,uint256,uint256)"));
-    bytes4 private constant SEL_UPDATE_CONTAGION =
-        bytes4(keccak256("updateContagionScore(uint256,uint256)"));
+    // The only report CRE may write: the batched, versioned per-cycle report
+    bytes4 private constant SEL_SUBMIT_RISK_REPORT = DeRiskOracle.submitRiskReport.selector;
 
-    /// @notice Called by CRE writeReport - dispatches based on encoded function selector
-    function onReport(bytes calldata /* metadata */, bytes calldata report) external {
+    /// @notice Called by CRE writeReport - accepts an encoded submitRiskReport call
+    /// @dev Caller must be an authorized forwarder; metadata is checked against the
+    ///      workflow id/owner allowlists. The single-field selectors are no longer
+    ///      dispatched: they bypass the batched report's validation and the throttle
+    function onReport(bytes calldata metadata, bytes calldata report) external {
+        require(authorizedForwarders[msg.sender], "Unauthorized forwarder");
+        _validateMetadata(metadata);
         require(report.length >= 4, "Short report");
-        bytes4 selector = bytes4(report[:4]);
-        bytes calldata payload = report[4:];
-
-        if (selector == SEL_UPDATE_RISK_DATA) {
-            (
-                uint256 _riskScore,
-                uint256 _tvl,
-                uint256 _utilizationRate,
-                uint256 _ethPrice
-            ) = abi.decode(payload, (uint256, uint256, uint256, uint256));
-            _updateRiskData(_riskScore, _tvl, _utilizationRate, _ethPrice);
-        } else if (selector == SEL_UPDATE_CONTAGION) {
-            (uint256 _contagionScore, uint256 _worstCaseLoss) =
-                abi.decode(payload, (uint256, uint256));
-            require(_contagionScore <= 100, "Score must be 0-100");
-            contagionRiskScore = _contagionScore;
-            worstCaseSystemLoss = _worstCaseLoss;
-            contagionLastUpdated = block.timestamp;
-            emit ContagionScoreUpdated(_contagionScore, _worstCaseLoss, block.timestamp);
-        } else {
-            revert("Unknown selector");
+        require(bytes4(report[:4]) == SEL_SUBMIT_RISK_REPORT, "Unknown selector");
+
+        // Concurrent workflow executions (cron and log triggers) read the same
+        // lastUpdateTimestamp and can land reports in one block: keep the first
+        if (lastUpdateTimestamp > 0 && block.timestamp < lastUpdateTimestamp + minReportInterval) {
+            emit RiskReportThrottled(lastUpdateTimestamp, block.timestamp);
+            return;
         }
+        _submitRiskReport(abi.decode(report[4:], (RiskReport)));
+    }
+
+    /// @notice Apply a full per-cycle report atomically (owner only; CRE writes go through onReport)
+    function submitRiskReport(RiskReport calldata _report) external onlyOwner {
+        _submitRiskReport(_report);
     }
 
-    /// @notice Direct update function for CRE workflow and testing
+    /// @notice Direct update function for testing (owner only; CRE writes go through onReport)
     function updateRiskData(
         uint256 _riskScore,
         uint256 _tvl,
         uint256 _utilizationRate,
         uint256 _ethPrice
-    ) external {
+    ) external onlyOwner {
         _updateRiskData(_riskScore, _tvl, _utilizationRate, _ethPrice);
     }
 
-    /// @notice Update per-protocol risk scores and TVLs
-    /// @dev Computes weighted aggregate score automatically
+    /// @notice Update per-protocol risk scores (owner only)
+    /// @dev Every id must be registered; emits the weighted aggregate
     function updateProtocolScores(
-        uint256 _aaveScore,
-        uint256 _compoundScore,
-        uint256 _makerScore
-    ) external {
-        require(_aaveScore <= 100 && _compoundScore <= 100 && _makerScore <= 100, "Scores must be 0-100");
-
-        aaveRiskScore = _aaveScore;
-        compoundRiskScore = _compoundScore;
-        makerRiskScore = _makerScore;
-
-        // Weighted average aggregate score
-        uint256 aggregate = (
-            _aaveScore * AAVE_WEIGHT +
-            _compoundScore * COMPOUND_WEIGHT +
-            _makerScore * MAKER_WEIGHT
-        ) / 100;
-
-        emit ProtocolScoresUpdated(
-            _aaveScore, _compoundScore, _makerScore,
-            aggregate, block.timestamp
-        );
+        bytes32[] calldata _protocolIds,
+        uint256[] calldata _scores
+    ) external onlyOwner {
+        _updateProtocolScores(_protocolIds, _scores);
     }
 
-    /// @notice Update per-protocol TVLs (called by CRE workflow)
+    /// @notice Update per-protocol TVLs (owner only)
     function updateProtocolTvls(
-        uint256 _aaveTvl,
-        uint256 _compoundTvl,
-        uint256 _makerTvl
-    ) external {
-        aaveTvl = _aaveTvl;
-        compoundTvl = _compoundTvl;
-        makerTvl = _makerTvl;
-        tvl = _aaveTvl + _compoundTvl + _makerTvl;
+        bytes32[] calldata _protocolIds,
+        uint256[] calldata _tvls
+    ) external onlyOwner {
+        _updateProtocolTvls(_protocolIds, _tvls);
     }
 
-    /// @notice Update cross-protocol contagion analysis results
+    /// @notice Update cross-protocol contagion analysis results (owner only)
     function updateContagionScore(
         uint256 _contagionScore,
         uint256 _worstCaseLoss
-    ) external {
+    ) external onlyOwner {
         require(_contagionScore <= 100, "Score must be 0-100");
         contagionRiskScore = _contagionScore;
         worstCaseSystemLoss = _worstCaseLoss;
@@ -200,7 +315,7 @@ contract DeRiskOracle {
     // ========== Chainlink Automation Interface ==========
 
     /// @notice Called by Chainlink Automation to check if upkeep is needed
-    /// @dev Returns true if oracle data is stale (no update in STALENESS_THRESHOLD)
+    /// @dev Returns true if oracle data is stale (no update in stalenessThreshold)
     /// @return upkeepNeeded true if oracle data is stale and needs attention
     /// @return performData encoded staleness info for performUpkeep
     function checkUpkeep(bytes calldata)
@@ -209,7 +324,7 @@ contract DeRiskOracle {
         returns (bool upkeepNeeded, bytes memory performData)
     {
         bool dataIsStale = lastUpdateTimestamp > 0 &&
-            (block.timestamp - lastUpdateTimestamp) > STALENESS_THRESHOLD;
+            (block.timestamp - lastUpdateTimestamp) > stalenessThreshold;
         upkeepNeeded = dataIsStale;
         performData = abi.encode(lastUpdateTimestamp, block.timestamp);
     }
@@ -220,7 +335,7 @@ contract DeRiskOracle {
         // Re-validate staleness on-chain (prevent stale performData replay)
         require(
             lastUpdateTimestamp > 0 &&
-            (block.timestamp - lastUpdateTimestamp) > STALENESS_THRESHOLD,
+            (block.timestamp - lastUpdateTimestamp) > stalenessThreshold,
             "Not stale"
         );
 
@@ -233,9 +348,8 @@ contract DeRiskOracle {
         }
 
         // Trigger circuit breaker if risk is already high and data is stale
-        if (riskScore > CIRCUIT_BREAKER_THRESHOLD && !circuitBreakerActive) {
-            circuitBreakerActive = true;
-            emit CircuitBreakerTriggered(riskScore, block.timestamp);
+        if (riskScore > breakerTripThreshold && !circuitBreakerActive) {
+            _tripCircuitBreaker(riskScore);
         }
     }
 
@@ -250,14 +364,140 @@ contract DeRiskOracle {
 
     /// @notice Emergency: manually trigger circuit breaker
     function emergencyCircuitBreaker(bool _active) external onlyOwner {
-        circuitBreakerActive = _active;
         if (_active) {
-            emit CircuitBreakerTriggered(riskScore, block.timestamp);
+            _tripCircuitBreaker(riskScore);
         } else {
-            emit CircuitBreakerReset(riskScore, block.timestamp);
+            _resetCircuitBreaker(riskScore);
         }
     }
 
+    // ========== Parameter Timelock ==========
+
+    /// @notice Queue a governed parameter change, executable after timelockDelay
+    /// @param _param Parameter to change
+    /// @param _target Protocol id for protocol changes, otherwise bytes32(0)
+    /// @param _value New value
+    /// @return changeId Index into parameterChanges
+    function queueParameterChange(
+        Param _param,
+        bytes32 _target,
+        uint256 _value
+    ) external onlyOwner returns (uint256 changeId) {
+        _validateParameter(_param, _target, _value);
+
+        changeId = parameterChanges.length;
+        uint256 eta = block.timestamp + timelockDelay;
+        parameterChanges.push(ParameterChange({
+            param: _param,
+            target: _target,
+            value: _value,
+            eta: eta,
+            executed: false,
+            cancelled: false
+        }));
+        emit ParameterChangeQueued(changeId, _param, _target, _value, eta);
+    }
+
+    /// @notice Apply a queued change once its timelock has elapsed
+    /// @dev Re-validated at execution, since other parameters may have moved since queueing
+    function executeParameterChange(uint256 _changeId) external onlyOwner {
+        require(_changeId < parameterChanges.length, "Unknown change");
+        ParameterChange storage change = parameterChanges[_changeId];
+        require(!change.executed && !change.cancelled, "Change not pending");
+        require(block.timestamp >= change.eta, "Timelock not elapsed");
+        _validateParameter(change.param, change.target, change.value);
+
+        change.executed = true;
+        uint256 oldValue = _setParameter(change.param, change.target, change.value);
+        emit ParameterChanged(_changeId, change.param, change.target, oldValue, change.value);
+    }
+
+    /// @notice Drop a queued change
+    function cancelParameterChange(uint256 _changeId) external onlyOwner {
+        require(_changeId < parameterChanges.length, "Unknown change");
+        ParameterChange storage change = parameterChanges[_changeId];
+        require(!change.executed && !change.cancelled, "Change not pending");
+        change.cancelled = true;
+        emit ParameterChangeCancelled(_changeId);
+    }
+
+    // ========== Report Allowlist ==========
+
+    /// @notice Allow or revoke a CRE forwarder as onReport caller
+    function setForwarder(address _forwarder, bool _allowed) external onlyOwner {
+        require(_forwarder != address(0), "Zero address");
+        authorizedForwarders[_forwarder] = _allowed;
+        emit ForwarderUpdated(_forwarder, _allowed);
+    }
+
+    /// @notice Allow or revoke a CRE workflow id
+    function setWorkflowId(bytes32 _workflowId, bool _allowed) external onlyOwner {
+        if (allowedWorkflowIds[_workflowId] != _allowed) {
+            allowedWorkflowIds[_workflowId] = _allowed;
+            if (_allowed) allowedWorkflowIdCount++;
+            else allowedWorkflowIdCount--;
+        }
+        emit WorkflowIdUpdated(_workflowId, _allowed);
+    }
+
+    /// @notice Allow or revoke a CRE workflow owner
+    function setWorkflowOwner(address _workflowOwner, bool _allowed) external onlyOwner {
+        if (allowedWorkflowOwners[_workflowOwner] != _allowed) {
+            allowedWorkflowOwners[_workflowOwner] = _allowed;
+            if (_allowed) allowedWorkflowOwnerCount++;
+            else allowedWorkflowOwnerCount--;
+        }
+        emit WorkflowOwnerUpdated(_workflowOwner, _allowed);
+    }
+
+    // ========== Protocol Registry ==========
+
+    /// @notice Register a protocol of the initial registry, before the first report
+    /// @dev Once the oracle has published, registration, removal and weight changes all
+    ///      go through the parameter timelock (RegisterProtocol, RemoveProtocol, ProtocolWeight)
+    /// @param _protocolId Workflow registry key as bytes32 (e.g. "aave")
+    /// @param _weight Share of the aggregate score (normalized by total weight)
+    function registerProtocol(bytes32 _protocolId, uint256 _weight) external onlyOwner {
+        require(updateCount == 0, "Registry is timelocked");
+        _validateParameter(Param.RegisterProtocol, _protocolId, _weight);
+        _registerProtocol(_protocolId, _weight);
+    }
+
+    function _registerProtocol(bytes32 _protocolId, uint256 _weight) internal {
+        ProtocolInfo storage info = protocols[_protocolId];
+        info.registered = true;
+        info.weight = _weight;
+        protocolIds.push(_protocolId);
+        emit ProtocolRegistered(_protocolId, _weight);
+    }
+
+    /// @dev Clears the protocol's stored score and TVL and cancels its pending weight
+    ///      changes, so they cannot apply to a later re-registration of the same id
+    function _removeProtocol(bytes32 _protocolId) internal {
+        delete protocols[_protocolId];
+
+        uint256 last = protocolIds.length - 1;
+        for (uint256 i = 0; i <= last; i++) {
+            if (protocolIds[i] == _protocolId) {
+                protocolIds[i] = protocolIds[last];
+                protocolIds.pop();
+                break;
+            }
+        }
+
+        for (uint256 i = 0; i < parameterChanges.length; i++) {
+            ParameterChange storage change = parameterChanges[i];
+            if (
+                change.param == Param.ProtocolWeight && change.target == _protocolId &&
+                !change.executed && !change.cancelled
+            ) {
+                change.cancelled = true;
+                emit ParameterChangeCancelled(i);
+            }
+        }
+        emit ProtocolRemoved(_protocolId);
+    }
+
     // ========== Backtest Proofs ==========
 
     /// @notice Submit a backtest proof (owner only, immutable record)
@@ -286,6 +526,140 @@ contract DeRiskOracle {
 
     // ========== Internal Logic ==========
 
+    /// @dev CRE metadata layout: abi.encodePacked(workflowId, workflowName, workflowOwner)
+    ///      = bytes32 (0..32) | bytes10 (32..42) | address (42..62)
+    function _validateMetadata(bytes calldata metadata) internal view {
+        if (allowedWorkflowIdCount == 0 && allowedWorkflowOwnerCount == 0) return;
+        require(metadata.length >= 62, "Short metadata");
+
+        if (allowedWorkflowIdCount > 0) {
+            require(allowedWorkflowIds[bytes32(metadata[:32])], "Unauthorized workflow");
+        }
+        if (allowedWorkflowOwnerCount > 0) {
+            require(
+                allowedWorkflowOwners[address(bytes20(metadata[42:62]))],
+                "Unauthorized workflow owner"
+            );
+        }
+    }
+
+    function _aggregateScore() internal view returns (uint256) {
+        uint256 weightedSum = 0;
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            ProtocolInfo storage info = protocols[protocolIds[i]];
+            weightedSum += info.riskScore * info.weight;
+            totalWeight += info.weight;
+        }
+        return totalWeight == 0 ? 0 : weightedSum / totalWeight;
+    }
+
+    function _submitRiskReport(RiskReport memory _report) internal {
+        require(_report.version == REPORT_VERSION, "Unsupported report version");
+        require(_report.contagionScore <= 100, "Score must be 0-100");
+        require(_report.liquidationScore <= 100, "Score must be 0-100");
+        require(_report.depegScore <= 100, "Score must be 0-100");
+        require(_report.confidence <= 100, "Confidence must be 0-100");
+        require(
+            _report.scoreSource == SCORE_SOURCE_AI || _report.scoreSource == SCORE_SOURCE_FALLBACK,
+            "Unknown score source"
+        );
+        require(
+            _report.scoreSource == SCORE_SOURCE_FALLBACK || _report.rationaleHash != bytes32(0),
+            "AI report needs rationale"
+        );
+
+        // Per-protocol TVLs first: their sum becomes the aggregate tvl
+        _updateProtocolTvls(_report.protocolIds, _report.protocolTvls);
+        _updateProtocolScores(_report.protocolIds, _report.protocolScores);
+
+        contagionRiskScore = _report.contagionScore;
+        worstCaseSystemLoss = _report.worstCaseLoss;
+        contagionLastUpdated = block.timestamp;
+        emit ContagionScoreUpdated(_report.contagionScore, _report.worstCaseLoss, block.timestamp);
+        liquidationRiskScore = _report.liquidationScore;
+        collateralAtRisk = _report.collateralAtRisk;
+
+        depegRiskScore = _report.depegScore;
+        _updatePegStates(
+            _report.stablecoinIds, _report.stablecoinPrices,
+            _report.offPegSince, _report.pegSeverities
+        );
+        consensusConfidence = _report.confidence;
+        scoreSource = _report.scoreSource;
+        rationaleHash = _report.rationaleHash;
+
+        // Last, so the round snapshot captures this report's contagion and depeg scores
+        _updateRiskData(_report.riskScore, tvl, _report.utilizationRate, _report.ethPrice);
+        emit RiskReportSubmitted(
+            _report.version, _report.riskScore,
+            _report.confidence, _report.depegScore, _report.scoreSource,
+            _report.rationaleHash, block.timestamp
+        );
+    }
+
+    function _updateProtocolScores(
+        bytes32[] memory _protocolIds,
+        uint256[] memory _scores
+    ) internal {
+        require(_protocolIds.length == _scores.length, "Length mismatch");
+
+        for (uint256 i = 0; i < _protocolIds.length; i++) {
+            require(_scores[i] <= 100, "Scores must be 0-100");
+            ProtocolInfo storage info = protocols[_protocolIds[i]];
+            require(info.registered, "Unknown protocol");
+            info.riskScore = _scores[i];
+        }
+
+        emit ProtocolScoresUpdated(
+            _protocolIds, _scores,
+            _aggregateScore(), block.timestamp
+        );
+    }
+
+    function _updateProtocolTvls(
+        bytes32[] memory _protocolIds,
+        uint256[] memory _tvls
+    ) internal {
+        require(_protocolIds.length == _tvls.length, "Length mismatch");
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < _protocolIds.length; i++) {
+            ProtocolInfo storage info = protocols[_protocolIds[i]];
+            require(info.registered, "Unknown protocol");
+            info.tvl = _tvls[i];
+            total += _tvls[i];
+        }
+        tvl = total;
+    }
+
+    function _updatePegStates(
+        bytes32[] memory _ids,
+        uint256[] memory _prices,
+        uint256[] memory _offPegSince,
+        uint8[] memory _severities
+    ) internal {
+        require(
+            _ids.length == _prices.length &&
+            _ids.length == _offPegSince.length &&
+            _ids.length == _severities.length,
+            "Length mismatch"
+        );
+
+        for (uint256 i = 0; i < _ids.length; i++) {
+            require(_severities[i] <= 3, "Unknown severity");
+            if (_severities[i] != pegStates[_ids[i]].severity) {
+                emit DepegAlert(_ids[i], _prices[i], _severities[i]);
+            }
+            pegStates[_ids[i]] = PegState({
+                price: uint64(_prices[i]),
+                offPegSince: uint64(_offPegSince[i]),
+                updatedAt: uint64(block.timestamp),
+                severity: _severities[i]
+            });
+        }
+    }
+
     function _updateRiskData(
         uint256 _riskScore,
         uint256 _tvl,
@@ -301,18 +675,124 @@ contract DeRiskOracle {
         lastUpdateTimestamp = block.timestamp;
         updateCount++;
 
+        snapshots[updateCount % SNAPSHOT_CAPACITY] = Snapshot({
+            roundId: uint64(updateCount),
+            timestamp: uint64(block.timestamp),
+            riskScore: uint8(_riskScore),
+            contagionScore: uint8(contagionRiskScore),
+            depegScore: uint8(depegRiskScore),
+            scoreSource: scoreSource,
+            totalTvl: uint64(_tvl)
+        });
+
         emit RiskScoreUpdated(_riskScore, _tvl, _ethPrice, block.timestamp);
 
-        // Circuit breaker logic
-        if (_riskScore > CIRCUIT_BREAKER_THRESHOLD && !circuitBreakerActive) {
-            circuitBreakerActive = true;
-            emit CircuitBreakerTriggered(_riskScore, block.timestamp);
-        } else if (_riskScore <= CIRCUIT_BREAKER_THRESHOLD && circuitBreakerActive) {
-            circuitBreakerActive = false;
-            emit CircuitBreakerReset(_riskScore, block.timestamp);
+        // Circuit breaker logic (hysteresis: trip above trip threshold, reset
+        // only after sustained readings at or below the reset threshold)
+        if (!circuitBreakerActive) {
+            if (_riskScore > breakerTripThreshold) {
+                _tripCircuitBreaker(_riskScore);
+            }
+        } else if (_riskScore > breakerResetThreshold) {
+            consecutiveBelowReset = 0;
+        } else {
+            consecutiveBelowReset++;
+            if (
+                consecutiveBelowReset >= breakerResetConfirmations &&
+                block.timestamp >= circuitBreakerTrippedAt + breakerMinActiveDuration
+            ) {
+                _resetCircuitBreaker(_riskScore);
+            } else {
+                emit CircuitBreakerResetProgress(
+                    _riskScore, consecutiveBelowReset, breakerResetConfirmations
+                );
+            }
+        }
+    }
+
+    function _validateParameter(Param _param, bytes32 _target, uint256 _value) internal view {
+        if (_param == Param.ProtocolWeight || _param == Param.RemoveProtocol) {
+            require(protocols[_target].registered, "Unknown protocol");
+            return;
+        }
+        if (_param == Param.RegisterProtocol) {
+            require(_target != bytes32(0), "Empty id");
+            require(!protocols[_target].registered, "Already registered");
+            return;
+        }
+        require(_target == bytes32(0), "Target only for protocol changes");
+
+        if (_param == Param.BreakerTripThreshold) {
+            require(_value <= 100, "Score must be 0-100");
+            require(_value > breakerResetThreshold, "Reset must be below trip");
+        } else if (_param == Param.BreakerResetThreshold) {
+            require(_value < breakerTripThreshold, "Reset must be below trip");
+        } else if (_param == Param.BreakerResetConfirmations) {
+            require(_value > 0, "Need at least one confirmation");
+        } else if (_param == Param.StalenessThreshold) {
+            require(_value > 0, "Interval must be positive");
+        } else if (_param == Param.UpdateInterval) {
+            require(_value > minReportInterval, "Report interval must be below update");
+        } else if (_param == Param.MinReportInterval) {
+            require(_value < updateInterval, "Report interval must be below update");
+        } else if (_param == Param.TimelockDelay) {
+            require(
+                _value >= MIN_TIMELOCK_DELAY && _value <= MAX_TIMELOCK_DELAY,
+                "Delay out of bounds"
+            );
+        }
+    }
+
+    /// @dev Writes a governed parameter, returning its previous value
+    function _setParameter(Param _param, bytes32 _target, uint256 _value) internal returns (uint256 oldValue) {
+        if (_param == Param.BreakerTripThreshold) {
+            oldValue = breakerTripThreshold;
+            breakerTripThreshold = _value;
+        } else if (_param == Param.BreakerResetThreshold) {
+            oldValue = breakerResetThreshold;
+            breakerResetThreshold = _value;
+        } else if (_param == Param.BreakerMinActiveDuration) {
+            oldValue = breakerMinActiveDuration;
+            breakerMinActiveDuration = _value;
+        } else if (_param == Param.BreakerResetConfirmations) {
+            oldValue = breakerResetConfirmations;
+            breakerResetConfirmations = _value;
+        } else if (_param == Param.StalenessThreshold) {
+            oldValue = stalenessThreshold;
+            stalenessThreshold = _value;
+        } else if (_param == Param.UpdateInterval) {
+            oldValue = updateInterval;
+            updateInterval = _value;
+        } else if (_param == Param.ProtocolWeight) {
+            oldValue = protocols[_target].weight;
+            protocols[_target].weight = _value;
+        } else if (_param == Param.TimelockDelay) {
+            oldValue = timelockDelay;
+            timelockDelay = _value;
+        } else if (_param == Param.MinReportInterval) {
+            oldValue = minReportInterval;
+            minReportInterval = _value;
+        } else if (_param == Param.RegisterProtocol) {
+            _registerProtocol(_target, _value);
+        } else {
+            oldValue = protocols[_target].weight;
+            _removeProtocol(_target);
         }
     }
 
+    function _tripCircuitBreaker(uint256 _score) internal {
+        circuitBreakerActive = true;
+        circuitBreakerTrippedAt = block.timestamp;
+        consecutiveBelowReset = 0;
+        emit CircuitBreakerTriggered(_score, block.timestamp);
+    }
+
+    function _resetCircuitBreaker(uint256 _score) internal {
+        circuitBreakerActive = false;
+        consecutiveBelowReset = 0;
+        emit CircuitBreakerReset(_score, block.timestamp);
+    }
+
     // ========== View Functions ==========
 
     /// @notice Get complete risk assessment data in a single call
@@ -340,43 +820,122 @@ contract DeRiskOracle {
         );
     }
 
+    /// @notice Get the full protocol registry with weights, scores and TVLs
+    function getProtocols()
+        external
+        view
+        returns (
+            bytes32[] memory _protocolIds,
+            uint256[] memory _weights,
+            uint256[] memory _scores,
+            uint256[] memory _tvls
+        )
+    {
+        uint256 n = protocolIds.length;
+        _protocolIds = protocolIds;
+        _weights = new uint256[](n);
+        _scores = new uint256[](n);
+        _tvls = new uint256[](n);
+        for (uint256 i = 0; i < n; i++) {
+            ProtocolInfo storage info = protocols[protocolIds[i]];
+            _weights[i] = info.weight;
+            _scores[i] = info.riskScore;
+            _tvls[i] = info.tvl;
+        }
+    }
+
+    /// @notice Get circuit breaker hysteresis settings and reset progress
+    function getCircuitBreakerConfig()
+        external
+        view
+        returns (
+            uint256 _tripThreshold,
+            uint256 _resetThreshold,
+            uint256 _minActiveDuration,
+            uint256 _resetConfirmations,
+            uint256 _trippedAt,
+            uint256 _consecutiveBelowReset
+        )
+    {
+        return (
+            breakerTripThreshold,
+            breakerResetThreshold,
+            breakerMinActiveDuration,
+            breakerResetConfirmations,
+            circuitBreakerTrippedAt,
+            consecutiveBelowReset
+        );
+    }
+
+    /// @notice Get all queued changes that are neither executed nor cancelled
+    function getPendingChanges()
+        external
+        view
+        returns (uint256[] memory _changeIds, ParameterChange[] memory _changes)
+    {
+        uint256 count = 0;
+        for (uint256 i = 0; i < parameterChanges.length; i++) {
+            if (!parameterChanges[i].executed && !parameterChanges[i].cancelled) count++;
+        }
+
+        _changeIds = new uint256[](count);
+        _changes = new ParameterChange[](count);
+        uint256 n = 0;
+        for (uint256 i = 0; i < parameterChanges.length; i++) {
+            if (!parameterChanges[i].executed && !parameterChanges[i].cancelled) {
+                _changeIds[n] = i;
+                _changes[n] = parameterChanges[i];
+                n++;
+            }
+        }
+    }
+
     /// @notice Get per-protocol risk breakdown
     function getProtocolScores()
         external
         view
-        returns (uint256 _aave, uint256 _compound, uint256 _maker)
+        returns (bytes32[] memory _protocolIds, uint256[] memory _scores)
     {
-        return (aaveRiskScore, compoundRiskScore, makerRiskScore);
+        _protocolIds = protocolIds;
+        _scores = new uint256[](protocolIds.length);
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            _scores[i] = protocols[protocolIds[i]].riskScore;
+        }
     }
 
     /// @notice Get per-protocol TVL breakdown
     function getProtocolTvls()
         external
         view
-        returns (uint256 _aaveTvl, uint256 _compoundTvl, uint256 _makerTvl)
+        returns (bytes32[] memory _protocolIds, uint256[] memory _tvls)
     {
-        return (aaveTvl, compoundTvl, makerTvl);
+        _protocolIds = protocolIds;
+        _tvls = new uint256[](protocolIds.length);
+        for (uint256 i = 0; i < protocolIds.length; i++) {
+            _tvls[i] = protocols[protocolIds[i]].tvl;
+        }
+    }
+
+    /// @notice Get number of registered protocols
+    function getProtocolCount() external view returns (uint256) {
+        return protocolIds.length;
     }
 
     /// @notice Compute weighted aggregate from per-protocol scores
     function getAggregateScore() external view returns (uint256) {
-        return (
-            aaveRiskScore * AAVE_WEIGHT +
-            compoundRiskScore * COMPOUND_WEIGHT +
-            makerRiskScore * MAKER_WEIGHT
-        ) / 100;
+        return _aggregateScore();
     }
 
-    /// @notice Check if oracle data is stale (no update in STALENESS_THRESHOLD)
+    /// @notice Check if oracle data is stale (no update in stalenessThreshold)
     function isStale() external view returns (bool) {
         return lastUpdateTimestamp > 0 &&
-            (block.timestamp - lastUpdateTimestamp) > STALENESS_THRESHOLD;
+            (block.timestamp - lastUpdateTimestamp) > stalenessThreshold;
     }
 
-    /// @notice Check if a new update is needed (UPDATE_INTERVAL elapsed)
+    /// @notice Check if a new update is needed (updateInterval elapsed)
     function needsUpdate() external view returns (bool) {
         if (lastUpdateTimestamp == 0) return true;
-        return (block.timestamp - lastUpdateTimestamp) > UPDATE_INTERVAL;
+        return (block.timestamp - lastUpdateTimestamp) > updateInterval;
     }
 
     /// @notice Seconds since last update
@@ -398,6 +957,108 @@ contract DeRiskOracle {
         return (contagionRiskScore, worstCaseSystemLoss, contagionLastUpdated);
     }
 
+    /// @notice Get liquidation-at-risk data
+    /// @dev `_collateralAtRisk` is USD liquidatable at ETH -10%, -20% and -30%; updated
+    ///      with the contagion data (see contagionLastUpdated)
+    function getLiquidationRisk()
+        external
+        view
+        returns (uint256 _liquidationScore, uint256[3] memory _collateralAtRisk)
+    {
+        return (liquidationRiskScore, collateralAtRisk);
+    }
+
+    /// @notice Latest peg state for each stablecoin or LST id
+    /// @dev Entries are zero (updatedAt 0) for coins never reported; the CRE workflow
+    ///      reads the previous cycle's depeg state with one call
+    function getPegStates(bytes32[] calldata _ids) external view returns (PegState[] memory result) {
+        result = new PegState[](_ids.length);
+        for (uint256 i = 0; i < _ids.length; i++) {
+            result[i] = pegStates[_ids[i]];
+        }
+    }
+
+    // ========== Snapshot History ==========
+
+    /// @notice Get the snapshot recorded for a round
+    /// @dev Reverts if the round has not happened yet or was overwritten
+    function getSnapshot(uint256 _roundId) external view returns (Snapshot memory) {
+        require(
+            _roundId > 0 && _roundId <= updateCount &&
+            updateCount - _roundId < SNAPSHOT_CAPACITY,
+            "Snapshot unavailable"
+        );
+        return snapshots[_roundId % SNAPSHOT_CAPACITY];
+    }
+
+    /// @notice Get all retained snapshots with timestamp >= _since, oldest first
+    function getSnapshotsSince(uint256 _since) external view returns (Snapshot[] memory result) {
+        uint256 count = 0;
+        uint256 retained = updateCount < SNAPSHOT_CAPACITY ? updateCount : SNAPSHOT_CAPACITY;
+        while (
+            count < retained &&
+            snapshots[(updateCount - count) % SNAPSHOT_CAPACITY].timestamp >= _since
+        ) {
+            count++;
+        }
+
+        result = new Snapshot[](count);
+        for (uint256 i = 0; i < count; i++) {
+            result[i] = snapshots[(updateCount - count + 1 + i) % SNAPSHOT_CAPACITY];
+        }
+    }
+
+    /// @notice Latest retained snapshot at least each `_ages[i]` seconds old
+    /// @dev Entries are zero (roundId 0) when the retained history is younger than the age;
+    ///      the CRE workflow reads TVL trend windows with one call
+    function getSnapshotsAgo(uint256[] calldata _ages) external view returns (Snapshot[] memory result) {
+        uint256 oldest = updateCount < SNAPSHOT_CAPACITY ? 1 : updateCount - SNAPSHOT_CAPACITY + 1;
+        result = new Snapshot[](_ages.length);
+        for (uint256 i = 0; i < _ages.length; i++) {
+            if (updateCount == 0 || _ages[i] > block.timestamp) continue;
+            uint256 cutoff = block.timestamp - _ages[i];
+            // Binary search for the newest round with timestamp <= cutoff
+            uint256 lo = oldest;
+            uint256 hi = updateCount;
+            uint256 found = 0;
+            while (lo <= hi) {
+                uint256 mid = (lo + hi) / 2;
+                if (snapshots[mid % SNAPSHOT_CAPACITY].timestamp <= cutoff) {
+                    found = mid;
+                    lo = mid + 1;
+                } else {
+                    hi = mid - 1;
+                }
+            }
+            if (found != 0) result[i] = snapshots[found % SNAPSHOT_CAPACITY];
+        }
+    }
+
+    /// @notice Time-weighted average risk score over the last _window seconds
+    /// @dev Each snapshot's score counts for as long as it was the latest; the
+    ///      window is clipped to the retained history
+    function getAverageScore(uint256 _window) external view returns (uint256) {
+        require(updateCount > 0, "No snapshots");
+
+        uint256 windowStart = _window < block.timestamp ? block.timestamp - _window : 0;
+        uint256 retained = updateCount < SNAPSHOT_CAPACITY ? updateCount : SNAPSHOT_CAPACITY;
+        uint256 end = block.timestamp;
+        uint256 weightedSum = 0;
+        uint256 duration = 0;
+
+        for (uint256 i = 0; i < retained && end > windowStart; i++) {
+            Snapshot storage snap = snapshots[(updateCount - i) % SNAPSHOT_CAPACITY];
+            uint256 start = snap.timestamp > windowStart ? snap.timestamp : windowStart;
+            weightedSum += uint256(snap.riskScore) * (end - start);
+            duration += end - start;
+            end = start;
+        }
+
+        // Zero-length window (or an update in this block): latest score
+        if (duration == 0) return snapshots[updateCount % SNAPSHOT_CAPACITY].riskScore;
+        return weightedSum / duration;
+    }
+
     /// @notice ERC-165 interface detection
     function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
         return interfaceId == 0x01ffc9a7; // ERC-165
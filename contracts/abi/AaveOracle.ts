@@ -0,0 +1,9 @@
+export const AaveOracle = [
+	{
+		inputs: [{ internalType: 'address[]', name: 'assets', type: 'address[]' }],
+		name: 'getAssetsPrices',
+		outputs: [{ internalType: 'uint256[]', name: '', type: 'uint256[]' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const
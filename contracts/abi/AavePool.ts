@@ -0,0 +1,27 @@
+export const AavePool = [
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'address', name: 'reserve', type: 'address' },
+			{ indexed: true, internalType: 'address', name: 'user', type: 'address' },
+			{ indexed: true, internalType: 'address', name: 'to', type: 'address' },
+			{ indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' },
+		],
+		name: 'Withdraw',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'address', name: 'collateralAsset', type: 'address' },
+			{ indexed: true, internalType: 'address', name: 'debtAsset', type: 'address' },
+			{ indexed: true, internalType: 'address', name: 'user', type: 'address' },
+			{ indexed: false, internalType: 'uint256', name: 'debtToCover', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'liquidatedCollateralAmount', type: 'uint256' },
+			{ indexed: false, internalType: 'address', name: 'liquidator', type: 'address' },
+			{ indexed: false, internalType: 'bool', name: 'receiveAToken', type: 'bool' },
+		],
+		name: 'LiquidationCall',
+		type: 'event',
+	},
+] as const
@@ -0,0 +1,22 @@
+export const AaveProtocolDataProvider = [
+	{
+		inputs: [{ internalType: 'address', name: 'asset', type: 'address' }],
+		name: 'getReserveData',
+		outputs: [
+			{ internalType: 'uint256', name: 'unbacked', type: 'uint256' },
+			{ internalType: 'uint256', name: 'accruedToTreasuryScaled', type: 'uint256' },
+			{ internalType: 'uint256', name: 'totalAToken', type: 'uint256' },
+			{ internalType: 'uint256', name: 'totalStableDebt', type: 'uint256' },
+			{ internalType: 'uint256', name: 'totalVariableDebt', type: 'uint256' },
+			{ internalType: 'uint256', name: 'liquidityRate', type: 'uint256' },
+			{ internalType: 'uint256', name: 'variableBorrowRate', type: 'uint256' },
+			{ internalType: 'uint256', name: 'stableBorrowRate', type: 'uint256' },
+			{ internalType: 'uint256', name: 'averageStableBorrowRate', type: 'uint256' },
+			{ internalType: 'uint256', name: 'liquidityIndex', type: 'uint256' },
+			{ internalType: 'uint256', name: 'variableBorrowIndex', type: 'uint256' },
+			{ internalType: 'uint40', name: 'lastUpdateTimestamp', type: 'uint40' },
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const
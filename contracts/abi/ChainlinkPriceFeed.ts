@@ -12,6 +12,19 @@ export const ChainlinkPriceFeed = [
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		inputs: [{ internalType: 'uint80', name: '_roundId', type: 'uint80' }],
+		name: 'getRoundData',
+		outputs: [
+			{ internalType: 'uint80', name: 'roundId', type: 'uint80' },
+			{ internalType: 'int256', name: 'answer', type: 'int256' },
+			{ internalType: 'uint256', name: 'startedAt', type: 'uint256' },
+			{ internalType: 'uint256', name: 'updatedAt', type: 'uint256' },
+			{ internalType: 'uint80', name: 'answeredInRound', type: 'uint80' },
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	{
 		inputs: [],
 		name: 'decimals',
@@ -2,7 +2,7 @@ export const DeRiskOracle = [
 	// ========== CRE Receiver ==========
 	{
 		inputs: [
-			{ internalType: 'bytes', name: '', type: 'bytes' },
+			{ internalType: 'bytes', name: 'metadata', type: 'bytes' },
 			{ internalType: 'bytes', name: 'report', type: 'bytes' },
 		],
 		name: 'onReport',
@@ -10,6 +10,40 @@ export const DeRiskOracle = [
 		stateMutability: 'nonpayable',
 		type: 'function',
 	},
+	{
+		inputs: [
+			{
+				components: [
+					{ internalType: 'uint8', name: 'version', type: 'uint8' },
+					{ internalType: 'uint256', name: 'riskScore', type: 'uint256' },
+					{ internalType: 'uint256', name: 'utilizationRate', type: 'uint256' },
+					{ internalType: 'uint256', name: 'ethPrice', type: 'uint256' },
+					{ internalType: 'uint256', name: 'contagionScore', type: 'uint256' },
+					{ internalType: 'uint256', name: 'worstCaseLoss', type: 'uint256' },
+					{ internalType: 'uint256', name: 'liquidationScore', type: 'uint256' },
+					{ internalType: 'uint256[3]', name: 'collateralAtRisk', type: 'uint256[3]' },
+					{ internalType: 'uint256', name: 'depegScore', type: 'uint256' },
+					{ internalType: 'uint256', name: 'confidence', type: 'uint256' },
+					{ internalType: 'uint8', name: 'scoreSource', type: 'uint8' },
+					{ internalType: 'bytes32', name: 'rationaleHash', type: 'bytes32' },
+					{ internalType: 'bytes32[]', name: 'protocolIds', type: 'bytes32[]' },
+					{ internalType: 'uint256[]', name: 'protocolScores', type: 'uint256[]' },
+					{ internalType: 'uint256[]', name: 'protocolTvls', type: 'uint256[]' },
+					{ internalType: 'bytes32[]', name: 'stablecoinIds', type: 'bytes32[]' },
+					{ internalType: 'uint256[]', name: 'stablecoinPrices', type: 'uint256[]' },
+					{ internalType: 'uint256[]', name: 'offPegSince', type: 'uint256[]' },
+					{ internalType: 'uint8[]', name: 'pegSeverities', type: 'uint8[]' },
+				],
+				internalType: 'struct DeRiskOracle.RiskReport',
+				name: '_report',
+				type: 'tuple',
+			},
+		],
+		name: 'submitRiskReport',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
 	{
 		inputs: [
 			{ internalType: 'uint256', name: '_riskScore', type: 'uint256' },
@@ -25,9 +59,8 @@ export const DeRiskOracle = [
 	// ========== Multi-Protocol ==========
 	{
 		inputs: [
-			{ internalType: 'uint256', name: '_aaveScore', type: 'uint256' },
-			{ internalType: 'uint256', name: '_compoundScore', type: 'uint256' },
-			{ internalType: 'uint256', name: '_makerScore', type: 'uint256' },
+			{ internalType: 'bytes32[]', name: '_protocolIds', type: 'bytes32[]' },
+			{ internalType: 'uint256[]', name: '_scores', type: 'uint256[]' },
 		],
 		name: 'updateProtocolScores',
 		outputs: [],
@@ -36,9 +69,8 @@ export const DeRiskOracle = [
 	},
 	{
 		inputs: [
-			{ internalType: 'uint256', name: '_aaveTvl', type: 'uint256' },
-			{ internalType: 'uint256', name: '_compoundTvl', type: 'uint256' },
-			{ internalType: 'uint256', name: '_makerTvl', type: 'uint256' },
+			{ internalType: 'bytes32[]', name: '_protocolIds', type: 'bytes32[]' },
+			{ internalType: 'uint256[]', name: '_tvls', type: 'uint256[]' },
 		],
 		name: 'updateProtocolTvls',
 		outputs: [],
@@ -67,6 +99,110 @@ export const DeRiskOracle = [
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		inputs: [],
+		name: 'getLiquidationRisk',
+		outputs: [
+			{ internalType: 'uint256', name: '_liquidationScore', type: 'uint256' },
+			{ internalType: 'uint256[3]', name: '_collateralAtRisk', type: 'uint256[3]' },
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	// ========== Depeg Monitoring ==========
+	{
+		inputs: [{ internalType: 'bytes32[]', name: '_ids', type: 'bytes32[]' }],
+		name: 'getPegStates',
+		outputs: [
+			{
+				components: [
+					{ internalType: 'uint64', name: 'price', type: 'uint64' },
+					{ internalType: 'uint64', name: 'offPegSince', type: 'uint64' },
+					{ internalType: 'uint64', name: 'updatedAt', type: 'uint64' },
+					{ internalType: 'uint8', name: 'severity', type: 'uint8' },
+				],
+				internalType: 'struct DeRiskOracle.PegState[]',
+				name: 'result',
+				type: 'tuple[]',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	// ========== Snapshot History ==========
+	{
+		inputs: [{ internalType: 'uint256', name: '_roundId', type: 'uint256' }],
+		name: 'getSnapshot',
+		outputs: [
+			{
+				components: [
+					{ internalType: 'uint64', name: 'roundId', type: 'uint64' },
+					{ internalType: 'uint64', name: 'timestamp', type: 'uint64' },
+					{ internalType: 'uint8', name: 'riskScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'contagionScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'depegScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'scoreSource', type: 'uint8' },
+					{ internalType: 'uint64', name: 'totalTvl', type: 'uint64' },
+				],
+				internalType: 'struct DeRiskOracle.Snapshot',
+				name: '',
+				type: 'tuple',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'uint256[]', name: '_ages', type: 'uint256[]' }],
+		name: 'getSnapshotsAgo',
+		outputs: [
+			{
+				components: [
+					{ internalType: 'uint64', name: 'roundId', type: 'uint64' },
+					{ internalType: 'uint64', name: 'timestamp', type: 'uint64' },
+					{ internalType: 'uint8', name: 'riskScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'contagionScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'depegScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'scoreSource', type: 'uint8' },
+					{ internalType: 'uint64', name: 'totalTvl', type: 'uint64' },
+				],
+				internalType: 'struct DeRiskOracle.Snapshot[]',
+				name: 'result',
+				type: 'tuple[]',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'uint256', name: '_since', type: 'uint256' }],
+		name: 'getSnapshotsSince',
+		outputs: [
+			{
+				components: [
+					{ internalType: 'uint64', name: 'roundId', type: 'uint64' },
+					{ internalType: 'uint64', name: 'timestamp', type: 'uint64' },
+					{ internalType: 'uint8', name: 'riskScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'contagionScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'depegScore', type: 'uint8' },
+					{ internalType: 'uint8', name: 'scoreSource', type: 'uint8' },
+					{ internalType: 'uint64', name: 'totalTvl', type: 'uint64' },
+				],
+				internalType: 'struct DeRiskOracle.Snapshot[]',
+				name: 'result',
+				type: 'tuple[]',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'uint256', name: '_window', type: 'uint256' }],
+		name: 'getAverageScore',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	// ========== Backtest Proofs ==========
 	{
 		inputs: [
@@ -136,6 +272,115 @@ export const DeRiskOracle = [
 		stateMutability: 'nonpayable',
 		type: 'function',
 	},
+	{
+		inputs: [
+			{ internalType: 'address', name: '_forwarder', type: 'address' },
+			{ internalType: 'bool', name: '_allowed', type: 'bool' },
+		],
+		name: 'setForwarder',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{ internalType: 'bytes32', name: '_workflowId', type: 'bytes32' },
+			{ internalType: 'bool', name: '_allowed', type: 'bool' },
+		],
+		name: 'setWorkflowId',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{ internalType: 'address', name: '_workflowOwner', type: 'address' },
+			{ internalType: 'bool', name: '_allowed', type: 'bool' },
+		],
+		name: 'setWorkflowOwner',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{ internalType: 'bytes32', name: '_protocolId', type: 'bytes32' },
+			{ internalType: 'uint256', name: '_weight', type: 'uint256' },
+		],
+		name: 'registerProtocol',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	// ========== Parameter Timelock ==========
+	{
+		inputs: [
+			{ internalType: 'enum DeRiskOracle.Param', name: '_param', type: 'uint8' },
+			{ internalType: 'bytes32', name: '_target', type: 'bytes32' },
+			{ internalType: 'uint256', name: '_value', type: 'uint256' },
+		],
+		name: 'queueParameterChange',
+		outputs: [{ internalType: 'uint256', name: 'changeId', type: 'uint256' }],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'uint256', name: '_changeId', type: 'uint256' }],
+		name: 'executeParameterChange',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'uint256', name: '_changeId', type: 'uint256' }],
+		name: 'cancelParameterChange',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'getPendingChanges',
+		outputs: [
+			{ internalType: 'uint256[]', name: '_changeIds', type: 'uint256[]' },
+			{
+				components: [
+					{ internalType: 'enum DeRiskOracle.Param', name: 'param', type: 'uint8' },
+					{ internalType: 'bytes32', name: 'target', type: 'bytes32' },
+					{ internalType: 'uint256', name: 'value', type: 'uint256' },
+					{ internalType: 'uint256', name: 'eta', type: 'uint256' },
+					{ internalType: 'bool', name: 'executed', type: 'bool' },
+					{ internalType: 'bool', name: 'cancelled', type: 'bool' },
+				],
+				internalType: 'struct DeRiskOracle.ParameterChange[]',
+				name: '_changes',
+				type: 'tuple[]',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		name: 'parameterChanges',
+		outputs: [
+			{ internalType: 'enum DeRiskOracle.Param', name: 'param', type: 'uint8' },
+			{ internalType: 'bytes32', name: 'target', type: 'bytes32' },
+			{ internalType: 'uint256', name: 'value', type: 'uint256' },
+			{ internalType: 'uint256', name: 'eta', type: 'uint256' },
+			{ internalType: 'bool', name: 'executed', type: 'bool' },
+			{ internalType: 'bool', name: 'cancelled', type: 'bool' },
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'timelockDelay',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	// ========== View Functions ==========
 	{
 		inputs: [{ internalType: 'bytes4', name: 'interfaceId', type: 'bytes4' }],
@@ -159,13 +404,38 @@ export const DeRiskOracle = [
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		inputs: [],
+		name: 'getCircuitBreakerConfig',
+		outputs: [
+			{ internalType: 'uint256', name: '_tripThreshold', type: 'uint256' },
+			{ internalType: 'uint256', name: '_resetThreshold', type: 'uint256' },
+			{ internalType: 'uint256', name: '_minActiveDuration', type: 'uint256' },
+			{ internalType: 'uint256', name: '_resetConfirmations', type: 'uint256' },
+			{ internalType: 'uint256', name: '_trippedAt', type: 'uint256' },
+			{ internalType: 'uint256', name: '_consecutiveBelowReset', type: 'uint256' },
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'getProtocols',
+		outputs: [
+			{ internalType: 'bytes32[]', name: '_protocolIds', type: 'bytes32[]' },
+			{ internalType: 'uint256[]', name: '_weights', type: 'uint256[]' },
+			{ internalType: 'uint256[]', name: '_scores', type: 'uint256[]' },
+			{ internalType: 'uint256[]', name: '_tvls', type: 'uint256[]' },
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	{
 		inputs: [],
 		name: 'getProtocolScores',
 		outputs: [
-			{ internalType: 'uint256', name: '_aave', type: 'uint256' },
-			{ internalType: 'uint256', name: '_compound', type: 'uint256' },
-			{ internalType: 'uint256', name: '_maker', type: 'uint256' },
+			{ internalType: 'bytes32[]', name: '_protocolIds', type: 'bytes32[]' },
+			{ internalType: 'uint256[]', name: '_scores', type: 'uint256[]' },
 		],
 		stateMutability: 'view',
 		type: 'function',
@@ -174,13 +444,19 @@ export const DeRiskOracle = [
 		inputs: [],
 		name: 'getProtocolTvls',
 		outputs: [
-			{ internalType: 'uint256', name: '_aaveTvl', type: 'uint256' },
-			{ internalType: 'uint256', name: '_compoundTvl', type: 'uint256' },
-			{ internalType: 'uint256', name: '_makerTvl', type: 'uint256' },
+			{ internalType: 'bytes32[]', name: '_protocolIds', type: 'bytes32[]' },
+			{ internalType: 'uint256[]', name: '_tvls', type: 'uint256[]' },
 		],
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		inputs: [],
+		name: 'getProtocolCount',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	{
 		inputs: [],
 		name: 'getAggregateScore',
@@ -223,6 +499,48 @@ export const DeRiskOracle = [
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		inputs: [],
+		name: 'breakerTripThreshold',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'breakerResetThreshold',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'breakerMinActiveDuration',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'breakerResetConfirmations',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'circuitBreakerTrippedAt',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'consecutiveBelowReset',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	{
 		inputs: [],
 		name: 'tvl',
@@ -260,67 +578,107 @@ export const DeRiskOracle = [
 	},
 	{
 		inputs: [],
-		name: 'aaveRiskScore',
+		name: 'stalenessThreshold',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'compoundRiskScore',
+		name: 'updateInterval',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'makerRiskScore',
+		name: 'minReportInterval',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		inputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		name: 'protocolIds',
+		outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+		name: 'protocols',
+		outputs: [
+			{ internalType: 'uint256', name: 'weight', type: 'uint256' },
+			{ internalType: 'uint256', name: 'riskScore', type: 'uint256' },
+			{ internalType: 'uint256', name: 'tvl', type: 'uint256' },
+			{ internalType: 'bool', name: 'registered', type: 'bool' },
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	{
 		inputs: [],
-		name: 'aaveTvl',
+		name: 'contagionRiskScore',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'compoundTvl',
+		name: 'worstCaseSystemLoss',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'makerTvl',
+		name: 'contagionLastUpdated',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'contagionRiskScore',
+		name: 'liquidationRiskScore',
+		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		name: 'collateralAtRisk',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'worstCaseSystemLoss',
+		name: 'depegRiskScore',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'contagionLastUpdated',
+		name: 'consensusConfidence',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		inputs: [],
+		name: 'scoreSource',
+		outputs: [{ internalType: 'uint8', name: '', type: 'uint8' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'rationaleHash',
+		outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	{
 		inputs: [],
 		name: 'owner',
@@ -328,44 +686,79 @@ export const DeRiskOracle = [
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		inputs: [{ internalType: 'address', name: '', type: 'address' }],
+		name: 'authorizedForwarders',
+		outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+		name: 'allowedWorkflowIds',
+		outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [{ internalType: 'address', name: '', type: 'address' }],
+		name: 'allowedWorkflowOwners',
+		outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
 	{
 		inputs: [],
-		name: 'CIRCUIT_BREAKER_THRESHOLD',
+		name: 'allowedWorkflowIdCount',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'STALENESS_THRESHOLD',
+		name: 'allowedWorkflowOwnerCount',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'UPDATE_INTERVAL',
-		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+		name: 'REPORT_VERSION',
+		outputs: [{ internalType: 'uint8', name: '', type: 'uint8' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'SCORE_SOURCE_AI',
+		outputs: [{ internalType: 'uint8', name: '', type: 'uint8' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'AAVE_WEIGHT',
+		name: 'SCORE_SOURCE_FALLBACK',
+		outputs: [{ internalType: 'uint8', name: '', type: 'uint8' }],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'SNAPSHOT_CAPACITY',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'COMPOUND_WEIGHT',
+		name: 'MIN_TIMELOCK_DELAY',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
 	},
 	{
 		inputs: [],
-		name: 'MAKER_WEIGHT',
+		name: 'MAX_TIMELOCK_DELAY',
 		outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
 		stateMutability: 'view',
 		type: 'function',
@@ -385,15 +778,31 @@ export const DeRiskOracle = [
 	{
 		anonymous: false,
 		inputs: [
-			{ indexed: false, internalType: 'uint256', name: 'aaveScore', type: 'uint256' },
-			{ indexed: false, internalType: 'uint256', name: 'compoundScore', type: 'uint256' },
-			{ indexed: false, internalType: 'uint256', name: 'makerScore', type: 'uint256' },
+			{ indexed: false, internalType: 'bytes32[]', name: 'protocolIds', type: 'bytes32[]' },
+			{ indexed: false, internalType: 'uint256[]', name: 'scores', type: 'uint256[]' },
 			{ indexed: false, internalType: 'uint256', name: 'aggregateScore', type: 'uint256' },
 			{ indexed: false, internalType: 'uint256', name: 'timestamp', type: 'uint256' },
 		],
 		name: 'ProtocolScoresUpdated',
 		type: 'event',
 	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'bytes32', name: 'protocolId', type: 'bytes32' },
+			{ indexed: false, internalType: 'uint256', name: 'weight', type: 'uint256' },
+		],
+		name: 'ProtocolRegistered',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'bytes32', name: 'protocolId', type: 'bytes32' },
+		],
+		name: 'ProtocolRemoved',
+		type: 'event',
+	},
 	{
 		anonymous: false,
 		inputs: [
@@ -412,6 +821,48 @@ export const DeRiskOracle = [
 		name: 'CircuitBreakerReset',
 		type: 'event',
 	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: false, internalType: 'uint256', name: 'score', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'confirmations', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'required', type: 'uint256' },
+		],
+		name: 'CircuitBreakerResetProgress',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'uint256', name: 'changeId', type: 'uint256' },
+			{ indexed: true, internalType: 'enum DeRiskOracle.Param', name: 'param', type: 'uint8' },
+			{ indexed: false, internalType: 'bytes32', name: 'target', type: 'bytes32' },
+			{ indexed: false, internalType: 'uint256', name: 'value', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'eta', type: 'uint256' },
+		],
+		name: 'ParameterChangeQueued',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'uint256', name: 'changeId', type: 'uint256' },
+			{ indexed: true, internalType: 'enum DeRiskOracle.Param', name: 'param', type: 'uint8' },
+			{ indexed: false, internalType: 'bytes32', name: 'target', type: 'bytes32' },
+			{ indexed: false, internalType: 'uint256', name: 'oldValue', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'newValue', type: 'uint256' },
+		],
+		name: 'ParameterChanged',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'uint256', name: 'changeId', type: 'uint256' },
+		],
+		name: 'ParameterChangeCancelled',
+		type: 'event',
+	},
 	{
 		anonymous: false,
 		inputs: [
@@ -421,6 +872,25 @@ export const DeRiskOracle = [
 		name: 'StalenessAlert',
 		type: 'event',
 	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: false, internalType: 'uint256', name: 'lastUpdate', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'currentTime', type: 'uint256' },
+		],
+		name: 'RiskReportThrottled',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'bytes32', name: 'symbol', type: 'bytes32' },
+			{ indexed: false, internalType: 'uint256', name: 'price', type: 'uint256' },
+			{ indexed: false, internalType: 'uint8', name: 'severity', type: 'uint8' },
+		],
+		name: 'DepegAlert',
+		type: 'event',
+	},
 	{
 		anonymous: false,
 		inputs: [
@@ -431,6 +901,20 @@ export const DeRiskOracle = [
 		name: 'ContagionScoreUpdated',
 		type: 'event',
 	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: false, internalType: 'uint8', name: 'version', type: 'uint8' },
+			{ indexed: false, internalType: 'uint256', name: 'riskScore', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'confidence', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'depegScore', type: 'uint256' },
+			{ indexed: false, internalType: 'uint8', name: 'scoreSource', type: 'uint8' },
+			{ indexed: true, internalType: 'bytes32', name: 'rationaleHash', type: 'bytes32' },
+			{ indexed: false, internalType: 'uint256', name: 'timestamp', type: 'uint256' },
+		],
+		name: 'RiskReportSubmitted',
+		type: 'event',
+	},
 	{
 		anonymous: false,
 		inputs: [
@@ -440,4 +924,31 @@ export const DeRiskOracle = [
 		name: 'OwnershipTransferred',
 		type: 'event',
 	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'address', name: 'forwarder', type: 'address' },
+			{ indexed: false, internalType: 'bool', name: 'allowed', type: 'bool' },
+		],
+		name: 'ForwarderUpdated',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'bytes32', name: 'workflowId', type: 'bytes32' },
+			{ indexed: false, internalType: 'bool', name: 'allowed', type: 'bool' },
+		],
+		name: 'WorkflowIdUpdated',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'address', name: 'workflowOwner', type: 'address' },
+			{ indexed: false, internalType: 'bool', name: 'allowed', type: 'bool' },
+		],
+		name: 'WorkflowOwnerUpdated',
+		type: 'event',
+	},
 ] as const
@@ -12,3 +12,7 @@ export * from './UpdateReservesProxy'
 export * from './UpdateReservesProxySimplified'
 export * from './ChainlinkPriceFeed'
 export * from './DeRiskOracle'
+export * from './AaveProtocolDataProvider'
+export * from './AaveOracle'
+export * from './AavePool'
+export * from './LstRateProvider'
@@ -0,0 +1,162 @@
+/**
+ * DeRisk Protocol - Report Allowlist Admin
+ *
+ * Manages which CRE forwarders, workflow IDs and workflow owners may write
+ * to DeRiskOracle through onReport. Must be run by the oracle owner.
+ *
+ * Usage:
+ *   bun run contracts/manage-allowlist.ts status
+ *   bun run contracts/manage-allowlist.ts add-forwarder <address>
+ *   bun run contracts/manage-allowlist.ts remove-forwarder <address>
+ *   bun run contracts/manage-allowlist.ts add-workflow-id <bytes32>
+ *   bun run contracts/manage-allowlist.ts remove-workflow-id <bytes32>
+ *   bun run contracts/manage-allowlist.ts add-workflow-owner <address>
+ *   bun run contracts/manage-allowlist.ts remove-workflow-owner <address>
+ *
+ * Environment:
+ *   CRE_ETH_PRIVATE_KEY - Oracle owner key (not needed for `status`)
+ *   ORACLE_ADDRESS      - Defaults to evms[0].oracleAddress in config.staging.json
+ *   SEPOLIA_RPC         - Sepolia RPC URL
+ */
+
+import { readFileSync } from 'fs'
+import { createWalletClient, createPublicClient, http, defineChain, isAddress, isHex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { DeRiskOracle } from './abi'
+
+const sepolia = defineChain({
+	id: 11155111,
+	name: 'Sepolia',
+	nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+	rpcUrls: {
+		default: { http: [process.env.SEPOLIA_RPC || 'https://eth-sepolia.g.alchemy.com/v2/YOUR_ALCHEMY_KEY'] },
+	},
+	blockExplorers: {
+		default: { name: 'Etherscan', url: 'https://sepolia.etherscan.io' },
+	},
+	testnet: true,
+})
+
+type Command =
+	| 'add-forwarder'
+	| 'remove-forwarder'
+	| 'add-workflow-id'
+	| 'remove-workflow-id'
+	| 'add-workflow-owner'
+	| 'remove-workflow-owner'
+
+const WRITE_COMMANDS: Record<Command, { functionName: 'setForwarder' | 'setWorkflowId' | 'setWorkflowOwner'; allowed: boolean }> = {
+	'add-forwarder': { functionName: 'setForwarder', allowed: true },
+	'remove-forwarder': { functionName: 'setForwarder', allowed: false },
+	'add-workflow-id': { functionName: 'setWorkflowId', allowed: true },
+	'remove-workflow-id': { functionName: 'setWorkflowId', allowed: false },
+	'add-workflow-owner': { functionName: 'setWorkflowOwner', allowed: true },
+	'remove-workflow-owner': { functionName: 'setWorkflowOwner', allowed: false },
+}
+
+function resolveOracleAddress(): `0x${string}` {
+	const address =
+		process.env.ORACLE_ADDRESS ||
+		JSON.parse(readFileSync(new URL('../derisk-workflow/config.staging.json', import.meta.url), 'utf8')).evms[0]
+			.oracleAddress
+	if (!isAddress(address)) {
+		console.error(`ERROR: Invalid oracle address: ${address}`)
+		process.exit(1)
+	}
+	return address
+}
+
+function usage(): never {
+	console.error('Usage: bun run contracts/manage-allowlist.ts <command> [value]')
+	console.error('  status')
+	for (const command of Object.keys(WRITE_COMMANDS)) {
+		console.error(`  ${command} <${command.endsWith('-id') ? 'bytes32' : 'address'}>`)
+	}
+	process.exit(1)
+}
+
+async function main() {
+	const [command, value] = process.argv.slice(2)
+	if (!command) usage()
+
+	const oracleAddress = resolveOracleAddress()
+	const publicClient = createPublicClient({
+		chain: sepolia,
+		transport: http(),
+	})
+
+	console.log('=== DeRisk Protocol - Report Allowlist ===')
+	console.log(`Oracle: ${oracleAddress}`)
+
+	if (command === 'status') {
+		const read = (functionName: 'owner' | 'allowedWorkflowIdCount' | 'allowedWorkflowOwnerCount') =>
+			publicClient.readContract({ address: oracleAddress, abi: DeRiskOracle, functionName })
+		console.log(`Owner:                   ${await read('owner')}`)
+		console.log(`Allowed workflow ids:    ${await read('allowedWorkflowIdCount')} (0 = any)`)
+		console.log(`Allowed workflow owners: ${await read('allowedWorkflowOwnerCount')} (0 = any)`)
+		if (value && isAddress(value)) {
+			const forwarder = await publicClient.readContract({
+				address: oracleAddress,
+				abi: DeRiskOracle,
+				functionName: 'authorizedForwarders',
+				args: [value],
+			})
+			console.log(`Forwarder ${value}: ${forwarder ? 'authorized' : 'not authorized'}`)
+		}
+		return
+	}
+
+	const action = WRITE_COMMANDS[command as Command]
+	if (!action || !value) usage()
+
+	const privateKey = process.env.CRE_ETH_PRIVATE_KEY
+	if (!privateKey) {
+		console.error('ERROR: Set CRE_ETH_PRIVATE_KEY environment variable')
+		console.error('  export CRE_ETH_PRIVATE_KEY=0x...')
+		process.exit(1)
+	}
+
+	const account = privateKeyToAccount(privateKey as `0x${string}`)
+	const walletClient = createWalletClient({
+		account,
+		chain: sepolia,
+		transport: http(),
+	})
+
+	let hash: `0x${string}`
+	if (action.functionName === 'setWorkflowId') {
+		if (!isHex(value) || value.length !== 66) {
+			console.error(`ERROR: Workflow id must be a 0x-prefixed bytes32: ${value}`)
+			process.exit(1)
+		}
+		hash = await walletClient.writeContract({
+			address: oracleAddress,
+			abi: DeRiskOracle,
+			functionName: 'setWorkflowId',
+			args: [value, action.allowed],
+		})
+	} else {
+		if (!isAddress(value)) {
+			console.error(`ERROR: Invalid address: ${value}`)
+			process.exit(1)
+		}
+		hash = await walletClient.writeContract({
+			address: oracleAddress,
+			abi: DeRiskOracle,
+			functionName: action.functionName,
+			args: [value, action.allowed],
+		})
+	}
+
+	console.log(`${command} ${value}`)
+	console.log(`Transaction: ${hash}`)
+	console.log('Waiting for confirmation...')
+
+	const receipt = await publicClient.waitForTransactionReceipt({ hash })
+	console.log(`Confirmed in block ${receipt.blockNumber} (${receipt.status})`)
+}
+
+main().catch((err) => {
+	console.error('Allowlist update failed:', err.message)
+	process.exit(1)
+})
@@ -0,0 +1,197 @@
+/**
+ * DeRisk Protocol - Governed Parameter Admin
+ *
+ * Queues, executes and cancels timelocked DeRiskOracle parameter changes
+ * (circuit breaker hysteresis, staleness/update intervals, protocol weights,
+ * protocol registration and removal, timelock delay). Changes become
+ * executable `timelockDelay` after queueing.
+ *
+ * Usage:
+ *   bun run contracts/manage-parameters.ts list
+ *   bun run contracts/manage-parameters.ts queue <param> <value> [protocolKey]
+ *   bun run contracts/manage-parameters.ts execute <changeId>
+ *   bun run contracts/manage-parameters.ts cancel <changeId>
+ *
+ * Examples:
+ *   bun run contracts/manage-parameters.ts queue breaker-trip-threshold 85
+ *   bun run contracts/manage-parameters.ts queue protocol-weight 40 aave
+ *   bun run contracts/manage-parameters.ts queue register-protocol 10 spark
+ *   bun run contracts/manage-parameters.ts queue remove-protocol 0 maker
+ *
+ * Environment:
+ *   CRE_ETH_PRIVATE_KEY - Oracle owner key (not needed for `list`)
+ *   ORACLE_ADDRESS      - Defaults to evms[0].oracleAddress in config.staging.json
+ *   SEPOLIA_RPC         - Sepolia RPC URL
+ */
+
+import { readFileSync } from 'fs'
+import { createWalletClient, createPublicClient, http, defineChain, isAddress, stringToHex, hexToString, zeroHash } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { DeRiskOracle } from './abi'
+
+const sepolia = defineChain({
+	id: 11155111,
+	name: 'Sepolia',
+	nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+	rpcUrls: {
+		default: { http: [process.env.SEPOLIA_RPC || 'https://eth-sepolia.g.alchemy.com/v2/YOUR_ALCHEMY_KEY'] },
+	},
+	blockExplorers: {
+		default: { name: 'Etherscan', url: 'https://sepolia.etherscan.io' },
+	},
+	testnet: true,
+})
+
+// CLI names in DeRiskOracle.Param enum order
+const PARAMS = [
+	'breaker-trip-threshold',
+	'breaker-reset-threshold',
+	'breaker-min-active-duration',
+	'breaker-reset-confirmations',
+	'staleness-threshold',
+	'update-interval',
+	'protocol-weight',
+	'timelock-delay',
+	'min-report-interval',
+	'register-protocol',
+	'remove-protocol',
+] as const
+
+// Params whose target is a protocol id
+const PROTOCOL_PARAMS: number[] = [
+	PARAMS.indexOf('protocol-weight'),
+	PARAMS.indexOf('register-protocol'),
+	PARAMS.indexOf('remove-protocol'),
+]
+
+function resolveOracleAddress(): `0x${string}` {
+	const address =
+		process.env.ORACLE_ADDRESS ||
+		JSON.parse(readFileSync(new URL('../derisk-workflow/config.staging.json', import.meta.url), 'utf8')).evms[0]
+			.oracleAddress
+	if (!isAddress(address)) {
+		console.error(`ERROR: Invalid oracle address: ${address}`)
+		process.exit(1)
+	}
+	return address
+}
+
+function usage(): never {
+	console.error('Usage: bun run contracts/manage-parameters.ts <command> [args]')
+	console.error('  list')
+	console.error('  queue <param> <value> [protocolKey]')
+	console.error('  execute <changeId>')
+	console.error('  cancel <changeId>')
+	console.error(`Params: ${PARAMS.join(', ')}`)
+	process.exit(1)
+}
+
+const describeTarget = (param: number, target: `0x${string}`): string =>
+	PROTOCOL_PARAMS.includes(param) ? ` (${hexToString(target, { size: 32 })})` : ''
+
+async function main() {
+	const [command, ...args] = process.argv.slice(2)
+	if (!command) usage()
+
+	const oracleAddress = resolveOracleAddress()
+	const publicClient = createPublicClient({
+		chain: sepolia,
+		transport: http(),
+	})
+
+	console.log('=== DeRisk Protocol - Governed Parameters ===')
+	console.log(`Oracle: ${oracleAddress}`)
+
+	if (command === 'list') {
+		const [trip, reset, minActive, confirmations] = await publicClient.readContract({
+			address: oracleAddress,
+			abi: DeRiskOracle,
+			functionName: 'getCircuitBreakerConfig',
+		})
+		const read = (functionName: 'stalenessThreshold' | 'updateInterval' | 'timelockDelay' | 'minReportInterval') =>
+			publicClient.readContract({ address: oracleAddress, abi: DeRiskOracle, functionName })
+
+		console.log('\nCurrent values:')
+		console.log(`  breaker-trip-threshold:      ${trip}`)
+		console.log(`  breaker-reset-threshold:     ${reset}`)
+		console.log(`  breaker-min-active-duration: ${minActive}s`)
+		console.log(`  breaker-reset-confirmations: ${confirmations}`)
+		console.log(`  staleness-threshold:         ${await read('stalenessThreshold')}s`)
+		console.log(`  update-interval:             ${await read('updateInterval')}s`)
+		console.log(`  timelock-delay:              ${await read('timelockDelay')}s`)
+		console.log(`  min-report-interval:         ${await read('minReportInterval')}s`)
+
+		const [ids, changes] = await publicClient.readContract({
+			address: oracleAddress,
+			abi: DeRiskOracle,
+			functionName: 'getPendingChanges',
+		})
+		console.log(`\nPending changes: ${ids.length}`)
+		const now = BigInt(Math.floor(Date.now() / 1000))
+		changes.forEach((change, i) => {
+			const status = change.eta <= now ? 'READY' : `in ${change.eta - now}s`
+			console.log(
+				`  #${ids[i]} ${PARAMS[change.param]}${describeTarget(change.param, change.target)} → ${change.value} [${status}]`,
+			)
+		})
+		return
+	}
+
+	const privateKey = process.env.CRE_ETH_PRIVATE_KEY
+	if (!privateKey) {
+		console.error('ERROR: Set CRE_ETH_PRIVATE_KEY environment variable')
+		console.error('  export CRE_ETH_PRIVATE_KEY=0x...')
+		process.exit(1)
+	}
+
+	const account = privateKeyToAccount(privateKey as `0x${string}`)
+	const walletClient = createWalletClient({
+		account,
+		chain: sepolia,
+		transport: http(),
+	})
+
+	let hash: `0x${string}`
+	if (command === 'queue') {
+		const [name, value, protocolKey] = args
+		const param = PARAMS.indexOf(name as (typeof PARAMS)[number])
+		if (param < 0 || !value || !/^\d+$/.test(value)) usage()
+		if (PROTOCOL_PARAMS.includes(param) && !protocolKey) {
+			console.error(`ERROR: ${name} needs a protocol key, e.g. aave`)
+			process.exit(1)
+		}
+
+		const target = PROTOCOL_PARAMS.includes(param) ? stringToHex(protocolKey, { size: 32 }) : zeroHash
+		hash = await walletClient.writeContract({
+			address: oracleAddress,
+			abi: DeRiskOracle,
+			functionName: 'queueParameterChange',
+			args: [param, target, BigInt(value)],
+		})
+		console.log(`Queued ${name}${describeTarget(param, target)} → ${value}`)
+	} else if (command === 'execute' || command === 'cancel') {
+		const [changeId] = args
+		if (!changeId || !/^\d+$/.test(changeId)) usage()
+
+		hash = await walletClient.writeContract({
+			address: oracleAddress,
+			abi: DeRiskOracle,
+			functionName: command === 'execute' ? 'executeParameterChange' : 'cancelParameterChange',
+			args: [BigInt(changeId)],
+		})
+		console.log(`${command === 'execute' ? 'Executing' : 'Cancelling'} change #${changeId}`)
+	} else {
+		usage()
+	}
+
+	console.log(`Transaction: ${hash}`)
+	console.log('Waiting for confirmation...')
+
+	const receipt = await publicClient.waitForTransactionReceipt({ hash })
+	console.log(`Confirmed in block ${receipt.blockNumber} (${receipt.status})`)
+}
+
+main().catch((err) => {
+	console.error('Parameter update failed:', err.message)
+	process.exit(1)
+})
@@ -6,6 +6,7 @@ import {console} from "forge-std/console.sol";
 import {DeRiskOracle} from "../DeRiskOracle.sol";
 
 /// @notice Deploys a fresh DeRiskOracle with the fixed onReport dispatcher.
+///         Requires CRE_FORWARDER_ADDRESS (the CRE forwarder allowed to call onReport).
 /// @dev Run with:
 ///   forge script contracts/script/DeployOracle.s.sol \
 ///     --rpc-url $SEPOLIA_RPC_URL \
@@ -27,6 +28,12 @@ contract DeployOracle is Script {
 
         vm.startBroadcast(deployerPrivateKey);
         DeRiskOracle oracle = new DeRiskOracle();
+        // Mirror `protocols` in derisk-workflow/config.staging.json
+        oracle.registerProtocol("aave", 50);
+        oracle.registerProtocol("compound", 25);
+        oracle.registerProtocol("maker", 25);
+        // onReport only accepts allowlisted CRE forwarders
+        oracle.setForwarder(vm.envAddress("CRE_FORWARDER_ADDRESS"), true);
         vm.stopBroadcast();
 
         console.log("DeRiskOracle deployed at:", address(oracle));
@@ -10,6 +10,9 @@ import { execSync } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
 
+// Max runtime bytecode size of a deployed contract (EIP-170)
+const EIP170_LIMIT = 24_576;
+
 async function main() {
   const [deployer] = await ethers.getSigners();
 
@@ -35,6 +38,15 @@ async function main() {
   const abi = artifact.abi;
   const bytecode = artifact.bytecode.object;
 
+  // EIP-170: larger runtime code is rejected by the chain, after the deploy gas is spent
+  const runtimeSize = (artifact.deployedBytecode.object.length - 2) / 2;
+  console.log(`Runtime size: ${runtimeSize} bytes (limit ${EIP170_LIMIT})`);
+  if (runtimeSize > EIP170_LIMIT) {
+    throw new Error(
+      `DeRiskOracle runtime bytecode is ${runtimeSize} bytes, over the EIP-170 limit; check the optimizer settings in foundry.toml`
+    );
+  }
+
   // Step 3: deploy
   console.log("Deploying DeRiskOracle...");
   const factory = new ethers.ContractFactory(abi, bytecode, deployer);
@@ -44,8 +56,33 @@ async function main() {
   const address = await oracle.getAddress();
   console.log("DeRiskOracle deployed at:", address);
 
-  // Step 4: update config files automatically
+  // Step 4: register the monitored protocols from the workflow config
   const workflowDir = path.join(__dirname, "../../derisk-workflow");
+  const stagingConfig = JSON.parse(
+    fs.readFileSync(path.join(workflowDir, "config.staging.json"), "utf-8")
+  );
+  const registry = new ethers.Contract(address, abi, deployer);
+  for (const protocol of stagingConfig.protocols) {
+    const tx = await registry.registerProtocol(
+      ethers.encodeBytes32String(protocol.key),
+      protocol.weight
+    );
+    await tx.wait();
+    console.log(`Registered protocol ${protocol.key} (weight ${protocol.weight})`);
+  }
+
+  // Step 5: authorize the CRE forwarder (onReport rejects every other caller)
+  const forwarder = process.env.CRE_FORWARDER_ADDRESS;
+  if (forwarder) {
+    const tx = await registry.setForwarder(forwarder, true);
+    await tx.wait();
+    console.log(`Authorized forwarder ${forwarder}`);
+  } else {
+    console.log("CRE_FORWARDER_ADDRESS not set - authorize it later with:");
+    console.log("  bun run contracts/manage-allowlist.ts add-forwarder <address>");
+  }
+
+  // Step 6: update config files automatically
 
   for (const configFile of ["config.staging.json", "config.local.json"]) {
     const configPath = path.join(workflowDir, configFile);
@@ -0,0 +1,68 @@
+/**
+ * DeRisk Protocol - Build Chainlink Functions Source
+ *
+ * Generates chainlink-functions-source.js from lib/risk-scoring.ts, the same
+ * module the CRE workflow scores with, so the DON fallback and the workflow
+ * can never disagree on a score.
+ *
+ * Usage:
+ *   bun run build-functions-source.ts           # Regenerate the source
+ *   bun run build-functions-source.ts --check   # Fail if the source is stale
+ */
+
+import * as fs from 'fs'
+
+const SCORING_MODULE = './lib/risk-scoring.ts'
+const OUTPUT = './chainlink-functions-source.js'
+
+const HEADER = `/**
+ * DeRisk Protocol - Chainlink Functions Fallback Risk Scoring
+ *
+ * GENERATED by build-functions-source.ts from lib/risk-scoring.ts - do not edit.
+ *
+ * Runs on the Chainlink Decentralized Oracle Network (DON)
+ * as a fallback when the primary Anthropic Claude AI is unavailable.
+ *
+ * Inputs (args[]):
+ *   args[0] - ETH/USD price (string; empty when the Chainlink feed is degraded)
+ *   args[1] - JSON array of registry readings, one per monitored protocol:
+ *             [{"tvl": 27190000000, "thresholds": {"critical": 5e9, "warning": 15e9, "caution": 20e9}, "weight": 50}, ...]
+ *   args[2] - JSON registry TVL change rates from the oracle snapshot history (optional):
+ *             {"change1h": -0.012, "change24h": -0.04, "change7d": null}
+ *   args[3] - Lending utilization, borrowed / supplied (string, e.g. "0.82"; optional,
+ *             empty when the on-chain read failed)
+ *
+ * Returns: uint256 aggregate risk score (0-100)
+ */
+`
+
+// Functions entry point: the DON source body is a script that returns bytes
+const ENTRY = `
+const ethPrice = args[0] ? parseFloat(args[0]) : null
+const readings = JSON.parse(args[1] || "[]")
+const rates = JSON.parse(args[2] || '{"change1h": null, "change24h": null, "change7d": null}')
+const utilization = args[3] ? parseFloat(args[3]) : null
+
+return Functions.encodeUint256(aggregateScore(readings, computeProtocolScores(readings, ethPrice, rates, utilization)))
+`
+
+function build(): string {
+	const transpiled = new Bun.Transpiler({ loader: 'ts' }).transformSync(fs.readFileSync(SCORING_MODULE, 'utf8'))
+	// The DON evaluates a plain script body, so module exports become local functions
+	const body = transpiled.replace(/^export /gm, '').trim()
+	return `${HEADER}\n${body}\n${ENTRY}`
+}
+
+const source = build()
+
+if (process.argv.includes('--check')) {
+	if (fs.readFileSync(OUTPUT, 'utf8') !== source) {
+		console.error(`${OUTPUT} is out of date with ${SCORING_MODULE}`)
+		console.error('Run: bun run build-functions-source.ts')
+		process.exit(1)
+	}
+	console.log(`${OUTPUT} is up to date`)
+} else {
+	fs.writeFileSync(OUTPUT, source)
+	console.log(`Wrote ${OUTPUT} from ${SCORING_MODULE}`)
+}
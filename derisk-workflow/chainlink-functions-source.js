@@ -1,57 +1,103 @@
 /**
  * DeRisk Protocol - Chainlink Functions Fallback Risk Scoring
  *
+ * GENERATED by build-functions-source.ts from lib/risk-scoring.ts - do not edit.
+ *
  * Runs on the Chainlink Decentralized Oracle Network (DON)
  * as a fallback when the primary Anthropic Claude AI is unavailable.
  *
  * Inputs (args[]):
- *   args[0] - Aave V3 TVL in USD (string)
- *   args[1] - Compound V3 TVL in USD (string)
- *   args[2] - MakerDAO TVL in USD (string)
- *   args[3] - ETH/USD price (string)
+ *   args[0] - ETH/USD price (string; empty when the Chainlink feed is degraded)
+ *   args[1] - JSON array of registry readings, one per monitored protocol:
+ *             [{"tvl": 27190000000, "thresholds": {"critical": 5e9, "warning": 15e9, "caution": 20e9}, "weight": 50}, ...]
+ *   args[2] - JSON registry TVL change rates from the oracle snapshot history (optional):
+ *             {"change1h": -0.012, "change24h": -0.04, "change7d": null}
+ *   args[3] - Lending utilization, borrowed / supplied (string, e.g. "0.82"; optional,
+ *             empty when the on-chain read failed)
  *
  * Returns: uint256 aggregate risk score (0-100)
  */
 
-const aaveTvl = parseFloat(args[0] || "0")
-const compoundTvl = parseFloat(args[1] || "0")
-const makerTvl = parseFloat(args[2] || "0")
-const ethPrice = parseFloat(args[3] || "0")
-const totalTvl = aaveTvl + compoundTvl + makerTvl
-
-function scoreProtocol(tvl, critical, warning, caution) {
-  let score = 15
-  if (tvl < critical) score += 40
-  else if (tvl < warning) score += 20
-  else if (tvl < caution) score += 10
-
+function ethPriceAdjustment(ethPrice) {
+  if (ethPrice === null)
+    return 0;
+  if (ethPrice < 1000)
+    return 20;
+  if (ethPrice < 1500)
+    return 10;
+  if (ethPrice < 2000)
+    return 5;
+  return 0;
+}
+function tvlVelocityAdjustment(rates) {
+  let adj = 0;
+  if (rates.change1h !== null) {
+    if (rates.change1h <= -0.03)
+      adj += 15;
+    else if (rates.change1h <= -0.01)
+      adj += 8;
+  }
+  if (rates.change24h !== null) {
+    if (rates.change24h <= -0.1)
+      adj += 15;
+    else if (rates.change24h <= -0.05)
+      adj += 8;
+  }
+  if (rates.change7d !== null) {
+    if (rates.change7d <= -0.2)
+      adj += 10;
+    else if (rates.change7d <= -0.1)
+      adj += 5;
+  }
+  return Math.min(30, adj);
+}
+function utilizationAdjustment(utilization) {
+  if (utilization === null)
+    return 0;
+  if (utilization >= 0.95)
+    return 20;
+  if (utilization >= 0.9)
+    return 12;
+  if (utilization >= 0.8)
+    return 5;
+  return 0;
+}
+function scoreProtocol(input, totalTvl) {
+  const { critical, warning, caution } = input.thresholds;
+  let score = 15;
+  if (input.tvl < critical)
+    score += 40;
+  else if (input.tvl < warning)
+    score += 20;
+  else if (input.tvl < caution)
+    score += 10;
   if (totalTvl > 0) {
-    const share = tvl / totalTvl
-    if (share > 0.8) score += 10
-    if (share < 0.05) score += 5
+    const share = input.tvl / totalTvl;
+    if (share > 0.8)
+      score += 10;
+    if (share < 0.05)
+      score += 5;
   }
-
-  return Math.min(100, Math.max(0, score))
+  return Math.min(100, Math.max(0, score));
+}
+function computeProtocolScores(inputs, ethPrice, rates, utilization) {
+  const totalTvl = inputs.reduce((sum, input) => sum + input.tvl, 0);
+  const marketAdj = ethPriceAdjustment(ethPrice) + tvlVelocityAdjustment(rates) + utilizationAdjustment(utilization);
+  return inputs.map((input) => Math.min(100, scoreProtocol(input, totalTvl) + marketAdj));
+}
+function aggregateScore(inputs, scores) {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  inputs.forEach((input, i) => {
+    weightedSum += scores[i] * input.weight;
+    totalWeight += input.weight;
+  });
+  return totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 50;
 }
 
-// Protocol-specific TVL thresholds
-let aaveScore = scoreProtocol(aaveTvl, 5e9, 15e9, 20e9)
-let compoundScore = scoreProtocol(compoundTvl, 500e6, 1e9, 2e9)
-let makerScore = scoreProtocol(makerTvl, 2e9, 4e9, 6e9)
-
-// ETH price risk adjustment
-let ethAdj = 0
-if (ethPrice < 1000) ethAdj = 20
-else if (ethPrice < 1500) ethAdj = 10
-else if (ethPrice < 2000) ethAdj = 5
-
-aaveScore = Math.min(100, aaveScore + ethAdj)
-compoundScore = Math.min(100, compoundScore + ethAdj)
-makerScore = Math.min(100, makerScore + ethAdj)
-
-// Weighted aggregate (Aave 50%, Compound 25%, Maker 25%)
-const aggregate = Math.round(
-  (aaveScore * 50 + compoundScore * 25 + makerScore * 25) / 100
-)
+const ethPrice = args[0] ? parseFloat(args[0]) : null
+const readings = JSON.parse(args[1] || "[]")
+const rates = JSON.parse(args[2] || '{"change1h": null, "change24h": null, "change7d": null}')
+const utilization = args[3] ? parseFloat(args[3]) : null
 
-return Functions.encodeUint256(aggregate)
+return Functions.encodeUint256(aggregateScore(readings, computeProtocolScores(readings, ethPrice, rates, utilization)))
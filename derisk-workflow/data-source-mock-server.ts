@@ -0,0 +1,116 @@
+/**
+ * DeRisk Protocol - Local Data Source Mock Server
+ *
+ * Deterministic stand-in for the off-chain data sources, for local simulation
+ * and failover testing without hitting DeFi Llama or CoinGecko. Answers in
+ * every response format the parsers in lib/data-sources.ts understand.
+ *
+ * Usage:
+ *   bun run data-source-mock-server.ts
+ *
+ * Then point config.local.json `dataSources` at it:
+ *   "tvl": { "primary": { "name": "Local mock", "url": "http://localhost:8788/tvl/{slug}", "parser": "defillama-tvl" } }
+ *   "stablecoinPrices" / "ethPrice": { "primary": { "name": "Local mock",
+ *     "url": "http://localhost:8788/simple/price?ids={ids}", "parser": "coingecko-simple" } }
+ * or use "http://localhost:8788/prices/current/{ids}" with "parser": "defillama-coins".
+ * For liquidation-at-risk, add:
+ *   "positionSnapshot": { "name": "Local mock", "url": "http://localhost:8788/positions" }
+ *
+ * Environment:
+ *   MOCK_PORT       - Listen port (default 8788)
+ *   MOCK_STATUS     - HTTP status to answer with, to exercise failover (default 200)
+ *   MOCK_TVLS       - TVL overrides by slug, e.g. "aave-v3=4e9,makerdao=0" (default 10e9 each)
+ *   MOCK_PRICES     - Price overrides by CoinGecko id, e.g. "usd-coin=0.87" or
+ *                     "staked-ether=2350" for a stETH discount (default 1.0; LSTs at their peg)
+ *   MOCK_ETH_PRICE  - Price for "ethereum" (default 2500)
+ *   MOCK_HEALTH_SCALE - Multiplier on every position health factor, e.g. 0.9 for a
+ *                     stressed borrower book (default 1)
+ */
+
+const PORT = Number(process.env.MOCK_PORT || 8788)
+const STATUS = Number(process.env.MOCK_STATUS || 200)
+const DEFAULT_TVL = 10e9
+const ETH_PRICE = Number(process.env.MOCK_ETH_PRICE || 2500)
+
+const parseOverrides = (value: string | undefined): Record<string, number> =>
+	Object.fromEntries(
+		(value ?? '')
+			.split(',')
+			.filter(Boolean)
+			.map((pair) => {
+				const [key, amount] = pair.split('=')
+				return [key.trim(), Number(amount)]
+			}),
+	)
+
+const HEALTH_SCALE = Number(process.env.MOCK_HEALTH_SCALE || 1)
+
+// Borrower health-factor distribution, roughly Aave V3 mainnet shaped ($30B collateral)
+const POSITION_BUCKETS = [
+	{ healthFactor: 1.0, collateralUsd: 0.3e9, ethCollateralShare: 0.8 },
+	{ healthFactor: 1.05, collateralUsd: 0.6e9, ethCollateralShare: 0.75 },
+	{ healthFactor: 1.1, collateralUsd: 1.2e9, ethCollateralShare: 0.7 },
+	{ healthFactor: 1.25, collateralUsd: 2.5e9, ethCollateralShare: 0.65 },
+	{ healthFactor: 1.5, collateralUsd: 5e9, ethCollateralShare: 0.6 },
+	{ healthFactor: 2.0, collateralUsd: 8e9, ethCollateralShare: 0.55 },
+	{ healthFactor: 3.0, collateralUsd: 12.4e9, ethCollateralShare: 0.5 },
+].map((bucket) => ({
+	...bucket,
+	healthFactor: bucket.healthFactor * HEALTH_SCALE,
+	debtUsd: (bucket.collateralUsd * 0.8) / (bucket.healthFactor * HEALTH_SCALE), // 80% liquidation threshold
+}))
+
+// LSTs at their redemption value (approximate mainnet rETH and weETH exchange rates)
+const LST_PRICES = {
+	'staked-ether': ETH_PRICE,
+	'rocket-pool-eth': ETH_PRICE * 1.13,
+	'wrapped-eeth': ETH_PRICE * 1.07,
+}
+
+const TVLS = parseOverrides(process.env.MOCK_TVLS)
+const PRICES: Record<string, number> = { ethereum: ETH_PRICE, ...LST_PRICES, ...parseOverrides(process.env.MOCK_PRICES) }
+
+const priceFor = (id: string): number => PRICES[id] ?? 1.0
+
+Bun.serve({
+	port: PORT,
+	fetch(req) {
+		const url = new URL(req.url)
+
+		// DeFi Llama /tvl/{slug}: a bare number
+		const tvlMatch = url.pathname.match(/^\/tvl\/([^/]+)$/)
+		if (tvlMatch) {
+			const tvl = TVLS[tvlMatch[1]] ?? DEFAULT_TVL
+			console.log(`TVL ${tvlMatch[1]} → ${tvl} (HTTP ${STATUS})`)
+			return new Response(String(tvl), { status: STATUS })
+		}
+
+		// CoinGecko /simple/price?ids=a,b: {"a": {"usd": <n>}}
+		if (url.pathname === '/simple/price') {
+			const ids = (url.searchParams.get('ids') ?? '').split(',').filter(Boolean)
+			console.log(`Prices [${ids.join(', ')}] (coingecko-simple, HTTP ${STATUS})`)
+			return Response.json(Object.fromEntries(ids.map((id) => [id, { usd: priceFor(id) }])), { status: STATUS })
+		}
+
+		// DeFi Llama /prices/current/coingecko:a,coingecko:b: {"coins": {"coingecko:a": {"price": <n>}}}
+		const coinsMatch = url.pathname.match(/^\/prices\/current\/([^/]+)$/)
+		if (coinsMatch) {
+			const coins = decodeURIComponent(coinsMatch[1]).split(',').filter(Boolean)
+			console.log(`Prices [${coins.join(', ')}] (defillama-coins, HTTP ${STATUS})`)
+			return Response.json(
+				{ coins: Object.fromEntries(coins.map((coin) => [coin, { price: priceFor(coin.replace(/^coingecko:/, '')) }])) },
+				{ status: STATUS },
+			)
+		}
+
+		// Position snapshot: {"buckets": [{healthFactor, collateralUsd, debtUsd, ethCollateralShare}]}
+		if (url.pathname === '/positions') {
+			console.log(`Positions (${POSITION_BUCKETS.length} buckets, health x${HEALTH_SCALE}, HTTP ${STATUS})`)
+			return Response.json({ buckets: POSITION_BUCKETS }, { status: STATUS })
+		}
+
+		return new Response('GET /tvl/{slug}, /simple/price?ids=, /prices/current/{ids} or /positions', { status: 404 })
+	},
+})
+
+console.log(`Data source mock listening on http://localhost:${PORT} (HTTP ${STATUS})`)
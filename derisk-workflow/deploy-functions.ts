@@ -35,12 +35,24 @@ const SUBSCRIPTION_ID = 4805  // Update with your actual subscription ID
 const GAS_LIMIT = 300_000
 const SLOT_ID = 0
 
-// Test data matching real DeFi Llama values
+// Test data matching real DeFi Llama values for the staging registry
+const stagingConfig = JSON.parse(fs.readFileSync('./config.staging.json', 'utf8'))
+const TEST_TVLS: Record<string, number> = {
+	aave: 27_190_000_000,    // Aave TVL ~$27.19B
+	compound: 1_300_000_000, // Compound TVL ~$1.3B
+	maker: 5_430_000_000,    // MakerDAO TVL ~$5.43B
+}
 const TEST_ARGS = [
-	'27190000000',  // Aave TVL ~$27.19B
-	'1300000000',   // Compound TVL ~$1.3B
-	'5430000000',   // MakerDAO TVL ~$5.43B
-	'2678',         // ETH/USD ~$2,678
+	'2678', // ETH/USD ~$2,678
+	JSON.stringify(
+		stagingConfig.protocols.map((p: { key: string; thresholds: unknown; weight: number }) => ({
+			tvl: TEST_TVLS[p.key] ?? 0,
+			thresholds: p.thresholds,
+			weight: p.weight,
+		})),
+	),
+	JSON.stringify({ change1h: -0.004, change24h: -0.02, change7d: null }), // Registry TVL change rates
+	'0.78', // Lending utilization (78% borrowed)
 ]
 
 // ========== Functions Consumer ABI (minimal) ==========
@@ -10,14 +10,28 @@
  * - FTX collapse (Nov 2022): triggered cross-protocol TVL outflows
  * - USDC depeg (Mar 2023): simultaneous impact on all lending protocols
  * - SVB contagion (Mar 2023): banking crisis → DeFi stress
+ *
+ * With a liquidation-at-risk estimate (lib/liquidation-risk.ts), an ETH
+ * price shock scenario is added: the collateral it makes liquidatable is
+ * sold out of lending markets and spreads through the same channels.
+ * Likewise each liquid staking token trading at a discount to ETH
+ * (lib/depeg-monitor.ts) adds an LST depeg scenario: leveraged staking loops
+ * on lending markets unwind and the discount spreads through the
+ * liquid-staking channels.
  */
 
+import type { LstPeg } from './depeg-monitor'
+import type { LiquidationRisk } from './liquidation-risk'
+import type { ProtocolCategory } from './protocol-registry'
+
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface ProtocolMetrics {
+	key: string // Registry key: 'aave', 'compound', ...
 	name: string
+	category: ProtocolCategory
 	tvl: number // USD
 	riskScore: number // 0-100
 }
@@ -29,7 +43,11 @@ export interface CascadeStep {
 	mechanism: string // How contagion spreads
 }
 
+// What set the scenario off: a protocol's TVL drop, an ETH price shock or an LST depeg
+export type ScenarioKind = 'protocol' | 'eth-shock' | 'lst-depeg'
+
 export interface ContagionScenario {
+	kind: ScenarioKind
 	trigger: string // "Aave TVL drops 20%"
 	triggerProtocol: string
 	triggerDropPercent: number
@@ -40,10 +58,10 @@ export interface ContagionScenario {
 }
 
 export interface ContagionAnalysis {
-	correlationMatrix: Record<string, Record<string, number>> // -1 to 1
+	correlationMatrix: Record<string, Record<string, number>> // -1 to 1, keyed by protocol key
 	scenarios: ContagionScenario[]
 	aggregateContagionRisk: number // 0-100
-	blastRadius: Record<string, number> // protocol → billions at risk
+	blastRadius: Record<string, number> // protocol key → USD at risk
 	worstCaseSystemLoss: number // USD
 }
 
@@ -113,120 +131,281 @@ const CONTAGION_SPEED: Record<string, string> = {
 	maker: '1-4 hours',     // CDP liquidations can be rapid
 }
 
+// ============================================================================
+// Category-Level Priors
+// ============================================================================
+
+// Used for any protocol pair without calibrated data above (e.g. a newly
+// registered Spark or Morpho). Derived from how the calibrated pairs relate:
+// same-category lending markets move together, CDPs less so.
+const CATEGORY_CORRELATIONS: Record<ProtocolCategory, Record<ProtocolCategory, number>> = {
+	'lending': { 'lending': 0.85, 'cdp': 0.7, 'dex': 0.6, 'liquid-staking': 0.75 },
+	'cdp': { 'lending': 0.7, 'cdp': 0.8, 'dex': 0.55, 'liquid-staking': 0.65 },
+	'dex': { 'lending': 0.6, 'cdp': 0.55, 'dex': 0.8, 'liquid-staking': 0.6 },
+	'liquid-staking': { 'lending': 0.75, 'cdp': 0.65, 'dex': 0.6, 'liquid-staking': 0.85 },
+}
+
+const CATEGORY_CONTAGION_RATES: Record<ProtocolCategory, Record<ProtocolCategory, { rate: number; mechanism: string }>> = {
+	'lending': {
+		'lending': { rate: 0.4, mechanism: 'Shared collateral liquidations trigger selling pressure across lending markets' },
+		'cdp': { rate: 0.3, mechanism: 'Collateral devaluation pushes CDP vaults toward liquidation' },
+		'dex': { rate: 0.25, mechanism: 'Liquidators dump seized collateral into DEX liquidity' },
+		'liquid-staking': { rate: 0.3, mechanism: 'Leveraged LST loops unwind, pressuring LST/ETH pegs' },
+	},
+	'cdp': {
+		'lending': { rate: 0.45, mechanism: 'Stablecoin instability triggers collateral repricing in lending markets' },
+		'cdp': { rate: 0.35, mechanism: 'Shared collateral types liquidate across CDP systems' },
+		'dex': { rate: 0.3, mechanism: 'Stablecoin pools rebalance as holders exit' },
+		'liquid-staking': { rate: 0.2, mechanism: 'LST collateral sold to repay CDP debt' },
+	},
+	'dex': {
+		'lending': { rate: 0.2, mechanism: 'Thinner DEX liquidity worsens liquidation slippage' },
+		'cdp': { rate: 0.2, mechanism: 'Liquidation auctions clear at deeper discounts' },
+		'dex': { rate: 0.35, mechanism: 'LPs withdraw across venues on shared pool exposure' },
+		'liquid-staking': { rate: 0.25, mechanism: 'LST/ETH pools lose depth, widening discounts' },
+	},
+	'liquid-staking': {
+		'lending': { rate: 0.4, mechanism: 'LST depeg triggers liquidations of LST-collateralized loans' },
+		'cdp': { rate: 0.3, mechanism: 'LST collateral repricing hits CDP vault health' },
+		'dex': { rate: 0.3, mechanism: 'LST sell pressure drains LST/ETH pools' },
+		'liquid-staking': { rate: 0.45, mechanism: 'Withdrawal queue stress spreads across staking tokens' },
+	},
+}
+
+// LSTs are looped on lending markets (borrow ETH against the LST, restake),
+// so a discount hits the collateral of a looped position many times over;
+// E-mode LTVs above 90% allow ~10x
+const LST_LOOP_LEVERAGE = 10
+
+const CATEGORY_SPEED: Record<ProtocolCategory, string> = {
+	'lending': '< 2 hours',
+	'cdp': '1-4 hours',
+	'dex': '< 1 hour',
+	'liquid-staking': '2-6 hours',
+}
+
+function getCorrelation(a: ProtocolMetrics, b: ProtocolMetrics): number {
+	if (a.key === b.key) return 1.0
+	return CORRELATIONS[a.key]?.[b.key] ?? CATEGORY_CORRELATIONS[a.category][b.category]
+}
+
+function getContagionRate(from: ProtocolMetrics, to: ProtocolMetrics): { rate: number; mechanism: string } {
+	return CONTAGION_RATES[from.key]?.[to.key] ?? CATEGORY_CONTAGION_RATES[from.category][to.category]
+}
+
 // ============================================================================
 // Analysis Engine
 // ============================================================================
 
 /**
- * Run a cascade simulation: what happens if `triggerProtocol` loses `dropPercent` of TVL?
+ * Systemic risk score (0-100) for a scenario's total loss
+ */
+function systemicRiskScore(totalLoss: number, protocols: ProtocolMetrics[], triggerShare: number): number {
+	const totalTvl = protocols.reduce((sum, p) => sum + p.tvl, 0)
+	const lossPercent = totalTvl > 0 ? (totalLoss / totalTvl) * 100 : 0
+	let systemicRisk = Math.min(100, Math.round(lossPercent * 3)) // 33% total loss = 100 systemic risk
+
+	// Boost if trigger protocol is dominant
+	if (triggerShare > 0.6) systemicRisk = Math.min(100, systemicRisk + 15)
+
+	// Boost based on current risk scores
+	const avgRisk = protocols.reduce((sum, p) => sum + p.riskScore, 0) / protocols.length
+	if (avgRisk > 40) systemicRisk = Math.min(100, systemicRisk + 10)
+
+	return systemicRisk
+}
+
+/**
+ * Run a cascade simulation: what happens if `trigger` loses `dropPercent` of TVL?
  */
 function simulateCascade(
-	triggerProtocol: string,
+	trigger: ProtocolMetrics,
 	dropPercent: number,
 	protocols: ProtocolMetrics[],
 ): ContagionScenario {
-	const trigger = protocols.find((p) => p.name.toLowerCase().includes(triggerProtocol))
-	if (!trigger) {
-		return {
-			trigger: `${triggerProtocol} TVL drops ${dropPercent}%`,
-			triggerProtocol,
-			triggerDropPercent: dropPercent,
-			cascade: [],
-			totalSystemLossUsd: 0,
-			timeToContagion: 'N/A',
-			systemicRiskScore: 0,
-		}
-	}
-
 	const triggerLoss = trigger.tvl * (dropPercent / 100)
 	const cascade: CascadeStep[] = []
 	let totalLoss = triggerLoss
 
 	// First order effects: direct contagion from trigger to other protocols
-	const contagionRates = CONTAGION_RATES[triggerProtocol.toLowerCase()]
-	if (contagionRates) {
-		for (const other of protocols) {
-			const otherKey = other.name.toLowerCase().replace(/\s+v\d+/g, '').replace('dao', '')
-			if (otherKey === triggerProtocol.toLowerCase()) continue
-
-			const rate = contagionRates[otherKey]
-			if (rate) {
-				const impactPercent = dropPercent * rate.rate
-				const loss = other.tvl * (impactPercent / 100)
-
-				cascade.push({
-					protocol: other.name,
-					estimatedTvlDropPercent: Math.round(impactPercent * 10) / 10,
-					estimatedLossesUsd: loss,
-					mechanism: rate.mechanism,
-				})
-
-				totalLoss += loss
-			}
-		}
+	for (const other of protocols) {
+		if (other.key === trigger.key) continue
+
+		const rate = getContagionRate(trigger, other)
+		const impactPercent = dropPercent * rate.rate
+		const loss = other.tvl * (impactPercent / 100)
+
+		cascade.push({
+			protocol: other.name,
+			estimatedTvlDropPercent: Math.round(impactPercent * 10) / 10,
+			estimatedLossesUsd: loss,
+			mechanism: rate.mechanism,
+		})
+
+		totalLoss += loss
 	}
 
 	// Calculate systemic risk score based on cascade severity
 	const totalTvl = protocols.reduce((sum, p) => sum + p.tvl, 0)
-	const lossPercent = (totalLoss / totalTvl) * 100
-	let systemicRisk = Math.min(100, Math.round(lossPercent * 3)) // 33% total loss = 100 systemic risk
-
-	// Boost if trigger protocol is dominant
-	const triggerShare = trigger.tvl / totalTvl
-	if (triggerShare > 0.6) systemicRisk = Math.min(100, systemicRisk + 15)
-
-	// Boost based on current risk scores
-	const avgRisk = protocols.reduce((sum, p) => sum + p.riskScore, 0) / protocols.length
-	if (avgRisk > 40) systemicRisk = Math.min(100, systemicRisk + 10)
+	const triggerShare = totalTvl > 0 ? trigger.tvl / totalTvl : 0
+	const systemicRisk = systemicRiskScore(totalLoss, protocols, triggerShare)
 
 	return {
+		kind: 'protocol',
 		trigger: `${trigger.name} TVL drops ${dropPercent}%`,
 		triggerProtocol: trigger.name,
 		triggerDropPercent: dropPercent,
 		cascade,
 		totalSystemLossUsd: totalLoss,
-		timeToContagion: CONTAGION_SPEED[triggerProtocol.toLowerCase()] || '2-6 hours',
+		timeToContagion: CONTAGION_SPEED[trigger.key] || CATEGORY_SPEED[trigger.category],
 		systemicRiskScore: systemicRisk,
 	}
 }
 
 /**
- * Full contagion analysis across all protocols with multiple scenarios
+ * ETH price shock scenario: the liquidatable share of collateral leaves
+ * lending markets outright; other categories take the lending category's
+ * contagion rate of that drop
  */
-export function analyzeContagion(protocols: ProtocolMetrics[]): ContagionAnalysis {
-	const protocolKeys = ['aave', 'compound', 'maker']
+function simulateLiquidationCascade(
+	liquidation: LiquidationRisk,
+	shockPercent: number,
+	protocols: ProtocolMetrics[],
+): ContagionScenario {
+	const shock = liquidation.shocks.find((s) => s.shockPercent === shockPercent) ?? liquidation.shocks[0]
+	const liquidatedPercent = shock.shareAtRisk * 100
+	const cascade: CascadeStep[] = []
+	let totalLoss = 0
+
+	for (const protocol of protocols) {
+		const channel =
+			protocol.category === 'lending'
+				? { rate: 1, mechanism: 'Liquidators seize and sell collateral of underwater borrowers' }
+				: CATEGORY_CONTAGION_RATES['lending'][protocol.category]
+		const impactPercent = liquidatedPercent * channel.rate
+		const loss = protocol.tvl * (impactPercent / 100)
+
+		cascade.push({
+			protocol: protocol.name,
+			estimatedTvlDropPercent: Math.round(impactPercent * 10) / 10,
+			estimatedLossesUsd: loss,
+			mechanism: channel.mechanism,
+		})
+
+		totalLoss += loss
+	}
+
+	return {
+		kind: 'eth-shock',
+		trigger: `ETH drops ${shockPercent}% ($${(shock.collateralAtRiskUsd / 1e9).toFixed(2)}B collateral liquidatable)`,
+		triggerProtocol: 'ETH',
+		triggerDropPercent: shockPercent,
+		cascade,
+		totalSystemLossUsd: totalLoss,
+		timeToContagion: CATEGORY_SPEED['lending'],
+		systemicRiskScore: systemicRiskScore(totalLoss, protocols, 0),
+	}
+}
+
+/**
+ * LST depeg scenario: the token's discount, levered by staking loops, spreads
+ * to every category at the liquid-staking category's contagion rates
+ */
+function simulateLstDepegCascade(lst: LstPeg, protocols: ProtocolMetrics[]): ContagionScenario {
+	const leveredPercent = lst.discount * 100 * LST_LOOP_LEVERAGE
+	const cascade: CascadeStep[] = []
+	let totalLoss = 0
+
+	for (const protocol of protocols) {
+		const channel = CATEGORY_CONTAGION_RATES['liquid-staking'][protocol.category]
+		const impactPercent = Math.min(100, leveredPercent * channel.rate)
+		const loss = protocol.tvl * (impactPercent / 100)
+
+		cascade.push({
+			protocol: protocol.name,
+			estimatedTvlDropPercent: Math.round(impactPercent * 10) / 10,
+			estimatedLossesUsd: loss,
+			mechanism: channel.mechanism,
+		})
+
+		totalLoss += loss
+	}
+
+	return {
+		kind: 'lst-depeg',
+		trigger: `${lst.symbol} trades ${(lst.discount * 100).toFixed(2)}% below ETH redemption value`,
+		triggerProtocol: lst.symbol,
+		triggerDropPercent: Math.round(lst.discount * 100 * 100) / 100,
+		cascade,
+		totalSystemLossUsd: totalLoss,
+		timeToContagion: CATEGORY_SPEED['liquid-staking'],
+		systemicRiskScore: systemicRiskScore(totalLoss, protocols, 0),
+	}
+}
+
+/**
+ * Full contagion analysis across all registered protocols with multiple
+ * scenarios, plus an ETH shock scenario when a liquidation estimate is
+ * available and one LST depeg scenario per token off its ETH peg
+ */
+export function analyzeContagion(
+	protocols: ProtocolMetrics[],
+	liquidation: LiquidationRisk | null,
+	lstPegs: LstPeg[],
+): ContagionAnalysis {
 	const scenarios: ContagionScenario[] = []
 
 	// Simulate 20% drop for each protocol (moderate stress scenario)
-	for (const key of protocolKeys) {
-		scenarios.push(simulateCascade(key, 20, protocols))
+	for (const protocol of protocols) {
+		scenarios.push(simulateCascade(protocol, 20, protocols))
 	}
 
 	// Simulate 50% drop for the largest protocol (severe stress)
 	const largest = protocols.reduce((max, p) => (p.tvl > max.tvl ? p : max), protocols[0])
-	const largestKey = largest.name.toLowerCase().replace(/\s+v\d+/g, '').replace('dao', '')
-	scenarios.push(simulateCascade(largestKey, 50, protocols))
+	scenarios.push(simulateCascade(largest, 50, protocols))
 
 	// Calculate blast radius per protocol (total USD at risk if it fails)
 	const blastRadius: Record<string, number> = {}
-	for (const key of protocolKeys) {
-		const severe = simulateCascade(key, 30, protocols)
-		blastRadius[key] = severe.totalSystemLossUsd
+	for (const protocol of protocols) {
+		const severe = simulateCascade(protocol, 30, protocols)
+		blastRadius[protocol.key] = severe.totalSystemLossUsd
+	}
+
+	// Correlation matrix over the monitored set
+	const correlationMatrix: Record<string, Record<string, number>> = {}
+	for (const a of protocols) {
+		correlationMatrix[a.key] = {}
+		for (const b of protocols) {
+			correlationMatrix[a.key][b.key] = getCorrelation(a, b)
+		}
 	}
 
 	// Aggregate contagion risk = weighted average of worst scenarios
+	const avgScenarioRisk =
+		scenarios.reduce((sum, s) => sum + s.systemicRiskScore, 0) / scenarios.length
+
+	// Simulate a 30% ETH drop through borrower liquidations (severe market shock).
+	// It competes for the worst case only, so a healthy borrower book never
+	// dilutes the protocol scenarios' average.
+	if (liquidation) {
+		scenarios.push(simulateLiquidationCascade(liquidation, 30, protocols))
+	}
+	// Same for LSTs already trading at a discount: a live depeg, not a what-if
+	for (const lst of lstPegs) {
+		if (lst.severity !== null && lst.discount > 0) {
+			scenarios.push(simulateLstDepegCascade(lst, protocols))
+		}
+	}
 	const worstScenario = scenarios.reduce(
 		(worst, s) => (s.systemicRiskScore > worst.systemicRiskScore ? s : worst),
 		scenarios[0],
 	)
-	const avgScenarioRisk =
-		scenarios.reduce((sum, s) => sum + s.systemicRiskScore, 0) / scenarios.length
 
 	// Weight toward worst case (60% worst, 40% average)
 	const aggregateRisk = Math.round(worstScenario.systemicRiskScore * 0.6 + avgScenarioRisk * 0.4)
 
 	return {
-		correlationMatrix: CORRELATIONS,
+		correlationMatrix,
 		scenarios,
 		aggregateContagionRisk: Math.min(100, aggregateRisk),
 		blastRadius,
@@ -234,6 +413,13 @@ export function analyzeContagion(protocols: ProtocolMetrics[]): ContagionAnalysi
 	}
 }
 
+function describeCorrelation(corr: number): string {
+	if (corr >= 0.8) return 'high'
+	if (corr >= 0.7) return 'moderate-high'
+	if (corr >= 0.5) return 'moderate'
+	return 'low'
+}
+
 /**
  * Format contagion analysis for Claude AI prompt enrichment
  */
@@ -250,11 +436,28 @@ export function formatContagionForAI(analysis: ContagionAnalysis): string {
 		lines.push(`  ${protocol}: $${(loss / 1e9).toFixed(2)}B at risk`)
 	}
 
+	const ethShock = analysis.scenarios.find((s) => s.kind === 'eth-shock')
+	if (ethShock) {
+		lines.push('')
+		lines.push(`Liquidation Cascade (${ethShock.trigger}): $${(ethShock.totalSystemLossUsd / 1e9).toFixed(2)}B system loss, ${ethShock.timeToContagion}`)
+	}
+	const lstDepegs = analysis.scenarios.filter((s) => s.kind === 'lst-depeg')
+	if (lstDepegs.length > 0) {
+		lines.push('')
+		for (const scenario of lstDepegs) {
+			lines.push(`LST Depeg Cascade (${scenario.trigger}): $${(scenario.totalSystemLossUsd / 1e9).toFixed(2)}B system loss, ${scenario.timeToContagion}`)
+		}
+	}
+
 	lines.push('')
 	lines.push('Correlation Matrix:')
-	lines.push('  Aave↔Compound: 0.87 (high)')
-	lines.push('  Aave↔Maker: 0.72 (moderate-high)')
-	lines.push('  Compound↔Maker: 0.65 (moderate)')
+	const keys = Object.keys(analysis.correlationMatrix)
+	for (let i = 0; i < keys.length; i++) {
+		for (let j = i + 1; j < keys.length; j++) {
+			const corr = analysis.correlationMatrix[keys[i]][keys[j]]
+			lines.push(`  ${keys[i]}↔${keys[j]}: ${corr.toFixed(2)} (${describeCorrelation(corr)})`)
+		}
+	}
 	lines.push('')
 	lines.push('Consider contagion risk when assigning aggregate score.')
 
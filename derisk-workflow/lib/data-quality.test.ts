@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'bun:test'
+import { MISSING_METRIC, assessTvlQuality, formatQualityForAI } from './data-quality'
+import type { ProtocolConfig } from './protocol-registry'
+
+const PROTOCOLS = [
+	{ key: 'aave', name: 'Aave V3' },
+	{ key: 'compound', name: 'Compound V3' },
+] as ProtocolConfig[]
+
+const PREVIOUS = { aave: 10e9, compound: 2e9 }
+
+describe('missing TVL', () => {
+	it('carries the previous cycle value forward instead of scoring zero', () => {
+		const report = assessTvlQuality(PROTOCOLS, { aave: MISSING_METRIC, compound: 2e9 }, PREVIOUS)
+
+		expect(report.metrics[0]).toMatchObject({ status: 'missing', raw: null, value: 10e9 })
+		expect(report.metrics[0].reason).toContain('source unavailable')
+		expect(report.usableTvls).toEqual({ aave: 10e9, compound: 2e9 })
+		expect(report.degradedSignals).toEqual(['Aave V3 TVL (missing)'])
+	})
+
+	it('excludes the protocol when there is no previous value', () => {
+		const report = assessTvlQuality(PROTOCOLS, { aave: MISSING_METRIC, compound: 2e9 }, {})
+
+		expect(report.metrics[0]).toMatchObject({ status: 'missing', value: null })
+		expect(report.usableTvls).toEqual({ compound: 2e9 })
+	})
+
+	it('treats an absent, zero or non-finite reading as missing', () => {
+		for (const raw of [undefined, 0, -5, Number.NaN, Number.POSITIVE_INFINITY]) {
+			const report = assessTvlQuality(PROTOCOLS, { aave: raw as number, compound: 2e9 }, PREVIOUS)
+			expect(report.metrics[0].status).toBe('missing')
+			expect(report.usableTvls['aave']).toBe(10e9)
+		}
+	})
+})
+
+describe('suspect TVL', () => {
+	it('flags a move of more than 50% since the previous cycle, but still uses it', () => {
+		const report = assessTvlQuality(PROTOCOLS, { aave: 4.9e9, compound: 3.1e9 }, PREVIOUS)
+
+		expect(report.metrics.map((metric) => metric.status)).toEqual(['suspect', 'suspect'])
+		expect(report.metrics[0].reason).toBe('-51.0% since previous cycle')
+		expect(report.metrics[1].reason).toBe('+55.0% since previous cycle')
+		expect(report.usableTvls).toEqual({ aave: 4.9e9, compound: 3.1e9 })
+		expect(report.degradedSignals).toEqual(['Aave V3 TVL (suspect)', 'Compound V3 TVL (suspect)'])
+	})
+
+	it('accepts a move of exactly 50%', () => {
+		const report = assessTvlQuality(PROTOCOLS, { aave: 5e9, compound: 3e9 }, PREVIOUS)
+		expect(report.metrics.map((metric) => metric.status)).toEqual(['ok', 'ok'])
+		expect(report.degradedSignals).toEqual([])
+	})
+
+	it('cannot flag a jump without a previous value', () => {
+		const report = assessTvlQuality(PROTOCOLS, { aave: 10e9, compound: 2e9 }, {})
+		expect(report.metrics.map((metric) => metric.status)).toEqual(['ok', 'ok'])
+	})
+})
+
+describe('formatQualityForAI', () => {
+	it('is empty when every metric is ok', () => {
+		expect(formatQualityForAI(assessTvlQuality(PROTOCOLS, PREVIOUS, PREVIOUS))).toBe('')
+	})
+
+	it('tells the model missing data is not a collapse', () => {
+		const prompt = formatQualityForAI(assessTvlQuality(PROTOCOLS, { aave: MISSING_METRIC, compound: 2e9 }, PREVIOUS))
+		expect(prompt).toContain('Aave V3 TVL: MISSING')
+		expect(prompt).toContain('Missing data is not a TVL collapse')
+	})
+})
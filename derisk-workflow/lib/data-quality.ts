@@ -0,0 +1,122 @@
+/**
+ * DeRisk Protocol - Data Quality Layer
+ *
+ * A failed DeFi Llama call used to surface as a TVL of 0, which the scorers
+ * read as a collapse. Every fetched TVL now carries a status:
+ *
+ * - ok:      plausible reading, used as-is
+ * - missing: no usable reading (HTTP error, unparseable or non-positive body);
+ *            the previous cycle's on-chain value is carried forward, or the
+ *            protocol sits this cycle out if there is none
+ * - suspect: a reading that moved more than MAX_CYCLE_JUMP since the previous
+ *            cycle; still used, but flagged to the AI and the consensus
+ *
+ * Missing and suspect metrics are reported as degraded signals, which lowers
+ * consensus confidence instead of moving the score.
+ */
+
+import type { ProtocolConfig } from './protocol-registry'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MetricStatus = 'ok' | 'missing' | 'suspect'
+
+export interface MetricQuality {
+	key: string // Registry key
+	name: string
+	status: MetricStatus
+	raw: number | null // Fetched value, null when missing
+	value: number | null // Value scored with (carried forward when missing), null when excluded
+	reason: string
+}
+
+export interface DataQualityReport {
+	metrics: MetricQuality[]
+	usableTvls: Record<string, number> // Registry key → TVL to score with
+	degradedSignals: string[] // For computeConsensus
+}
+
+// ============================================================================
+// Thresholds
+// ============================================================================
+
+// Sentinel a fetcher returns for a metric it could not read. Negative, so it
+// survives median aggregation across nodes and can never be a real TVL.
+export const MISSING_METRIC = -1
+
+// A cycle-over-cycle move larger than this is flagged as suspect (50%)
+const MAX_CYCLE_JUMP = 0.5
+
+// ============================================================================
+// Assessment
+// ============================================================================
+
+/**
+ * Classify one cycle's fetched TVLs against the previous cycle's on-chain
+ * values (empty on a fresh oracle)
+ */
+export function assessTvlQuality(
+	protocols: ProtocolConfig[],
+	rawTvls: Record<string, number>,
+	previousTvls: Record<string, number>,
+): DataQualityReport {
+	const metrics = protocols.map(({ key, name }): MetricQuality => {
+		const raw = rawTvls[key]
+		const previous = previousTvls[key]
+
+		if (raw === undefined || !Number.isFinite(raw) || raw <= 0) {
+			const reason = raw === MISSING_METRIC || raw === undefined ? 'source unavailable' : `implausible value ${raw}`
+			return previous !== undefined
+				? { key, name, status: 'missing', raw: null, value: previous, reason: `${reason}; previous cycle value carried forward` }
+				: { key, name, status: 'missing', raw: null, value: null, reason: `${reason}; excluded this cycle` }
+		}
+
+		if (previous !== undefined && Math.abs(raw - previous) / previous > MAX_CYCLE_JUMP) {
+			const change = ((raw - previous) / previous) * 100
+			return {
+				key,
+				name,
+				status: 'suspect',
+				raw,
+				value: raw,
+				reason: `${change >= 0 ? '+' : ''}${change.toFixed(1)}% since previous cycle`,
+			}
+		}
+
+		return { key, name, status: 'ok', raw, value: raw, reason: '' }
+	})
+
+	const usableTvls: Record<string, number> = {}
+	for (const metric of metrics) {
+		if (metric.value !== null) usableTvls[metric.key] = metric.value
+	}
+
+	return {
+		metrics,
+		usableTvls,
+		degradedSignals: metrics.filter((m) => m.status !== 'ok').map((m) => `${m.name} TVL (${m.status})`),
+	}
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Format data quality for inclusion in the AI risk assessment prompt
+ * (empty when every metric is ok)
+ */
+export function formatQualityForAI(report: DataQualityReport): string {
+	const flagged = report.metrics.filter((m) => m.status !== 'ok')
+	if (flagged.length === 0) return ''
+
+	const lines = ['DATA QUALITY WARNINGS:']
+	for (const metric of flagged) {
+		lines.push(`  ${metric.name} TVL: ${metric.status.toUpperCase()} - ${metric.reason}`)
+	}
+	lines.push('Missing data is not a TVL collapse. Do not raise risk for it; treat suspect values with caution.')
+
+	return lines.join('\n')
+}
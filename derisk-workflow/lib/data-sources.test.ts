@@ -0,0 +1,151 @@
+import type { HTTPSendRequester } from '@chainlink/cre-sdk'
+import { describe, expect, it } from 'bun:test'
+import { MISSING_METRIC } from './data-quality'
+import { type DataSources, fetchEthPrice, fetchLstPrices, fetchProtocolTvls, fetchStablecoinPrices } from './data-sources'
+import type { LstConfig, StablecoinConfig } from './depeg-monitor'
+import type { ProtocolConfig } from './protocol-registry'
+
+// Primary speaks DeFi Llama / CoinGecko formats, the fallback the alternatives
+const SOURCES: DataSources = {
+	tvl: {
+		primary: { name: 'Primary', url: 'http://primary/tvl/{slug}', parser: 'defillama-tvl' },
+		fallback: { name: 'Fallback', url: 'http://fallback/tvl/{slug}', parser: 'json-tvl' },
+	},
+	stablecoinPrices: {
+		primary: { name: 'Primary', url: 'http://primary/simple/price?ids={ids}', parser: 'coingecko-simple' },
+		fallback: { name: 'Fallback', url: 'http://fallback/prices/current/{ids}', parser: 'defillama-coins' },
+	},
+	ethPrice: {
+		primary: { name: 'Primary', url: 'http://primary/simple/price?ids={ids}', parser: 'coingecko-simple' },
+		fallback: { name: 'Fallback', url: 'http://fallback/prices/current/{ids}', parser: 'defillama-coins' },
+	},
+}
+
+const PROTOCOLS = [{ key: 'aave', slug: 'aave-v3' }] as ProtocolConfig[]
+
+const STABLECOINS: StablecoinConfig[] = [
+	{ symbol: 'USDT', priceId: 'tether', mechanism: 'fiat-backed', riskFactor: 'Largest stablecoin' },
+	{ symbol: 'USDC', priceId: 'usd-coin', mechanism: 'fiat-backed', riskFactor: 'Primary DeFi collateral' },
+]
+
+const LSTS = [{ symbol: 'stETH', priceId: 'staked-ether' }] as LstConfig[]
+
+type Route = { status: number; body: unknown } | 'error'
+
+/**
+ * In-process mock server: answers each URL from `routes` (404 otherwise)
+ * and records the URLs requested, in order
+ */
+function mockServer(routes: Record<string, Route>): { requester: HTTPSendRequester; requested: string[] } {
+	const requested: string[] = []
+	const requester = {
+		sendRequest: ({ url }: { url: string }) => ({
+			result: () => {
+				requested.push(url)
+				const route = routes[url] ?? { status: 404, body: 'not found' }
+				if (route === 'error') throw new Error('connection refused')
+				const body = typeof route.body === 'string' ? route.body : JSON.stringify(route.body)
+				return { statusCode: route.status, body: Buffer.from(body) }
+			},
+		}),
+	} as unknown as HTTPSendRequester
+	return { requester, requested }
+}
+
+const coingecko = (prices: Record<string, number>) => ({
+	status: 200,
+	body: Object.fromEntries(Object.entries(prices).map(([id, usd]) => [id, { usd }])),
+})
+
+const defillamaCoins = (prices: Record<string, number>) => ({
+	status: 200,
+	body: { coins: Object.fromEntries(Object.entries(prices).map(([id, price]) => [`coingecko:${id}`, { price }])) },
+})
+
+describe('protocol TVL failover', () => {
+	it('uses the fallback when the primary answers non-200', () => {
+		const { requester, requested } = mockServer({
+			'http://primary/tvl/aave-v3': { status: 503, body: 'unavailable' },
+			'http://fallback/tvl/aave-v3': { status: 200, body: { tvl: 12e9 } },
+		})
+		expect(fetchProtocolTvls(requester, { sources: SOURCES, protocols: PROTOCOLS })).toEqual({ aave: 12e9 })
+		expect(requested).toEqual(['http://primary/tvl/aave-v3', 'http://fallback/tvl/aave-v3'])
+	})
+
+	it('uses the fallback when the primary request fails', () => {
+		const { requester } = mockServer({
+			'http://primary/tvl/aave-v3': 'error',
+			'http://fallback/tvl/aave-v3': { status: 200, body: { tvl: 12e9 } },
+		})
+		expect(fetchProtocolTvls(requester, { sources: SOURCES, protocols: PROTOCOLS })).toEqual({ aave: 12e9 })
+	})
+
+	it('uses the fallback when the primary value is implausible', () => {
+		for (const implausible of ['0', '2e13', 'NaN', '<html>rate limited</html>']) {
+			const { requester } = mockServer({
+				'http://primary/tvl/aave-v3': { status: 200, body: implausible },
+				'http://fallback/tvl/aave-v3': { status: 200, body: { tvl: 12e9 } },
+			})
+			expect(fetchProtocolTvls(requester, { sources: SOURCES, protocols: PROTOCOLS })).toEqual({ aave: 12e9 })
+		}
+	})
+
+	it('does not ask the fallback when the primary answers', () => {
+		const { requester, requested } = mockServer({ 'http://primary/tvl/aave-v3': { status: 200, body: '10000000000' } })
+		expect(fetchProtocolTvls(requester, { sources: SOURCES, protocols: PROTOCOLS })).toEqual({ aave: 10e9 })
+		expect(requested).toEqual(['http://primary/tvl/aave-v3'])
+	})
+
+	it('reports the TVL as missing, not zero, when both sources fail', () => {
+		const { requester } = mockServer({
+			'http://primary/tvl/aave-v3': 'error',
+			'http://fallback/tvl/aave-v3': { status: 200, body: { tvl: 0 } },
+		})
+		expect(fetchProtocolTvls(requester, { sources: SOURCES, protocols: PROTOCOLS })).toEqual({ aave: MISSING_METRIC })
+	})
+})
+
+describe('price failover', () => {
+	it('asks the fallback only for the coins the primary could not price plausibly', () => {
+		const { requester, requested } = mockServer({
+			'http://primary/simple/price?ids=tether,usd-coin': coingecko({ tether: 1.0, 'usd-coin': 5.0 }),
+			'http://fallback/prices/current/coingecko:usd-coin': defillamaCoins({ 'usd-coin': 0.998 }),
+		})
+		expect(fetchStablecoinPrices(requester, { sources: SOURCES, stablecoins: STABLECOINS })).toEqual({ USDT: 1.0, USDC: 0.998 })
+		expect(requested).toEqual([
+			'http://primary/simple/price?ids=tether,usd-coin',
+			'http://fallback/prices/current/coingecko:usd-coin',
+		])
+	})
+
+	it('reports a coin as missing when both sources fail', () => {
+		const { requester } = mockServer({
+			'http://primary/simple/price?ids=tether,usd-coin': { status: 500, body: 'error' },
+			'http://fallback/prices/current/coingecko:tether,coingecko:usd-coin': defillamaCoins({ tether: 1.0 }),
+		})
+		expect(fetchStablecoinPrices(requester, { sources: SOURCES, stablecoins: STABLECOINS })).toEqual({
+			USDT: 1.0,
+			USDC: MISSING_METRIC,
+		})
+	})
+
+	it('answers 0 for the secondary ETH price when no source prices it', () => {
+		const { requester } = mockServer({
+			'http://primary/simple/price?ids=ethereum': coingecko({ ethereum: 2e6 }),
+			'http://fallback/prices/current/coingecko:ethereum': 'error',
+		})
+		expect(fetchEthPrice(requester, SOURCES)).toBe(0)
+	})
+
+	it('prices LSTs in ETH, and as missing without an ETH price', () => {
+		const priced = mockServer({
+			'http://primary/simple/price?ids=ethereum,staked-ether': coingecko({ ethereum: 2500, 'staked-ether': 2450 }),
+		})
+		expect(fetchLstPrices(priced.requester, { sources: SOURCES, tokens: LSTS })).toEqual({ stETH: 0.98 })
+
+		const noEth = mockServer({
+			'http://primary/simple/price?ids=ethereum,staked-ether': coingecko({ 'staked-ether': 2450 }),
+		})
+		expect(fetchLstPrices(noEth.requester, { sources: SOURCES, tokens: LSTS })).toEqual({ stETH: MISSING_METRIC })
+	})
+})
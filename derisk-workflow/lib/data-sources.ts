@@ -0,0 +1,227 @@
+/**
+ * DeRisk Protocol - Off-Chain Data Sources with Failover
+ *
+ * Every off-chain metric (protocol TVLs, stablecoin prices, the secondary
+ * ETH/USD price, LST prices) is fetched from a configured primary endpoint, with an
+ * optional fallback that is tried when the primary errors, answers non-200
+ * or returns an implausible value (for prices: for the assets it could not
+ * price). Each source names the parser that reads
+ * its response format, so a mirror, a paid tier or a local mock server
+ * (data-source-mock-server.ts) is a config change.
+ *
+ * Fetchers run inside CRE HTTPClient.sendRequest and are median-aggregated
+ * across nodes in main.ts.
+ */
+
+import type { HTTPSendRequester } from '@chainlink/cre-sdk'
+import { z } from 'zod'
+import { MISSING_METRIC } from './data-quality'
+import type { LstConfig, LstPricesRaw, StablecoinConfig, StablecoinPricesRaw } from './depeg-monitor'
+import type { ProtocolConfig } from './protocol-registry'
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+// TVL formats: DeFi Llama /tvl/{slug} answers a bare number; json-tvl is {"tvl": <n>}
+export const tvlParserSchema = z.enum(['defillama-tvl', 'json-tvl'])
+
+// Price formats: CoinGecko simple/price and DeFi Llama coins/prices/current
+export const priceParserSchema = z.enum(['coingecko-simple', 'defillama-coins'])
+
+const sourceFields = {
+	name: z.string(), // For logs: "DeFi Llama", "CoinGecko", "Local mock"
+	url: z.string(), // TVL urls take a {slug} placeholder, price urls an {ids} placeholder
+}
+
+const tvlSourceSchema = z.object({ ...sourceFields, parser: tvlParserSchema })
+const priceSourceSchema = z.object({ ...sourceFields, parser: priceParserSchema })
+
+export const dataSourcesSchema = z.object({
+	tvl: z.object({ primary: tvlSourceSchema, fallback: tvlSourceSchema.optional() }),
+	stablecoinPrices: z.object({ primary: priceSourceSchema, fallback: priceSourceSchema.optional() }),
+	ethPrice: z.object({ primary: priceSourceSchema, fallback: priceSourceSchema.optional() }),
+})
+
+export type DataSources = z.infer<typeof dataSourcesSchema>
+
+type TvlSource = z.infer<typeof tvlSourceSchema>
+type PriceSource = z.infer<typeof priceSourceSchema>
+type PriceParser = z.infer<typeof priceParserSchema>
+
+// ============================================================================
+// Parsers
+// ============================================================================
+
+const TVL_PARSERS: Record<z.infer<typeof tvlParserSchema>, (body: string) => number> = {
+	'defillama-tvl': (body) => parseFloat(body),
+	'json-tvl': (body) => Number(JSON.parse(body)['tvl']),
+}
+
+// Asset ids are CoinGecko ids ("tether", "ethereum"); DeFi Llama coins prefixes them
+const PRICE_PARSERS: Record<
+	PriceParser,
+	{ formatIds: (ids: string[]) => string; parse: (body: string, id: string) => number }
+> = {
+	'coingecko-simple': {
+		formatIds: (ids) => ids.join(','),
+		parse: (body, id) => Number(JSON.parse(body)[id]?.['usd']),
+	},
+	'defillama-coins': {
+		formatIds: (ids) => ids.map((id) => `coingecko:${id}`).join(','),
+		parse: (body, id) => Number(JSON.parse(body)['coins']?.[`coingecko:${id}`]?.['price']),
+	},
+}
+
+// ============================================================================
+// Plausibility
+// ============================================================================
+
+const plausibleTvl = (tvl: number): boolean => Number.isFinite(tvl) && tvl > 0 && tvl < 1e13
+const plausibleStablecoinPrice = (price: number): boolean => Number.isFinite(price) && price > 0 && price < 2
+const plausibleEthPrice = (price: number): boolean => Number.isFinite(price) && price > 0 && price < 1e6
+
+// ============================================================================
+// Failover
+// ============================================================================
+
+/**
+ * GET from each source in order until one answers 200 with a value the
+ * parser and plausibility check accept. Null when every source failed.
+ */
+function fetchWithFailover<S extends { url: string }, T>(
+	sendRequester: HTTPSendRequester,
+	sources: (S | undefined)[],
+	urlFor: (source: S) => string,
+	read: (source: S, body: string) => T | null,
+): T | null {
+	for (const source of sources) {
+		if (!source) continue
+		try {
+			const resp = sendRequester.sendRequest({ method: 'GET', url: urlFor(source) }).result()
+			if (resp.statusCode !== 200) continue
+			const value = read(source, Buffer.from(resp.body).toString('utf-8'))
+			if (value !== null) return value
+		} catch {
+			// Transport error or malformed body: try the next source
+		}
+	}
+	return null
+}
+
+/**
+ * Prices for `ids`, asking each source only for the ids the previous sources
+ * could not price plausibly. Ids no source could price are left out.
+ */
+function fetchPrices(
+	sendRequester: HTTPSendRequester,
+	sources: (PriceSource | undefined)[],
+	ids: string[],
+	plausible: (price: number) => boolean,
+): Record<string, number> {
+	const prices: Record<string, number> = {}
+	for (const source of sources) {
+		const remaining = ids.filter((id) => !(id in prices))
+		if (remaining.length === 0) break
+		const found = fetchWithFailover<PriceSource, Record<string, number>>(
+			sendRequester,
+			[source],
+			(src) => src.url.replace('{ids}', PRICE_PARSERS[src.parser].formatIds(remaining)),
+			(src, body) => {
+				const read: Record<string, number> = {}
+				for (const id of remaining) {
+					const price = PRICE_PARSERS[src.parser].parse(body, id)
+					if (plausible(price)) read[id] = price
+				}
+				return read
+			},
+		)
+		Object.assign(prices, found)
+	}
+	return prices
+}
+
+// ============================================================================
+// Fetchers (CRE HTTPClient.sendRequest handlers)
+// ============================================================================
+
+/**
+ * TVL for every registered protocol. A protocol no source could read is
+ * reported as MISSING_METRIC for the data-quality layer, never as zero.
+ */
+export const fetchProtocolTvls = (
+	sendRequester: HTTPSendRequester,
+	{ sources, protocols }: { sources: DataSources; protocols: ProtocolConfig[] },
+): Record<string, number> => {
+	const tvls: Record<string, number> = {}
+	for (const protocol of protocols) {
+		const tvl = fetchWithFailover<TvlSource, number>(
+			sendRequester,
+			[sources.tvl.primary, sources.tvl.fallback],
+			(source) => source.url.replace('{slug}', protocol.slug),
+			(source, body) => {
+				const value = TVL_PARSERS[source.parser](body)
+				return plausibleTvl(value) ? value : null
+			},
+		)
+		tvls[protocol.key] = tvl ?? MISSING_METRIC
+	}
+	return tvls
+}
+
+/**
+ * Live prices for the configured stablecoin universe, keyed by symbol. A coin
+ * no source could price is MISSING_METRIC, never a 1.0 default: a phantom peg
+ * would read as a recovery and reset a running depeg clock.
+ */
+export const fetchStablecoinPrices = (
+	sendRequester: HTTPSendRequester,
+	{ sources, stablecoins }: { sources: DataSources; stablecoins: StablecoinConfig[] },
+): StablecoinPricesRaw => {
+	const prices = fetchPrices(
+		sendRequester,
+		[sources.stablecoinPrices.primary, sources.stablecoinPrices.fallback],
+		[...new Set(stablecoins.map((coin) => coin.priceId))],
+		plausibleStablecoinPrice,
+	)
+	return Object.fromEntries(stablecoins.map((coin) => [coin.symbol, prices[coin.priceId] ?? MISSING_METRIC]))
+}
+
+/**
+ * Secondary ETH/USD price for the Chainlink feed deviation check; 0 means
+ * no source answered (the check is then skipped)
+ */
+export const fetchEthPrice = (sendRequester: HTTPSendRequester, sources: DataSources): number => {
+	const prices = fetchPrices(
+		sendRequester,
+		[sources.ethPrice.primary, sources.ethPrice.fallback],
+		['ethereum'],
+		plausibleEthPrice,
+	)
+	return prices['ethereum'] ?? 0
+}
+
+/**
+ * Market price in ETH of each liquid staking token, from the ETH price
+ * sources (USD prices of the token and of ETH, from the same source where
+ * possible). A token or ETH no source could price is MISSING_METRIC, never
+ * a 1:1 default: a phantom peg would hide a discount.
+ */
+export const fetchLstPrices = (
+	sendRequester: HTTPSendRequester,
+	{ sources, tokens }: { sources: DataSources; tokens: LstConfig[] },
+): LstPricesRaw => {
+	const prices = fetchPrices(
+		sendRequester,
+		[sources.ethPrice.primary, sources.ethPrice.fallback],
+		[...new Set(['ethereum', ...tokens.map((token) => token.priceId)])],
+		plausibleEthPrice,
+	)
+	const eth = prices['ethereum']
+	return Object.fromEntries(
+		tokens.map((token) => {
+			const price = prices[token.priceId]
+			return [token.symbol, eth && price ? price / eth : MISSING_METRIC]
+		}),
+	)
+}
@@ -0,0 +1,61 @@
+import type { HTTPSendRequester } from '@chainlink/cre-sdk'
+import { describe, expect, it } from 'bun:test'
+import { MISSING_METRIC } from './data-quality'
+import { type DataSources, fetchStablecoinPrices } from './data-sources'
+import { analyzeDepegRisk, type PegHistory, type StablecoinConfig } from './depeg-monitor'
+
+const STABLECOINS: StablecoinConfig[] = [
+	{ symbol: 'USDT', priceId: 'tether', mechanism: 'fiat-backed', riskFactor: 'Largest stablecoin' },
+	{ symbol: 'USDC', priceId: 'usd-coin', mechanism: 'fiat-backed', riskFactor: 'Primary DeFi collateral' },
+]
+
+const SOURCES: DataSources = {
+	tvl: { primary: { name: 'Mock', url: 'http://mock/tvl/{slug}', parser: 'defillama-tvl' } },
+	stablecoinPrices: { primary: { name: 'Mock', url: 'http://mock/simple/price?ids={ids}', parser: 'coingecko-simple' } },
+	ethPrice: { primary: { name: 'Mock', url: 'http://mock/simple/price?ids={ids}', parser: 'coingecko-simple' } },
+}
+
+// Price source that prices USDT and answers nothing for USDC
+const partialOutage = {
+	sendRequest: () => ({
+		result: () => ({ statusCode: 200, body: Buffer.from(JSON.stringify({ tether: { usd: 1.0 } })) }),
+	}),
+} as unknown as HTTPSendRequester
+
+const NOW = 1_700_000_000
+const DEPEG_START = NOW - 30 * 3600
+
+// USDC has been off peg for 30 hours at WARNING
+const HISTORY: PegHistory = {
+	USDT: { price: 1.0, offPegSince: null, updatedAt: NOW - 300, severity: null },
+	USDC: { price: 0.97, offPegSince: DEPEG_START, updatedAt: NOW - 300, severity: 'WARNING' },
+}
+
+describe('stablecoin price outage', () => {
+	it('reports an unpriced coin as missing, not at its peg', () => {
+		const prices = fetchStablecoinPrices(partialOutage, { sources: SOURCES, stablecoins: STABLECOINS })
+		expect(prices).toEqual({ USDT: 1.0, USDC: MISSING_METRIC })
+	})
+
+	it('leaves the stored peg state of an unpriced coin alone', () => {
+		const prices = fetchStablecoinPrices(partialOutage, { sources: SOURCES, stablecoins: STABLECOINS })
+		const analysis = analyzeDepegRisk(prices, STABLECOINS, HISTORY, NOW)
+
+		expect(analysis.stablecoins.map((coin) => coin.symbol)).toEqual(['USDT'])
+		// No USDC entry is published, so the on-chain offPegSince and severity survive the outage
+		expect(analysis.pegStates).not.toHaveProperty('USDC')
+		expect(analysis.alerts).toEqual([])
+	})
+
+	it('resumes the depeg clock once the coin is priced again', () => {
+		const analysis = analyzeDepegRisk({ USDT: 1.0, USDC: 0.97 }, STABLECOINS, HISTORY, NOW + 600)
+		expect(analysis.pegStates['USDC'].offPegSince).toBe(DEPEG_START)
+	})
+
+	it('yields an empty analysis when nothing is priced', () => {
+		const analysis = analyzeDepegRisk({ USDT: MISSING_METRIC, USDC: MISSING_METRIC }, STABLECOINS, HISTORY, NOW)
+		expect(analysis.stablecoins).toEqual([])
+		expect(analysis.pegStates).toEqual({})
+		expect(analysis.depegRiskScore).toBe(0)
+	})
+})
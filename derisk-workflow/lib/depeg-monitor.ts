@@ -1,41 +1,171 @@
 /**
  * DeRisk Protocol - Stablecoin Depeg Early Warning System
  *
- * Monitors major stablecoins for deviation from their $1.00 peg.
- * Fetches live prices from CoinGecko API via CRE HTTPClient.
+ * Monitors the configured stablecoin universe (config.*.json `stablecoins`)
+ * for deviation from the $1.00 peg. Live prices come from the configured
+ * data sources (lib/data-sources.ts).
+ *
+ * Each coin's peg state (price, start of the current off-peg episode,
+ * severity) is carried across cycles through DeRiskOracle, so alerts track
+ * time in deviation and the rate of deviation change: a coin that stays off
+ * peg or drifts further escalates, and a recovered coin steps back down one
+ * severity level per cycle.
+ *
+ * Liquid staking and restaking tokens (config.*.json `liquidStaking`) are
+ * tracked the same way against an ETH peg: market price in ETH over the
+ * token's fair value (1:1, or the exchange rate its own contract reports).
+ * Only a discount counts, with per-token thresholds, and an LST trading at a
+ * discount adds a cascade scenario to the contagion analysis, since these
+ * tokens are major Aave collateral.
  *
  * Historical depeg events modeled:
  * - UST collapse (May 2022): gradual then catastrophic depeg
+ * - stETH discount (Jun 2022): ~6% below ETH, forced Celsius and 3AC to unwind
  * - USDC depeg (Mar 2023): dropped to $0.87 during SVB crisis
  * - DAI instability: tracks MakerDAO collateral health
  */
 
-import type { HTTPSendRequester } from '@chainlink/cre-sdk'
+import { stringToHex } from 'viem'
+import { z } from 'zod'
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const stablecoinMechanismSchema = z.enum(['fiat-backed', 'crypto-backed', 'hybrid', 'synthetic', 'algorithmic'])
+
+export type StablecoinMechanism = z.infer<typeof stablecoinMechanismSchema>
+
+export const stablecoinConfigSchema = z.object({
+	symbol: z.string().regex(/^[A-Za-z0-9]{1,15}$/), // "USDC", also the consensus field name
+	priceId: z.string(), // CoinGecko id, resolved per source by lib/data-sources.ts: "usd-coin"
+	mechanism: stablecoinMechanismSchema,
+	riskFactor: z.string(), // Why a depeg matters, for alerts and the AI prompt
+})
+
+export type StablecoinConfig = z.infer<typeof stablecoinConfigSchema>
+
+export const stablecoinUniverseSchema = z
+	.array(stablecoinConfigSchema)
+	.min(1)
+	.superRefine((stablecoins, ctx) => {
+		const symbols = new Set<string>()
+		for (const { symbol } of stablecoins) {
+			if (symbols.has(symbol)) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate stablecoin symbol: ${symbol}` })
+			}
+			symbols.add(symbol)
+		}
+	})
+
+export const lstMechanismSchema = z.enum(['liquid-staking', 'liquid-restaking'])
+
+export type LstMechanism = z.infer<typeof lstMechanismSchema>
+
+// Discount to fair value (fraction) at which each severity level starts
+const pegThresholdsSchema = z
+	.object({
+		watch: z.number().positive(),
+		warning: z.number().positive(),
+		critical: z.number().positive(),
+	})
+	.refine((t) => t.watch < t.warning && t.warning < t.critical, 'Thresholds must increase from watch to critical')
+
+export type PegThresholds = z.infer<typeof pegThresholdsSchema>
+
+export const lstConfigSchema = z.object({
+	symbol: z.string().regex(/^[A-Za-z0-9]{1,15}$/), // "stETH", also the consensus field name
+	priceId: z.string(), // CoinGecko id, priced in USD and divided by ETH: "staked-ether"
+	mechanism: lstMechanismSchema,
+	thresholds: pegThresholdsSchema, // Wider for thinner secondary markets
+	// ETH per token from the token contract (18 decimals); omitted for 1:1 tokens such as stETH
+	rateProvider: z
+		.object({
+			address: z.string(),
+			method: z.enum(['getExchangeRate', 'getRate']), // rETH, weETH
+		})
+		.optional(),
+	riskFactor: z.string(), // Why a discount matters, for alerts and the AI prompt
+})
+
+export type LstConfig = z.infer<typeof lstConfigSchema>
+
+export const liquidStakingSchema = z.object({
+	rateChain: z.string(), // Chain selector name the rate providers live on: "ethereum-mainnet"
+	tokens: z.array(lstConfigSchema).superRefine((tokens, ctx) => {
+		const symbols = new Set<string>()
+		for (const { symbol } of tokens) {
+			if (symbols.has(symbol)) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate LST symbol: ${symbol}` })
+			}
+			symbols.add(symbol)
+		}
+	}),
+})
+
+export type LiquidStakingConfig = z.infer<typeof liquidStakingSchema>
 
 // ============================================================================
 // Types
 // ============================================================================
 
+export type DepegSeverity = 'WATCH' | 'WARNING' | 'CRITICAL'
+
+// off-peg: outside the WATCH band; recovering: off peg but the deviation is
+// shrinking; recovered: back inside the band this episode
+export type PegStatus = 'stable' | 'off-peg' | 'recovering' | 'recovered'
+
 export interface StablecoinPrice {
 	symbol: string
 	price: number // Current price (should be ~1.00)
-	mechanism: string // 'algorithmic' | 'fiat-backed' | 'crypto-backed'
+	mechanism: StablecoinMechanism
+	status: PegStatus
+	offPegSeconds: number // Time in deviation this episode, 0 while on peg
+	deviationVelocity: number | null // Change in |deviation| per hour since the previous cycle (+ = widening)
+	severity: DepegSeverity | null // After duration escalation and recovery de-escalation
+}
+
+// One coin's state as carried across cycles (DeRiskOracle.getPegStates)
+export interface PegState {
+	price: number
+	offPegSince: number | null // unix seconds the current off-peg episode began
+	updatedAt: number // unix seconds
+	severity: DepegSeverity | null
 }
 
-// Raw prices fetched from CoinGecko — used with ConsensusAggregationByFields
-export interface StablecoinPricesRaw {
-	usdtPrice: number
-	usdcPrice: number
-	daiPrice: number
+// Previous cycle's peg state by symbol (empty on a fresh oracle)
+export type PegHistory = Record<string, PegState>
+
+// Raw prices by symbol from the configured price source (MISSING_METRIC when
+// unpriced) — used with ConsensusAggregationByFields (one median field per stablecoin)
+export type StablecoinPricesRaw = Record<string, number>
+
+// Market prices in ETH by symbol (MISSING_METRIC when unpriced) — one median field per token
+export type LstPricesRaw = Record<string, number>
+
+export interface LstPeg {
+	symbol: string
+	marketPrice: number // ETH
+	fairRate: number // ETH per token the protocol redeems at (1 for stETH)
+	pegRatio: number // marketPrice / fairRate, 1.0 on peg
+	discount: number // Below fair value, 0-1 (a premium counts as 0)
+	mechanism: LstMechanism
+	status: PegStatus
+	offPegSeconds: number
+	deviationVelocity: number | null // Change in discount per hour since the previous cycle
+	severity: DepegSeverity | null
 }
 
 export interface DepegAlert {
 	symbol: string
-	currentPrice: number
-	deviationPercent: number // How far from $1.00 (absolute)
-	severity: 'WATCH' | 'WARNING' | 'CRITICAL'
-	mechanism: string
+	currentPrice: number // USD for stablecoins, peg ratio for LSTs
+	deviationPercent: number // How far from peg (absolute)
+	severity: DepegSeverity
+	mechanism: StablecoinMechanism | LstMechanism
 	riskFactor: string // Why this matters
+	status: PegStatus
+	offPegSeconds: number
+	trend: string // Why the severity differs from the instantaneous deviation, '' if it does not
 }
 
 export interface DepegAnalysis {
@@ -44,6 +174,15 @@ export interface DepegAnalysis {
 	depegRiskScore: number // 0-100
 	worstDepeg: string // Which stablecoin is most depegged
 	avgDeviation: number // Average deviation from peg
+	pegStates: PegHistory // This cycle's state, published for the next cycle
+}
+
+export interface LstDepegAnalysis {
+	tokens: LstPeg[] // Tokens with a market price and fair rate this cycle
+	alerts: DepegAlert[]
+	lstRiskScore: number // 0-100
+	worstDiscount: string | null // Symbol with the deepest discount, null when none trades below fair value
+	pegStates: PegHistory
 }
 
 // ============================================================================
@@ -51,122 +190,222 @@ export interface DepegAnalysis {
 // ============================================================================
 
 // Deviation thresholds (from $1.00) for each severity level
-const WATCH_THRESHOLD = 0.005 // 0.5% - minor deviation
-const WARNING_THRESHOLD = 0.02 // 2.0% - concerning deviation
-const CRITICAL_THRESHOLD = 0.05 // 5.0% - emergency depeg
+const STABLECOIN_THRESHOLDS: PegThresholds = {
+	watch: 0.005, // 0.5% - minor deviation
+	warning: 0.02, // 2.0% - concerning deviation
+	critical: 0.05, // 5.0% - emergency depeg
+}
+
+const SEVERITIES: DepegSeverity[] = ['WATCH', 'WARNING', 'CRITICAL']
+
+// Off peg this long escalates one severity level, then a second: the UST
+// collapse was preceded by days of 1-2% wobble
+const SUSTAINED_ESCALATION_SECONDS = [86_400, 259_200] // 24h, 72h
+
+// A deviation widening at least this fast (fraction per hour) escalates one level
+const WIDENING_ESCALATION_PER_HOUR = 0.005
+
+// Added to the depeg risk score per escalated severity level
+const ESCALATION_POINTS = 10
 
 // Risk multipliers by mechanism type
-// Algorithmic stablecoins are highest risk (see UST)
-const MECHANISM_RISK: Record<string, number> = {
+// Algorithmic stablecoins are highest risk (see UST); synthetic (delta-neutral)
+// designs depend on funding rates and exchange custody
+export const MECHANISM_RISK: Record<StablecoinMechanism, number> = {
 	'algorithmic': 2.0,
+	'synthetic': 1.75,
 	'crypto-backed': 1.5,
+	'hybrid': 1.5,
 	'fiat-backed': 1.0,
 }
 
-// Stablecoin metadata
-const STABLECOIN_CONFIG: Record<string, { mechanism: string; riskFactor: string }> = {
-	USDT: {
+// Restaking adds slashing and AVS risk on top of staking, and its tokens
+// trade in thinner markets
+export const LST_MECHANISM_RISK: Record<LstMechanism, number> = {
+	'liquid-staking': 1.0,
+	'liquid-restaking': 1.5,
+}
+
+// LST risk points for a discount at the token's critical threshold, before
+// mechanism weighting
+const LST_CRITICAL_POINTS = 50
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+// Original three-stablecoin universe. Used by the historical backtester,
+// which adds the coins its archived events need.
+export const DEFAULT_STABLECOINS: StablecoinConfig[] = [
+	{
+		symbol: 'USDT',
+		priceId: 'tether',
 		mechanism: 'fiat-backed',
 		riskFactor: 'Largest stablecoin by market cap. Reserve transparency concerns. Depeg would cascade across all DeFi.',
 	},
-	USDC: {
+	{
+		symbol: 'USDC',
+		priceId: 'usd-coin',
 		mechanism: 'fiat-backed',
 		riskFactor: 'Primary DeFi collateral. SVB exposure caused $0.87 depeg in Mar 2023. Affects Aave and Compound.',
 	},
-	DAI: {
+	{
+		symbol: 'DAI',
+		priceId: 'dai',
 		mechanism: 'crypto-backed',
 		riskFactor: 'MakerDAO CDP-backed. Depends on ETH collateral health. Liquidation cascades during ETH crashes.',
 	},
+]
+
+// ============================================================================
+// Peg State Encoding
+// ============================================================================
+
+/**
+ * On-chain stablecoin id: the symbol as a right-padded bytes32 string
+ */
+export function stablecoinId(symbol: string): `0x${string}` {
+	return stringToHex(symbol, { size: 32 })
 }
 
+// Severity as stored on-chain: 0 none, 1 WATCH, 2 WARNING, 3 CRITICAL
+export const severityLevel = (severity: DepegSeverity | null): number =>
+	severity === null ? 0 : SEVERITIES.indexOf(severity) + 1
+
+export const severityFromLevel = (level: number): DepegSeverity | null =>
+	level <= 0 ? null : SEVERITIES[Math.min(level, SEVERITIES.length) - 1]
+
 // ============================================================================
-// CoinGecko Fetch — used as HTTPClient.sendRequest handler
+// Analysis Engine
 // ============================================================================
 
-// CoinGecko free API — no key required
-// Returns: {"tether":{"usd":1.001},"usd-coin":{"usd":0.9999},"dai":{"usd":0.9998}}
-const COINGECKO_URL =
-	'https://api.coingecko.com/api/v3/simple/price?ids=tether,usd-coin,dai&vs_currencies=usd'
+const instantLevel = (deviation: number, thresholds: PegThresholds): number =>
+	deviation >= thresholds.critical ? 3 : deviation >= thresholds.warning ? 2 : deviation >= thresholds.watch ? 1 : 0
+
+// Stablecoins deviate either way from $1.00; an LST only by trading below fair value
+const stablecoinDeviation = (price: number): number => Math.abs(price - 1.0)
+const lstDiscount = (pegRatio: number): number => Math.max(0, 1 - pegRatio)
+
+// Alerts sort CRITICAL first
+const SEVERITY_ORDER: Record<DepegSeverity, number> = { CRITICAL: 0, WARNING: 1, WATCH: 2 }
+const bySeverity = (a: DepegAlert, b: DepegAlert): number => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+
+const formatHours = (seconds: number): string => `${(seconds / 3600).toFixed(seconds < 36_000 ? 1 : 0)}h`
 
 /**
- * Fetch live stablecoin prices from CoinGecko.
- *
- * Designed to run as a CRE HTTPClient.sendRequest handler so that
- * prices are fetched across all CRE nodes and aggregated via median.
- *
- * Falls back to 1.0 for any price that fails to parse, so the
- * pipeline never hard-crashes on a CoinGecko outage.
+ * Track one coin against its previous cycle: time in deviation, deviation
+ * velocity, and the severity after escalation (sustained or widening) and
+ * de-escalation (at most one level down per cycle). `price` is whatever the
+ * peg state stores (USD, or the LST peg ratio), measured by `deviationOf`.
  */
-export const fetchRawStablecoinPrices = (
-	sendRequester: HTTPSendRequester,
-): StablecoinPricesRaw => {
-	const response = sendRequester
-		.sendRequest({ method: 'GET', url: COINGECKO_URL })
-		.result()
-
-	if (response.statusCode !== 200) {
-		return { usdtPrice: 1.0, usdcPrice: 1.0, daiPrice: 1.0 }
+function trackPeg(
+	price: number,
+	previous: PegState | undefined,
+	asOf: number,
+	thresholds: PegThresholds,
+	deviationOf: (price: number) => number,
+): {
+	peg: Pick<StablecoinPrice, 'status' | 'offPegSeconds' | 'deviationVelocity' | 'severity'>
+	offPegSince: number | null
+	escalatedLevels: number
+	trend: string
+} {
+	const deviation = deviationOf(price)
+	const offPeg = deviation >= thresholds.watch
+	const offPegSince = offPeg ? (previous?.offPegSince ?? asOf) : null
+	const offPegSeconds = offPegSince === null ? 0 : asOf - offPegSince
+	const deviationVelocity =
+		previous && asOf > previous.updatedAt
+			? (deviation - deviationOf(previous.price)) / ((asOf - previous.updatedAt) / 3600)
+			: null
+
+	const base = instantLevel(deviation, thresholds)
+	const reasons: string[] = []
+	let escalation = 0
+	if (offPeg) {
+		const sustained = SUSTAINED_ESCALATION_SECONDS.filter((s) => offPegSeconds >= s).length
+		if (sustained > 0) reasons.push(`off peg ${formatHours(offPegSeconds)}`)
+		escalation += sustained
+		if (deviationVelocity !== null && deviationVelocity >= WIDENING_ESCALATION_PER_HOUR) {
+			reasons.push(`widening ${(deviationVelocity * 100).toFixed(2)}%/h`)
+			escalation++
+		}
 	}
+	const escalated = Math.min(SEVERITIES.length, base + escalation)
+	const held = severityLevel(previous?.severity ?? null) - 1
+	const level = Math.max(escalated, held)
+	if (held > escalated) reasons.push(`de-escalating from ${previous?.severity}`)
 
-	const body = JSON.parse(Buffer.from(response.body).toString('utf-8'))
+	let status: PegStatus = 'stable'
+	if (offPeg) status = deviationVelocity !== null && deviationVelocity < 0 ? 'recovering' : 'off-peg'
+	else if (level > 0 || (previous?.offPegSince ?? null) !== null) status = 'recovered'
 
 	return {
-		usdtPrice: body['tether']?.['usd'] ?? 1.0,
-		usdcPrice: body['usd-coin']?.['usd'] ?? 1.0,
-		daiPrice: body['dai']?.['usd'] ?? 1.0,
+		peg: { status, offPegSeconds, deviationVelocity, severity: severityFromLevel(level) },
+		offPegSince,
+		escalatedLevels: escalated - base,
+		trend: reasons.join(', '),
 	}
 }
 
-// ============================================================================
-// Analysis Engine
-// ============================================================================
-
 /**
- * Analyze stablecoin depeg risk from live CoinGecko prices.
+ * Analyze stablecoin depeg risk from live prices.
  *
- * @param prices - Raw prices fetched via fetchRawStablecoinPrices and
- *                 aggregated by ConsensusAggregationByFields in main.ts
+ * @param prices   - Raw prices by symbol, fetched via fetchStablecoinPrices
+ *                   (lib/data-sources.ts) and aggregated by
+ *                   ConsensusAggregationByFields in main.ts
+ * @param universe - Monitored stablecoins; coins without a price are skipped,
+ *                   so an outage leaves their stored peg state (and depeg
+ *                   clock) untouched instead of reading as a recovery
+ * @param history  - Previous cycle's peg state by symbol ({} on a fresh oracle)
+ * @param asOf     - Time of the prices, unix seconds
  */
-export function analyzeDepegRisk(prices: StablecoinPricesRaw): DepegAnalysis {
-	const stablecoins: StablecoinPrice[] = [
-		{ symbol: 'USDT', price: prices.usdtPrice, mechanism: 'fiat-backed' },
-		{ symbol: 'USDC', price: prices.usdcPrice, mechanism: 'fiat-backed' },
-		{ symbol: 'DAI',  price: prices.daiPrice,  mechanism: 'crypto-backed' },
-	]
+export function analyzeDepegRisk(
+	prices: StablecoinPricesRaw,
+	universe: StablecoinConfig[],
+	history: PegHistory,
+	asOf: number,
+): DepegAnalysis {
+	const monitored = universe.filter(({ symbol }) => prices[symbol] > 0)
+	if (monitored.length === 0) {
+		return { stablecoins: [], alerts: [], depegRiskScore: 0, worstDepeg: '', avgDeviation: 0, pegStates: {} }
+	}
+	const riskFactors = new Map(monitored.map((coin) => [coin.symbol, coin.riskFactor]))
+	const tracked = monitored.map(({ symbol, mechanism }) => {
+		const { peg, ...tracking } = trackPeg(prices[symbol], history[symbol], asOf, STABLECOIN_THRESHOLDS, stablecoinDeviation)
+		const coin: StablecoinPrice = { symbol, price: prices[symbol], mechanism, ...peg }
+		return { coin, ...tracking }
+	})
+	const stablecoins = tracked.map(({ coin }) => coin)
 
 	const alerts: DepegAlert[] = []
 
-	for (const coin of stablecoins) {
-		const deviation = Math.abs(coin.price - 1.0)
-		const deviationPercent = deviation * 100
-
-		if (deviation >= WATCH_THRESHOLD) {
-			const config = STABLECOIN_CONFIG[coin.symbol]
-			let severity: DepegAlert['severity'] = 'WATCH'
-			if (deviation >= CRITICAL_THRESHOLD) severity = 'CRITICAL'
-			else if (deviation >= WARNING_THRESHOLD) severity = 'WARNING'
-
+	for (const { coin, trend } of tracked) {
+		if (coin.severity !== null) {
 			alerts.push({
 				symbol: coin.symbol,
 				currentPrice: coin.price,
-				deviationPercent: Math.round(deviationPercent * 100) / 100,
-				severity,
+				deviationPercent: Math.round(Math.abs(coin.price - 1.0) * 100 * 100) / 100,
+				severity: coin.severity,
 				mechanism: coin.mechanism,
-				riskFactor: config?.riskFactor || 'Stablecoin peg deviation detected',
+				riskFactor: riskFactors.get(coin.symbol) || 'Stablecoin peg deviation detected',
+				status: coin.status,
+				offPegSeconds: coin.offPegSeconds,
+				trend,
 			})
 		}
 	}
 
-	// Sort alerts by severity (CRITICAL first)
-	const severityOrder = { CRITICAL: 0, WARNING: 1, WATCH: 2 }
-	alerts.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity])
+	alerts.sort(bySeverity)
 
-	// Calculate aggregate depeg risk score
+	// Calculate aggregate depeg risk score: instantaneous deviation plus
+	// escalation for sustained or widening depegs
 	let depegRiskScore = 0
-	for (const coin of stablecoins) {
+	for (const { coin, escalatedLevels } of tracked) {
 		const deviation = Math.abs(coin.price - 1.0)
-		const mechanismMultiplier = MECHANISM_RISK[coin.mechanism] || 1.0
+		const mechanismMultiplier = MECHANISM_RISK[coin.mechanism]
 		depegRiskScore += deviation * 100 * mechanismMultiplier * 10
+		depegRiskScore += escalatedLevels * ESCALATION_POINTS
 	}
 	depegRiskScore = Math.min(100, Math.round(depegRiskScore))
 
@@ -186,13 +425,115 @@ export function analyzeDepegRisk(prices: StablecoinPricesRaw): DepegAnalysis {
 		depegRiskScore,
 		worstDepeg: worstCoin.symbol,
 		avgDeviation: Math.round(avgDeviation * 10000) / 10000,
+		pegStates: Object.fromEntries(
+			tracked.map(({ coin, offPegSince }): [string, PegState] => [
+				coin.symbol,
+				{ price: coin.price, offPegSince, updatedAt: asOf, severity: coin.severity },
+			]),
+		),
+	}
+}
+
+/**
+ * Analyze liquid staking token pegs against ETH.
+ *
+ * @param prices    - Market prices in ETH by symbol, fetched via fetchLstPrices
+ *                    (lib/data-sources.ts) and median-aggregated in main.ts
+ * @param fairRates - ETH per token by symbol (1 without a rate provider, read
+ *                    on-chain otherwise); tokens without one are skipped
+ * @param universe  - Monitored LSTs
+ * @param history   - Previous cycle's peg state by symbol, shared with the stablecoins
+ * @param asOf      - Time of the prices, unix seconds
+ */
+export function analyzeLstDepegRisk(
+	prices: LstPricesRaw,
+	fairRates: Record<string, number>,
+	universe: LstConfig[],
+	history: PegHistory,
+	asOf: number,
+): LstDepegAnalysis {
+	const tracked = universe
+		.filter(({ symbol }) => prices[symbol] > 0 && fairRates[symbol] > 0)
+		.map((token) => {
+			const marketPrice = prices[token.symbol]
+			const fairRate = fairRates[token.symbol]
+			const pegRatio = marketPrice / fairRate
+			const { peg, ...tracking } = trackPeg(pegRatio, history[token.symbol], asOf, token.thresholds, lstDiscount)
+			const lst: LstPeg = {
+				symbol: token.symbol,
+				marketPrice,
+				fairRate,
+				pegRatio,
+				discount: lstDiscount(pegRatio),
+				mechanism: token.mechanism,
+				...peg,
+			}
+			return { token, lst, ...tracking }
+		})
+	const tokens = tracked.map(({ lst }) => lst)
+
+	const alerts: DepegAlert[] = []
+	for (const { token, lst, trend } of tracked) {
+		if (lst.severity !== null) {
+			alerts.push({
+				symbol: lst.symbol,
+				currentPrice: lst.pegRatio,
+				deviationPercent: Math.round(lst.discount * 100 * 100) / 100,
+				severity: lst.severity,
+				mechanism: lst.mechanism,
+				riskFactor: token.riskFactor,
+				status: lst.status,
+				offPegSeconds: lst.offPegSeconds,
+				trend,
+			})
+		}
+	}
+	alerts.sort(bySeverity)
+
+	// Each token's discount relative to its own critical threshold, weighted
+	// by mechanism, plus escalation for sustained or widening discounts
+	let lstRiskScore = 0
+	for (const { token, lst, escalatedLevels } of tracked) {
+		lstRiskScore += (lst.discount / token.thresholds.critical) * LST_CRITICAL_POINTS * LST_MECHANISM_RISK[lst.mechanism]
+		lstRiskScore += escalatedLevels * ESCALATION_POINTS
+	}
+
+	const worst = tokens.reduce<LstPeg | null>((w, lst) => (lst.discount > (w?.discount ?? 0) ? lst : w), null)
+
+	return {
+		tokens,
+		alerts,
+		lstRiskScore: Math.min(100, Math.round(lstRiskScore)),
+		worstDiscount: worst?.symbol ?? null,
+		pegStates: Object.fromEntries(
+			tracked.map(({ lst, offPegSince }): [string, PegState] => [
+				lst.symbol,
+				{ price: lst.pegRatio, offPegSince, updatedAt: asOf, severity: lst.severity },
+			]),
+		),
 	}
 }
 
+/**
+ * One coin's peg status with time in deviation and velocity, for logs and the prompt
+ */
+export function formatPegStatus(coin: Pick<StablecoinPrice, 'status' | 'offPegSeconds' | 'deviationVelocity'>): string {
+	const parts = [coin.status.toUpperCase()]
+	if (coin.offPegSeconds > 0) parts.push(`${formatHours(coin.offPegSeconds)} off peg`)
+	if (coin.deviationVelocity !== null && coin.status !== 'stable') {
+		parts.push(`${coin.deviationVelocity >= 0 ? '+' : ''}${(coin.deviationVelocity * 100).toFixed(3)}%/h`)
+	}
+	return parts.join(', ')
+}
+
 /**
  * Format depeg analysis for Claude AI prompt enrichment
  */
 export function formatDepegForAI(analysis: DepegAnalysis): string {
+	if (analysis.stablecoins.length === 0) {
+		return 'STABLECOIN DEPEG ANALYSIS: UNAVAILABLE (no stablecoin priced this cycle); do not infer peg stress'
+	}
+
 	const lines: string[] = [
 		'STABLECOIN DEPEG ANALYSIS:',
 		`Depeg Risk Score: ${analysis.depegRiskScore}/100`,
@@ -203,20 +544,57 @@ export function formatDepegForAI(analysis: DepegAnalysis): string {
 
 	for (const coin of analysis.stablecoins) {
 		const deviation = Math.abs(coin.price - 1.0) * 100
-		const status = deviation < 0.5 ? 'STABLE' : deviation < 2 ? 'WATCH' : 'DEPEGGING'
-		lines.push(`  ${coin.symbol}: $${coin.price.toFixed(4)} (${status}, ${deviation.toFixed(2)}% deviation)`)
+		lines.push(
+			`  ${coin.symbol} (${coin.mechanism}): $${coin.price.toFixed(4)} (${formatPegStatus(coin)}, ${deviation.toFixed(2)}% deviation)`,
+		)
+	}
+
+	if (analysis.alerts.length > 0) {
+		lines.push('')
+		lines.push('ACTIVE ALERTS:')
+		for (const alert of analysis.alerts) {
+			const trend = alert.trend ? ` [${alert.trend}]` : ''
+			lines.push(`  [${alert.severity}] ${alert.symbol}: ${alert.deviationPercent}% off peg${trend} - ${alert.riskFactor}`)
+		}
+	}
+
+	lines.push('')
+	lines.push('Consider stablecoin stability when assessing overall DeFi risk. A sustained or widening deviation is a stronger signal than a brief one.')
+
+	return lines.join('\n')
+}
+
+/**
+ * Format LST peg analysis for Claude AI prompt enrichment
+ */
+export function formatLstDepegForAI(analysis: LstDepegAnalysis | null): string {
+	if (!analysis || analysis.tokens.length === 0) {
+		return 'LIQUID STAKING TOKEN PEGS: UNAVAILABLE (no LST priced this cycle); do not infer LST stress'
+	}
+
+	const lines: string[] = [
+		'LIQUID STAKING TOKEN PEGS (market price vs redemption value in ETH):',
+		`LST Risk Score: ${analysis.lstRiskScore}/100`,
+		'',
+	]
+
+	for (const lst of analysis.tokens) {
+		lines.push(
+			`  ${lst.symbol} (${lst.mechanism}): ${lst.marketPrice.toFixed(4)} ETH vs ${lst.fairRate.toFixed(4)} fair (${formatPegStatus(lst)}, ${(lst.discount * 100).toFixed(2)}% discount)`,
+		)
 	}
 
 	if (analysis.alerts.length > 0) {
 		lines.push('')
 		lines.push('ACTIVE ALERTS:')
 		for (const alert of analysis.alerts) {
-			lines.push(`  [${alert.severity}] ${alert.symbol}: ${alert.deviationPercent}% off peg - ${alert.riskFactor}`)
+			const trend = alert.trend ? ` [${alert.trend}]` : ''
+			lines.push(`  [${alert.severity}] ${alert.symbol}: ${alert.deviationPercent}% discount${trend} - ${alert.riskFactor}`)
 		}
 	}
 
 	lines.push('')
-	lines.push('Consider stablecoin stability when assessing overall DeFi risk.')
+	lines.push('LSTs back leveraged staking loops on Aave; a widening discount forces those loops to unwind (see Jun 2022 stETH).')
 
 	return lines.join('\n')
 }
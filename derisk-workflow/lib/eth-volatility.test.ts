@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'bun:test'
+import { type PricePoint, VOLATILITY_WINDOWS, computeEthVolatility, ethVolatilitySchema } from './eth-volatility'
+
+const NOW = 1_700_000_000
+const DAY = VOLATILITY_WINDOWS.vol24h
+
+// Prices spaced `spacing` seconds apart, the last at NOW
+const rounds = (prices: number[], spacing: number): PricePoint[] =>
+	prices.map((price, i) => ({ timestamp: NOW - (prices.length - 1 - i) * spacing, price }))
+
+const earlier = (points: PricePoint[], seconds: number): PricePoint[] =>
+	points.map((point) => ({ ...point, timestamp: point.timestamp - seconds }))
+
+// A steady slide from `from` to `to` in `steps` equal log steps: a drawdown with little volatility
+const slide = (from: number, to: number, steps: number): number[] =>
+	Array.from({ length: steps + 1 }, (_, i) => from * (to / from) ** (i / steps))
+
+// Alternating moves of `size` (log): volatility with little drawdown
+const chop = (size: number, moves: number): number[] =>
+	Array.from({ length: moves + 1 }, (_, i) => 2_000 * Math.exp(i % 2 === 0 ? 0 : size))
+
+describe('computeEthVolatility', () => {
+	it('sorts its input', () => {
+		const points = rounds(slide(2_000, 1_800, 20), 3_600)
+		const shuffled = [...points.slice(10), ...points.slice(0, 10).reverse()]
+		expect(computeEthVolatility(shuffled, NOW)).toEqual(computeEthVolatility(points, NOW))
+	})
+
+	it('is null when the history does not cover the 24h window', () => {
+		expect(computeEthVolatility([], NOW)).toBeNull()
+		expect(computeEthVolatility(rounds([2_000], 3_600), NOW)).toBeNull()
+		// Two rounds, both older than the anchor cutoff
+		expect(computeEthVolatility(earlier(rounds([2_000, 1_900], 3_600), 3 * DAY), NOW)).toBeNull()
+	})
+
+	it('anchors the window on an earlier round at most twice the window old', () => {
+		const anchored = computeEthVolatility(
+			[
+				{ timestamp: NOW - 2 * DAY, price: 2_000 },
+				{ timestamp: NOW, price: 1_800 },
+			],
+			NOW,
+		)
+		expect(anchored?.samples).toBe(2)
+		expect(anchored?.maxDrawdown24h).toBeCloseTo(0.1)
+
+		const tooOld = computeEthVolatility(
+			[
+				{ timestamp: NOW - 2 * DAY - 1, price: 2_000 },
+				{ timestamp: NOW, price: 1_800 },
+			],
+			NOW,
+		)
+		expect(tooOld).toBeNull()
+	})
+
+	it('ignores rounds after asOf and non-positive prices', () => {
+		const points = [...rounds([2_000, 0, 1_900], 3_600), { timestamp: NOW + 60, price: 1_000 }]
+		const vol = computeEthVolatility(points, NOW)
+		expect(vol?.samples).toBe(2)
+		expect(vol?.maxDrawdown24h).toBeCloseTo(0.05)
+	})
+
+	it('leaves the 1h figure out when the last hour has a single round and no anchor', () => {
+		const vol = computeEthVolatility(rounds([2_000, 1_990], 3 * 3_600), NOW)
+		expect(vol?.realizedVol1h).toBeNull()
+		expect(vol?.realizedVol24h).toBeCloseTo(Math.abs(Math.log(1_990 / 2_000)))
+	})
+})
+
+describe('volatility risk score bands', () => {
+	// 100 small steps over ~22h: realized volatility stays below every band
+	const slideScore = (drawdown: number) => computeEthVolatility(rounds(slide(2_000, 2_000 * (1 - drawdown), 100), 800), NOW)
+
+	it('scores the 24h drawdown', () => {
+		expect(slideScore(0.21)?.volatilityRiskScore).toBe(50)
+		expect(slideScore(0.12)?.volatilityRiskScore).toBe(30)
+		expect(slideScore(0.06)?.volatilityRiskScore).toBe(15)
+		expect(slideScore(0.03)?.volatilityRiskScore).toBe(0)
+	})
+
+	// Swings every 40 minutes ending three hours ago, then a quiet round now:
+	// drawdown stays below the bands and the 1h window has no return
+	const chopScore = (size: number, moves: number) =>
+		computeEthVolatility(
+			[...earlier(rounds(chop(size, moves), 2_400), 3 * 3_600), { timestamp: NOW, price: 2_000 }],
+			NOW,
+		)
+
+	it('scores the 24h realized volatility', () => {
+		expect(chopScore(0.01, 16)?.realizedVol24h).toBeCloseTo(0.04)
+		expect(chopScore(0.01, 16)?.realizedVol1h).toBeNull()
+		expect(chopScore(0.01, 16)?.volatilityRiskScore).toBe(10)
+		expect(chopScore(0.01, 30)?.volatilityRiskScore).toBe(20)
+		expect(chopScore(0.02, 20)?.volatilityRiskScore).toBe(30)
+	})
+
+	it('scores the 1h realized volatility', () => {
+		// Four 1% swings within the last hour; 2% realized volatility in both windows
+		const vol = computeEthVolatility(rounds(chop(0.01, 4), 600), NOW)
+		expect(vol?.realizedVol1h).toBeCloseTo(0.02)
+		expect(vol?.volatilityRiskScore).toBe(10)
+	})
+
+	it('caps the score at 100', () => {
+		const crash = computeEthVolatility(rounds([2_000, 1_800, 1_600, 1_400], 900), NOW)
+		expect(crash?.volatilityRiskScore).toBe(100)
+	})
+})
+
+describe('ethVolatilitySchema', () => {
+	it('caps the getRoundData reads per cycle', () => {
+		expect(ethVolatilitySchema.safeParse({ maxRounds: 12, roundStride: 4 }).success).toBe(true)
+		expect(ethVolatilitySchema.safeParse({ maxRounds: 48, roundStride: 1 }).success).toBe(false)
+		expect(ethVolatilitySchema.safeParse({ maxRounds: 12, roundStride: 0 }).success).toBe(false)
+	})
+})
@@ -0,0 +1,157 @@
+/**
+ * DeRisk Protocol - ETH Realized Volatility
+ *
+ * The rule-based ETH adjustment only sees absolute price bands, so a 20%
+ * crash from $4000 scores as calm while a quiet day at $1800 scores as
+ * stress. This module measures the move itself: realized volatility over
+ * 1h and 24h and the 24h max drawdown, from the Chainlink feed's own round
+ * history (every `roundStride`-th round, read with `getRoundData` in main.ts;
+ * each read is one EVM call, so their number is capped). The resulting
+ * volatility risk score is a consensus component (lib/multi-ai-consensus.ts).
+ */
+
+import { z } from 'zod'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// getRoundData calls per cycle, on top of the workflow's other chain reads
+export const MAX_ROUND_READS = 12
+
+export const ethVolatilitySchema = z.object({
+	maxRounds: z.number().int().min(2).max(MAX_ROUND_READS), // Rounds sampled per cycle (one getRoundData call each)
+	roundStride: z.number().int().min(1), // Distance between sampled rounds: 4 reads every 4th round
+})
+
+export type EthVolatilityConfig = z.infer<typeof ethVolatilitySchema>
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// One feed round, oldest first when passed as a series
+export interface PricePoint {
+	timestamp: number // unix seconds (round updatedAt)
+	price: number // USD
+}
+
+export interface EthVolatility {
+	realizedVol1h: number | null // sqrt(sum of squared log returns) over the window, e.g. 0.012 = 1.2%
+	realizedVol24h: number | null
+	maxDrawdown24h: number | null // Largest peak-to-trough fall within 24h, e.g. 0.2 = 20%
+	samples: number // Rounds the 24h figures are computed from
+	volatilityRiskScore: number // 0-100
+}
+
+// ============================================================================
+// Windows
+// ============================================================================
+
+export const VOLATILITY_WINDOWS = {
+	vol1h: 3_600,
+	vol24h: 86_400,
+}
+
+// The round before a window anchors its first return, unless it is older
+// than this multiple of the window (a gap in the history)
+const MAX_ANCHOR_STRETCH = 2
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+/**
+ * Rounds inside the window ending at `asOf`, preceded by the latest earlier
+ * round as anchor. Null when fewer than two prices remain.
+ */
+function windowSeries(points: PricePoint[], asOf: number, window: number): number[] | null {
+	const start = asOf - window
+	const inWindow = points.filter((p) => p.timestamp >= start && p.timestamp <= asOf)
+	const anchor = points.filter((p) => p.timestamp < start && p.timestamp >= asOf - window * MAX_ANCHOR_STRETCH).pop()
+	const series = [...(anchor ? [anchor] : []), ...inWindow].map((p) => p.price).filter((price) => price > 0)
+	return series.length >= 2 ? series : null
+}
+
+function realizedVolatility(series: number[] | null): number | null {
+	if (!series) return null
+	let sumSquares = 0
+	for (let i = 1; i < series.length; i++) {
+		sumSquares += Math.log(series[i] / series[i - 1]) ** 2
+	}
+	return Math.sqrt(sumSquares)
+}
+
+function maxDrawdown(series: number[] | null): number | null {
+	if (!series) return null
+	let peak = series[0]
+	let drawdown = 0
+	for (const price of series) {
+		peak = Math.max(peak, price)
+		drawdown = Math.max(drawdown, (peak - price) / peak)
+	}
+	return drawdown
+}
+
+/**
+ * Volatility risk (0-100) from drawdown and realized volatility bands; the
+ * drawdown dominates because it is what pushes borrowers into liquidation
+ */
+function volatilityRiskScore(vol: Omit<EthVolatility, 'volatilityRiskScore' | 'samples'>): number {
+	let score = 0
+	if (vol.maxDrawdown24h !== null) {
+		if (vol.maxDrawdown24h >= 0.2) score += 50
+		else if (vol.maxDrawdown24h >= 0.1) score += 30
+		else if (vol.maxDrawdown24h >= 0.05) score += 15
+	}
+	if (vol.realizedVol24h !== null) {
+		if (vol.realizedVol24h >= 0.08) score += 30
+		else if (vol.realizedVol24h >= 0.05) score += 20
+		else if (vol.realizedVol24h >= 0.03) score += 10
+	}
+	if (vol.realizedVol1h !== null) {
+		if (vol.realizedVol1h >= 0.03) score += 20
+		else if (vol.realizedVol1h >= 0.015) score += 10
+	}
+	return Math.min(100, score)
+}
+
+/**
+ * Realized volatility and drawdown of a price series (any order) as of
+ * `asOf`. Null when the history does not cover the 24h window at all.
+ */
+export function computeEthVolatility(points: PricePoint[], asOf: number): EthVolatility | null {
+	const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp)
+	const series24h = windowSeries(sorted, asOf, VOLATILITY_WINDOWS.vol24h)
+	if (!series24h) return null
+
+	const measures = {
+		realizedVol1h: realizedVolatility(windowSeries(sorted, asOf, VOLATILITY_WINDOWS.vol1h)),
+		realizedVol24h: realizedVolatility(series24h),
+		maxDrawdown24h: maxDrawdown(series24h),
+	}
+	return { ...measures, samples: series24h.length, volatilityRiskScore: volatilityRiskScore(measures) }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export const formatPercent = (value: number | null): string => (value === null ? 'n/a' : `${(value * 100).toFixed(2)}%`)
+
+/**
+ * Format ETH volatility for inclusion in the AI risk assessment prompt
+ */
+export function formatVolatilityForAI(vol: EthVolatility | null): string {
+	if (!vol) {
+		return 'ETH REALIZED VOLATILITY: UNAVAILABLE (no usable feed history); do not infer price stress'
+	}
+
+	return [
+		`ETH REALIZED VOLATILITY (Chainlink round history, ${vol.samples} rounds):`,
+		`Volatility Risk Score: ${vol.volatilityRiskScore}/100`,
+		`Realized Vol: 1h ${formatPercent(vol.realizedVol1h)}, 24h ${formatPercent(vol.realizedVol24h)}`,
+		`Max Drawdown (24h): ${formatPercent(vol.maxDrawdown24h)}`,
+		'Judge ETH stress by the size and speed of the move, not the price level.',
+	].join('\n')
+}
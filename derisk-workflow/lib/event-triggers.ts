@@ -0,0 +1,158 @@
+/**
+ * DeRisk Protocol - Event-Driven Reassessment
+ *
+ * The cron cycle leaves up to five minutes between an exploit and the next
+ * report. Log triggers on evms[0] close that gap: large Aave `Withdraw` and
+ * `LiquidationCall` events on the monitored reserves, and the oracle's own
+ * `StalenessAlert`, run an immediate assessment (main.ts).
+ *
+ * Workflow executions share no memory, so the debounce goes through the
+ * oracle: an event within `debounceSeconds` of the last published report is
+ * skipped, and a burst of liquidations produces one report, not one per log.
+ * Executions racing on the same block all read the same timestamp; the
+ * oracle drops any report within `minReportInterval` of the one it accepted.
+ */
+
+import type { EVMLog } from '@chainlink/cre-sdk'
+import { type Address, type Hex, bytesToHex, decodeEventLog, toEventSelector } from 'viem'
+import { z } from 'zod'
+import { AavePool, DeRiskOracle } from '../../contracts/abi'
+import { type LendingAsset, toUsd } from './lending-utilization'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const eventTriggersSchema = z.object({
+	pool: z.string(), // Aave V3 Pool on evms[0]; its reserves are lendingMarket.assets
+	minWithdrawUsd: z.number().positive(), // Smaller withdrawals do not trigger a reassessment
+	minLiquidationUsd: z.number().positive(), // Seized collateral value
+	debounceSeconds: z.number().int().nonnegative(), // Minimum gap after the last published report
+})
+
+export type EventTriggersConfig = z.infer<typeof eventTriggersSchema>
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TriggerEvent =
+	| { kind: 'withdraw'; reserve: Address; amount: bigint }
+	| { kind: 'liquidation'; collateralAsset: Address; collateralAmount: bigint; debtAsset: Address }
+	| { kind: 'staleness'; lastUpdate: number; currentTime: number }
+
+// ============================================================================
+// Log Filters
+// ============================================================================
+
+export const WITHDRAW_TOPIC = toEventSelector('Withdraw(address,address,address,uint256)')
+export const LIQUIDATION_CALL_TOPIC = toEventSelector('LiquidationCall(address,address,address,uint256,uint256,address,bool)')
+export const STALENESS_ALERT_TOPIC = toEventSelector('StalenessAlert(uint256,uint256)')
+
+/**
+ * Pool filter: both events index the reserve first (Withdraw `reserve`,
+ * LiquidationCall `collateralAsset`), so the DON only fires for reserves the
+ * workflow can price
+ */
+export const poolLogTopics = (assets: LendingAsset[]): Hex[][] => [
+	[WITHDRAW_TOPIC, LIQUIDATION_CALL_TOPIC],
+	assets.map((asset) => `0x${asset.address.slice(2).toLowerCase().padStart(64, '0')}` as Hex),
+]
+
+export const oracleLogTopics = (): Hex[][] => [[STALENESS_ALERT_TOPIC]]
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * The trigger event in a log, null for anything else (a removed log, an
+ * unrelated event, malformed data)
+ */
+export function decodeTriggerLog(log: Pick<EVMLog, 'topics' | 'data' | 'removed'>): TriggerEvent | null {
+	if (log.removed || log.topics.length === 0) return null
+	const [signature, ...args] = log.topics.map((topic) => bytesToHex(topic))
+	try {
+		const decoded = decodeEventLog({
+			abi: [...AavePool, ...DeRiskOracle.filter((item) => item.type === 'event' && item.name === 'StalenessAlert')],
+			data: bytesToHex(log.data),
+			topics: [signature, ...args],
+		})
+		switch (decoded.eventName) {
+			case 'Withdraw':
+				return { kind: 'withdraw', reserve: decoded.args.reserve, amount: decoded.args.amount }
+			case 'LiquidationCall':
+				return {
+					kind: 'liquidation',
+					collateralAsset: decoded.args.collateralAsset,
+					collateralAmount: decoded.args.liquidatedCollateralAmount,
+					debtAsset: decoded.args.debtAsset,
+				}
+			case 'StalenessAlert':
+				return {
+					kind: 'staleness',
+					lastUpdate: Number(decoded.args.lastUpdate),
+					currentTime: Number(decoded.args.currentTime),
+				}
+		}
+	} catch {
+		// Not one of the trigger events
+	}
+	return null
+}
+
+// ============================================================================
+// Gating
+// ============================================================================
+
+/**
+ * The monitored reserve a pool event moves, undefined for staleness alerts
+ * and unknown reserves
+ */
+export function eventAsset(event: TriggerEvent, assets: LendingAsset[]): LendingAsset | undefined {
+	if (event.kind === 'staleness') return undefined
+	const address = (event.kind === 'withdraw' ? event.reserve : event.collateralAsset).toLowerCase()
+	return assets.find((asset) => asset.address.toLowerCase() === address)
+}
+
+/**
+ * Whether a pool event is large enough to reassess, given the reserve's USD
+ * price (8 decimals). Staleness alerts always qualify.
+ */
+export function isLargeEvent(
+	event: TriggerEvent,
+	asset: LendingAsset | undefined,
+	price: bigint,
+	config: EventTriggersConfig,
+): { large: boolean; valueUsd: number | null } {
+	if (event.kind === 'staleness') return { large: true, valueUsd: null }
+	if (!asset || price <= 0n) return { large: false, valueUsd: null }
+
+	const amount = event.kind === 'withdraw' ? event.amount : event.collateralAmount
+	const valueUsd = toUsd(amount, asset.decimals, price)
+	const minimum = event.kind === 'withdraw' ? config.minWithdrawUsd : config.minLiquidationUsd
+	return { large: valueUsd >= minimum, valueUsd }
+}
+
+/**
+ * Seconds until an event may publish again, 0 when the debounce has elapsed
+ * or the oracle has never been updated
+ */
+export const debounceRemaining = (lastReport: number, now: number, debounceSeconds: number): number =>
+	lastReport === 0 ? 0 : Math.max(0, lastReport + debounceSeconds - now)
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export function describeTriggerEvent(event: TriggerEvent, asset?: LendingAsset): string {
+	const symbol = asset?.symbol ?? 'unknown reserve'
+	switch (event.kind) {
+		case 'withdraw':
+			return `Aave Withdraw of ${symbol}`
+		case 'liquidation':
+			return `Aave LiquidationCall seizing ${symbol}`
+		case 'staleness':
+			return `Oracle StalenessAlert (last update ${event.currentTime - event.lastUpdate}s before the alert)`
+	}
+}
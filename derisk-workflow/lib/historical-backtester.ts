@@ -15,8 +15,24 @@
  */
 
 import { analyzeContagion, formatContagionForAI, type ProtocolMetrics } from './contagion-analyzer'
-import { analyzeDepegRisk } from './depeg-monitor'
-import { computeConsensus, computeRuleBasedScore, computeContagionAdjustedScore } from './multi-ai-consensus'
+import {
+	analyzeDepegRisk,
+	DEFAULT_STABLECOINS,
+	MECHANISM_RISK,
+	type DepegAnalysis,
+	type PegHistory,
+	type StablecoinConfig,
+} from './depeg-monitor'
+import {
+	computeConsensus,
+	computeRuleBasedScore,
+	computeContagionAdjustedScore,
+	computeDepegAdjustedScore,
+	computeVolatilityAdjustedScore,
+} from './multi-ai-consensus'
+import { computeEthVolatility, type PricePoint } from './eth-volatility'
+import { DEFAULT_PROTOCOLS, toProtocolReadings, type ProtocolReading } from './protocol-registry'
+import { computeTvlTrend, toChangeRates, TREND_WINDOWS, type TvlHistory, type TvlHistoryPoint } from './tvl-trend'
 
 // ============================================================================
 // Types
@@ -29,9 +45,7 @@ export interface DailySnapshot {
 	compoundTvl: number    // USD
 	makerTvl: number       // USD
 	ethPrice: number       // USD
-	ustPrice?: number      // UST peg ($1.00 = normal)
-	usdcPrice?: number
-	usdtPrice?: number
+	stablecoinPrices: Record<string, number> // By symbol ($1.00 = normal); coins not listed were not archived
 	notes?: string         // What happened that day
 }
 
@@ -79,17 +93,17 @@ export interface BacktestReport {
 
 const TERRA_LUNA_DATA: DailySnapshot[] = [
 	// Normal period — baseline monitoring
-	{ date: '2022-04-09', daysBeforeEvent: 30, aaveTvl: 12.8e9, compoundTvl: 8.2e9, makerTvl: 17.5e9, ethPrice: 3230, ustPrice: 1.0, usdcPrice: 1.0, usdtPrice: 1.0, notes: 'Normal market conditions' },
-	{ date: '2022-04-19', daysBeforeEvent: 20, aaveTvl: 12.2e9, compoundTvl: 7.8e9, makerTvl: 16.8e9, ethPrice: 2960, ustPrice: 0.999, usdcPrice: 1.0, usdtPrice: 1.0, notes: 'Slow TVL decline, market soft' },
-	{ date: '2022-04-29', daysBeforeEvent: 10, aaveTvl: 11.4e9, compoundTvl: 7.1e9, makerTvl: 15.5e9, ethPrice: 2700, ustPrice: 0.997, usdcPrice: 1.0, usdtPrice: 0.999, notes: 'Anchor Protocol TVL dropping, smart money exiting' },
+	{ date: '2022-04-09', daysBeforeEvent: 30, aaveTvl: 12.8e9, compoundTvl: 8.2e9, makerTvl: 17.5e9, ethPrice: 3230, stablecoinPrices: { UST: 1.0, USDC: 1.0, USDT: 1.0 }, notes: 'Normal market conditions' },
+	{ date: '2022-04-19', daysBeforeEvent: 20, aaveTvl: 12.2e9, compoundTvl: 7.8e9, makerTvl: 16.8e9, ethPrice: 2960, stablecoinPrices: { UST: 0.999, USDC: 1.0, USDT: 1.0 }, notes: 'Slow TVL decline, market soft' },
+	{ date: '2022-04-29', daysBeforeEvent: 10, aaveTvl: 11.4e9, compoundTvl: 7.1e9, makerTvl: 15.5e9, ethPrice: 2700, stablecoinPrices: { UST: 0.997, USDC: 1.0, USDT: 0.999 }, notes: 'Anchor Protocol TVL dropping, smart money exiting' },
 	// Stress builds — our system would catch the trend
-	{ date: '2022-05-01', daysBeforeEvent: 8, aaveTvl: 11.1e9, compoundTvl: 6.9e9, makerTvl: 15.0e9, ethPrice: 2600, ustPrice: 0.993, usdcPrice: 1.0, usdtPrice: 0.999, notes: 'Anchor Protocol withdrawal spike, $2B outflow in 48h' },
-	{ date: '2022-05-03', daysBeforeEvent: 6, aaveTvl: 10.8e9, compoundTvl: 6.7e9, makerTvl: 14.5e9, ethPrice: 2500, ustPrice: 0.988, usdcPrice: 1.001, usdtPrice: 0.999, notes: 'Large UST sells on Curve 3pool, peg stress visible' },
-	{ date: '2022-05-05', daysBeforeEvent: 4, aaveTvl: 10.2e9, compoundTvl: 6.3e9, makerTvl: 13.8e9, ethPrice: 2400, ustPrice: 0.982, usdcPrice: 1.001, usdtPrice: 0.998, notes: '*** UST drops to $0.982 — FIRST CLEAR DEPEG SIGNAL' },
-	{ date: '2022-05-06', daysBeforeEvent: 3, aaveTvl: 9.8e9, compoundTvl: 6.0e9, makerTvl: 13.2e9, ethPrice: 2300, ustPrice: 0.975, usdcPrice: 1.001, usdtPrice: 0.998, notes: '*** UST peg unstable $0.975, LFG deploys BTC reserves' },
-	{ date: '2022-05-07', daysBeforeEvent: 2, aaveTvl: 9.5e9, compoundTvl: 5.8e9, makerTvl: 12.8e9, ethPrice: 2200, ustPrice: 0.94, usdcPrice: 1.002, usdtPrice: 0.998, notes: '*** UST DEPEG CONFIRMED: $0.94, Curve pool imbalanced' },
-	{ date: '2022-05-08', daysBeforeEvent: 1, aaveTvl: 8.8e9, compoundTvl: 5.2e9, makerTvl: 11.5e9, ethPrice: 1900, ustPrice: 0.68, usdcPrice: 1.003, usdtPrice: 0.997, notes: '*** UST CRASHES to $0.68, LUNA hyperinflation, DeFi bank run' },
-	{ date: '2022-05-09', daysBeforeEvent: 0, aaveTvl: 7.5e9, compoundTvl: 4.5e9, makerTvl: 10.0e9, ethPrice: 1700, ustPrice: 0.30, usdcPrice: 1.005, usdtPrice: 0.995, notes: '*** TOTAL COLLAPSE: UST $0.30, LUNA near zero, $60B wiped' },
+	{ date: '2022-05-01', daysBeforeEvent: 8, aaveTvl: 11.1e9, compoundTvl: 6.9e9, makerTvl: 15.0e9, ethPrice: 2600, stablecoinPrices: { UST: 0.993, USDC: 1.0, USDT: 0.999 }, notes: 'Anchor Protocol withdrawal spike, $2B outflow in 48h' },
+	{ date: '2022-05-03', daysBeforeEvent: 6, aaveTvl: 10.8e9, compoundTvl: 6.7e9, makerTvl: 14.5e9, ethPrice: 2500, stablecoinPrices: { UST: 0.988, USDC: 1.001, USDT: 0.999 }, notes: 'Large UST sells on Curve 3pool, peg stress visible' },
+	{ date: '2022-05-05', daysBeforeEvent: 4, aaveTvl: 10.2e9, compoundTvl: 6.3e9, makerTvl: 13.8e9, ethPrice: 2400, stablecoinPrices: { UST: 0.982, USDC: 1.001, USDT: 0.998 }, notes: '*** UST drops to $0.982 — FIRST CLEAR DEPEG SIGNAL' },
+	{ date: '2022-05-06', daysBeforeEvent: 3, aaveTvl: 9.8e9, compoundTvl: 6.0e9, makerTvl: 13.2e9, ethPrice: 2300, stablecoinPrices: { UST: 0.975, USDC: 1.001, USDT: 0.998 }, notes: '*** UST peg unstable $0.975, LFG deploys BTC reserves' },
+	{ date: '2022-05-07', daysBeforeEvent: 2, aaveTvl: 9.5e9, compoundTvl: 5.8e9, makerTvl: 12.8e9, ethPrice: 2200, stablecoinPrices: { UST: 0.94, USDC: 1.002, USDT: 0.998 }, notes: '*** UST DEPEG CONFIRMED: $0.94, Curve pool imbalanced' },
+	{ date: '2022-05-08', daysBeforeEvent: 1, aaveTvl: 8.8e9, compoundTvl: 5.2e9, makerTvl: 11.5e9, ethPrice: 1900, stablecoinPrices: { UST: 0.68, USDC: 1.003, USDT: 0.997 }, notes: '*** UST CRASHES to $0.68, LUNA hyperinflation, DeFi bank run' },
+	{ date: '2022-05-09', daysBeforeEvent: 0, aaveTvl: 7.5e9, compoundTvl: 4.5e9, makerTvl: 10.0e9, ethPrice: 1700, stablecoinPrices: { UST: 0.30, USDC: 1.005, USDT: 0.995 }, notes: '*** TOTAL COLLAPSE: UST $0.30, LUNA near zero, $60B wiped' },
 ]
 
 // ============================================================================
@@ -97,14 +111,14 @@ const TERRA_LUNA_DATA: DailySnapshot[] = [
 // ============================================================================
 
 const FTX_COLLAPSE_DATA: DailySnapshot[] = [
-	{ date: '2022-10-30', daysBeforeEvent: 11, aaveTvl: 5.8e9, compoundTvl: 3.2e9, makerTvl: 8.1e9, ethPrice: 1580, usdcPrice: 1.0, usdtPrice: 0.999, notes: 'Pre-FTX normal conditions' },
-	{ date: '2022-11-01', daysBeforeEvent: 9, aaveTvl: 5.7e9, compoundTvl: 3.1e9, makerTvl: 8.0e9, ethPrice: 1550, usdcPrice: 1.0, usdtPrice: 0.999, notes: 'CoinDesk Alameda balance sheet article (Nov 2)' },
-	{ date: '2022-11-03', daysBeforeEvent: 7, aaveTvl: 5.5e9, compoundTvl: 3.0e9, makerTvl: 7.8e9, ethPrice: 1520, usdcPrice: 1.0, usdtPrice: 0.998, notes: 'Market starting to react to Alameda revelations' },
-	{ date: '2022-11-05', daysBeforeEvent: 5, aaveTvl: 5.2e9, compoundTvl: 2.8e9, makerTvl: 7.4e9, ethPrice: 1450, usdcPrice: 1.0, usdtPrice: 0.997, notes: 'Binance announces FTT sell-off' },
-	{ date: '2022-11-07', daysBeforeEvent: 3, aaveTvl: 4.8e9, compoundTvl: 2.5e9, makerTvl: 6.8e9, ethPrice: 1350, usdcPrice: 1.001, usdtPrice: 0.995, notes: '*** FTT price crashes 80%, DeFi outflows accelerate' },
-	{ date: '2022-11-08', daysBeforeEvent: 2, aaveTvl: 4.3e9, compoundTvl: 2.2e9, makerTvl: 6.2e9, ethPrice: 1200, usdcPrice: 1.002, usdtPrice: 0.993, notes: '*** FTX halts withdrawals, Alameda liquidations begin' },
-	{ date: '2022-11-09', daysBeforeEvent: 1, aaveTvl: 3.9e9, compoundTvl: 2.0e9, makerTvl: 5.8e9, ethPrice: 1100, usdcPrice: 1.003, usdtPrice: 0.99, notes: '*** Binance pulls out of FTX acquisition deal' },
-	{ date: '2022-11-10', daysBeforeEvent: 0, aaveTvl: 3.5e9, compoundTvl: 1.8e9, makerTvl: 5.2e9, ethPrice: 1070, usdcPrice: 1.003, usdtPrice: 0.985, notes: '*** FTX FILES BANKRUPTCY. $8B+ customer funds missing' },
+	{ date: '2022-10-30', daysBeforeEvent: 11, aaveTvl: 5.8e9, compoundTvl: 3.2e9, makerTvl: 8.1e9, ethPrice: 1580, stablecoinPrices: { USDC: 1.0, USDT: 0.999 }, notes: 'Pre-FTX normal conditions' },
+	{ date: '2022-11-01', daysBeforeEvent: 9, aaveTvl: 5.7e9, compoundTvl: 3.1e9, makerTvl: 8.0e9, ethPrice: 1550, stablecoinPrices: { USDC: 1.0, USDT: 0.999 }, notes: 'CoinDesk Alameda balance sheet article (Nov 2)' },
+	{ date: '2022-11-03', daysBeforeEvent: 7, aaveTvl: 5.5e9, compoundTvl: 3.0e9, makerTvl: 7.8e9, ethPrice: 1520, stablecoinPrices: { USDC: 1.0, USDT: 0.998 }, notes: 'Market starting to react to Alameda revelations' },
+	{ date: '2022-11-05', daysBeforeEvent: 5, aaveTvl: 5.2e9, compoundTvl: 2.8e9, makerTvl: 7.4e9, ethPrice: 1450, stablecoinPrices: { USDC: 1.0, USDT: 0.997 }, notes: 'Binance announces FTT sell-off' },
+	{ date: '2022-11-07', daysBeforeEvent: 3, aaveTvl: 4.8e9, compoundTvl: 2.5e9, makerTvl: 6.8e9, ethPrice: 1350, stablecoinPrices: { USDC: 1.001, USDT: 0.995 }, notes: '*** FTT price crashes 80%, DeFi outflows accelerate' },
+	{ date: '2022-11-08', daysBeforeEvent: 2, aaveTvl: 4.3e9, compoundTvl: 2.2e9, makerTvl: 6.2e9, ethPrice: 1200, stablecoinPrices: { USDC: 1.002, USDT: 0.993 }, notes: '*** FTX halts withdrawals, Alameda liquidations begin' },
+	{ date: '2022-11-09', daysBeforeEvent: 1, aaveTvl: 3.9e9, compoundTvl: 2.0e9, makerTvl: 5.8e9, ethPrice: 1100, stablecoinPrices: { USDC: 1.003, USDT: 0.99 }, notes: '*** Binance pulls out of FTX acquisition deal' },
+	{ date: '2022-11-10', daysBeforeEvent: 0, aaveTvl: 3.5e9, compoundTvl: 1.8e9, makerTvl: 5.2e9, ethPrice: 1070, stablecoinPrices: { USDC: 1.003, USDT: 0.985 }, notes: '*** FTX FILES BANKRUPTCY. $8B+ customer funds missing' },
 ]
 
 // ============================================================================
@@ -112,12 +126,12 @@ const FTX_COLLAPSE_DATA: DailySnapshot[] = [
 // ============================================================================
 
 const EULER_HACK_DATA: DailySnapshot[] = [
-	{ date: '2023-03-06', daysBeforeEvent: 7, aaveTvl: 6.2e9, compoundTvl: 2.8e9, makerTvl: 7.5e9, ethPrice: 1560, usdcPrice: 1.0, usdtPrice: 1.0, notes: 'Normal DeFi operations' },
-	{ date: '2023-03-08', daysBeforeEvent: 5, aaveTvl: 6.1e9, compoundTvl: 2.7e9, makerTvl: 7.3e9, ethPrice: 1540, usdcPrice: 1.0, usdtPrice: 1.0, notes: 'SVB concerns starting (banking stress)' },
-	{ date: '2023-03-10', daysBeforeEvent: 3, aaveTvl: 5.8e9, compoundTvl: 2.5e9, makerTvl: 6.8e9, ethPrice: 1430, usdcPrice: 0.99, usdtPrice: 0.999, notes: '*** SVB CLOSES: USDC depeg begins (Circle had $3.3B in SVB)' },
-	{ date: '2023-03-11', daysBeforeEvent: 2, aaveTvl: 5.2e9, compoundTvl: 2.2e9, makerTvl: 6.0e9, ethPrice: 1380, usdcPrice: 0.87, usdtPrice: 0.998, notes: '*** USDC CRASHES to $0.87, DAI follows to $0.90' },
-	{ date: '2023-03-12', daysBeforeEvent: 1, aaveTvl: 5.5e9, compoundTvl: 2.4e9, makerTvl: 6.5e9, ethPrice: 1470, usdcPrice: 0.97, usdtPrice: 1.0, notes: 'Fed backstop announced, USDC recovering' },
-	{ date: '2023-03-13', daysBeforeEvent: 0, aaveTvl: 5.3e9, compoundTvl: 2.3e9, makerTvl: 6.3e9, ethPrice: 1500, usdcPrice: 0.995, usdtPrice: 1.0, notes: '*** EULER HACKED: $197M flash loan exploit on lending protocol' },
+	{ date: '2023-03-06', daysBeforeEvent: 7, aaveTvl: 6.2e9, compoundTvl: 2.8e9, makerTvl: 7.5e9, ethPrice: 1560, stablecoinPrices: { USDC: 1.0, USDT: 1.0 }, notes: 'Normal DeFi operations' },
+	{ date: '2023-03-08', daysBeforeEvent: 5, aaveTvl: 6.1e9, compoundTvl: 2.7e9, makerTvl: 7.3e9, ethPrice: 1540, stablecoinPrices: { USDC: 1.0, USDT: 1.0 }, notes: 'SVB concerns starting (banking stress)' },
+	{ date: '2023-03-10', daysBeforeEvent: 3, aaveTvl: 5.8e9, compoundTvl: 2.5e9, makerTvl: 6.8e9, ethPrice: 1430, stablecoinPrices: { USDC: 0.99, USDT: 0.999 }, notes: '*** SVB CLOSES: USDC depeg begins (Circle had $3.3B in SVB)' },
+	{ date: '2023-03-11', daysBeforeEvent: 2, aaveTvl: 5.2e9, compoundTvl: 2.2e9, makerTvl: 6.0e9, ethPrice: 1380, stablecoinPrices: { USDC: 0.87, USDT: 0.998 }, notes: '*** USDC CRASHES to $0.87, DAI follows to $0.90' },
+	{ date: '2023-03-12', daysBeforeEvent: 1, aaveTvl: 5.5e9, compoundTvl: 2.4e9, makerTvl: 6.5e9, ethPrice: 1470, stablecoinPrices: { USDC: 0.97, USDT: 1.0 }, notes: 'Fed backstop announced, USDC recovering' },
+	{ date: '2023-03-13', daysBeforeEvent: 0, aaveTvl: 5.3e9, compoundTvl: 2.3e9, makerTvl: 6.3e9, ethPrice: 1500, stablecoinPrices: { USDC: 0.995, USDT: 1.0 }, notes: '*** EULER HACKED: $197M flash loan exploit on lending protocol' },
 ]
 
 // ============================================================================
@@ -125,66 +139,133 @@ const EULER_HACK_DATA: DailySnapshot[] = [
 // ============================================================================
 
 const CURVE_EXPLOIT_DATA: DailySnapshot[] = [
-	{ date: '2023-07-23', daysBeforeEvent: 7, aaveTvl: 7.8e9, compoundTvl: 2.5e9, makerTvl: 5.8e9, ethPrice: 1850, usdcPrice: 1.0, usdtPrice: 1.0, notes: 'Normal operations, CRV lending positions building' },
-	{ date: '2023-07-25', daysBeforeEvent: 5, aaveTvl: 7.7e9, compoundTvl: 2.5e9, makerTvl: 5.7e9, ethPrice: 1840, usdcPrice: 1.0, usdtPrice: 1.0, notes: 'Vyper compiler vulnerability disclosed (not yet exploited)' },
-	{ date: '2023-07-27', daysBeforeEvent: 3, aaveTvl: 7.5e9, compoundTvl: 2.4e9, makerTvl: 5.6e9, ethPrice: 1820, usdcPrice: 1.0, usdtPrice: 1.0, notes: 'Smart money starting to exit Curve pools' },
-	{ date: '2023-07-29', daysBeforeEvent: 1, aaveTvl: 7.2e9, compoundTvl: 2.3e9, makerTvl: 5.4e9, ethPrice: 1780, usdcPrice: 1.0, usdtPrice: 0.999, notes: 'CRV price dropping, Aave liquidation risk for CRV borrowers' },
-	{ date: '2023-07-30', daysBeforeEvent: 0, aaveTvl: 6.5e9, compoundTvl: 2.1e9, makerTvl: 5.0e9, ethPrice: 1650, usdcPrice: 1.0, usdtPrice: 0.998, notes: '*** CURVE EXPLOITED: Vyper reentrancy bug, $70M stolen from multiple pools' },
+	{ date: '2023-07-23', daysBeforeEvent: 7, aaveTvl: 7.8e9, compoundTvl: 2.5e9, makerTvl: 5.8e9, ethPrice: 1850, stablecoinPrices: { USDC: 1.0, USDT: 1.0 }, notes: 'Normal operations, CRV lending positions building' },
+	{ date: '2023-07-25', daysBeforeEvent: 5, aaveTvl: 7.7e9, compoundTvl: 2.5e9, makerTvl: 5.7e9, ethPrice: 1840, stablecoinPrices: { USDC: 1.0, USDT: 1.0 }, notes: 'Vyper compiler vulnerability disclosed (not yet exploited)' },
+	{ date: '2023-07-27', daysBeforeEvent: 3, aaveTvl: 7.5e9, compoundTvl: 2.4e9, makerTvl: 5.6e9, ethPrice: 1820, stablecoinPrices: { USDC: 1.0, USDT: 1.0 }, notes: 'Smart money starting to exit Curve pools' },
+	{ date: '2023-07-29', daysBeforeEvent: 1, aaveTvl: 7.2e9, compoundTvl: 2.3e9, makerTvl: 5.4e9, ethPrice: 1780, stablecoinPrices: { USDC: 1.0, USDT: 0.999 }, notes: 'CRV price dropping, Aave liquidation risk for CRV borrowers' },
+	{ date: '2023-07-30', daysBeforeEvent: 0, aaveTvl: 6.5e9, compoundTvl: 2.1e9, makerTvl: 5.0e9, ethPrice: 1650, stablecoinPrices: { USDC: 1.0, USDT: 0.998 }, notes: '*** CURVE EXPLOITED: Vyper reentrancy bug, $70M stolen from multiple pools' },
 ]
 
 // ============================================================================
 // Scoring Engine (runs our actual algorithms on historical data)
 // ============================================================================
 
-function scoreDay(snapshot: DailySnapshot): BacktestDayResult {
-	// Run our contagion analysis
-	const protocols: ProtocolMetrics[] = [
-		{ name: 'Aave V3', tvl: snapshot.aaveTvl, riskScore: 0 },
-		{ name: 'Compound V3', tvl: snapshot.compoundTvl, riskScore: 0 },
-		{ name: 'MakerDAO', tvl: snapshot.makerTvl, riskScore: 0 },
-	]
-	const contagion = analyzeContagion(protocols)
-
-	// Run our depeg analysis
-	const depeg = analyzeDepegRisk(
-		snapshot.ethPrice,
-		snapshot.aaveTvl,
-		snapshot.compoundTvl,
-		snapshot.makerTvl,
-	)
+// Archived events also need UST on top of the live default universe
+const BACKTEST_STABLECOINS: StablecoinConfig[] = [
+	...DEFAULT_STABLECOINS,
+	{
+		symbol: 'UST',
+		priceId: 'terrausd',
+		mechanism: 'algorithmic',
+		riskFactor: 'Terra algorithmic stablecoin backed by LUNA mint/burn. Anchor yield drove demand; a run becomes a death spiral.',
+	},
+]
 
-	// Override depeg prices with actual historical data if available
-	let depegRiskOverride = depeg.depegRiskScore
-	if (snapshot.ustPrice !== undefined && snapshot.ustPrice < 0.98) {
-		// UST depeg dramatically increases risk (trigger at 2% deviation)
-		depegRiskOverride = Math.min(100, Math.round((1 - snapshot.ustPrice) * 200))
+// Archived snapshots cover the original three-protocol registry
+const toReadings = (snapshot: DailySnapshot): ProtocolReading[] =>
+	toProtocolReadings(DEFAULT_PROTOCOLS, {
+		aave: snapshot.aaveTvl,
+		compound: snapshot.compoundTvl,
+		maker: snapshot.makerTvl,
+	})
+
+const snapshotTime = (snapshot: DailySnapshot): number => Date.parse(`${snapshot.date}T00:00:00Z`) / 1000
+
+const toHistoryPoint = (snapshot: DailySnapshot): TvlHistoryPoint => ({
+	timestamp: snapshotTime(snapshot),
+	totalTvl: snapshot.aaveTvl + snapshot.compoundTvl + snapshot.makerTvl,
+	riskScore: 0, // Not used by the trend rates
+})
+
+/**
+ * The oracle history as it would have looked on day `index`: the prior day
+ * as previous cycle and, per window, the latest earlier day at least that old
+ */
+function historyAt(snapshots: DailySnapshot[], index: number): TvlHistory {
+	const earlier = snapshots.slice(0, index)
+	const asOf = snapshotTime(snapshots[index])
+	const latestAtLeast = (age: number): TvlHistoryPoint | null => {
+		const match = earlier.filter((snap) => snapshotTime(snap) <= asOf - age).pop()
+		return match ? toHistoryPoint(match) : null
 	}
-	if (snapshot.usdcPrice !== undefined && snapshot.usdcPrice < 0.98) {
-		depegRiskOverride = Math.min(100, Math.max(depegRiskOverride, Math.round((1 - snapshot.usdcPrice) * 200)))
+	const previous = earlier[earlier.length - 1]
+
+	return {
+		previous: previous ? toHistoryPoint(previous) : null,
+		windows: {
+			change1h: latestAtLeast(TREND_WINDOWS.change1h),
+			change24h: latestAtLeast(TREND_WINDOWS.change24h),
+			change7d: latestAtLeast(TREND_WINDOWS.change7d),
+		},
+		protocolTvls: previous ? { aave: previous.aaveTvl, compound: previous.compoundTvl, maker: previous.makerTvl } : {},
 	}
+}
 
-	// Run rule-based scoring
-	const ruleBasedScore = computeRuleBasedScore(
-		snapshot.aaveTvl, snapshot.compoundTvl, snapshot.makerTvl, snapshot.ethPrice,
-	)
+/**
+ * Daily ETH closes up to day `index`, standing in for the feed's round history
+ * (day-over-day moves only, so the 1h volatility window stays empty)
+ */
+const ethPricesAt = (snapshots: DailySnapshot[], index: number): PricePoint[] =>
+	snapshots.slice(0, index + 1).map((snap) => ({ timestamp: snapshotTime(snap), price: snap.ethPrice }))
+
+function scoreDay(
+	snapshot: DailySnapshot,
+	history: TvlHistory,
+	pegHistory: PegHistory,
+	ethPrices: PricePoint[],
+): { result: BacktestDayResult; pegStates: PegHistory } {
+	const readings = toReadings(snapshot)
+
+	// Run our contagion analysis
+	const protocols: ProtocolMetrics[] = readings.map(({ protocol, tvl }) => ({
+		key: protocol.key,
+		name: protocol.name,
+		category: protocol.category,
+		tvl,
+		riskScore: 0,
+	}))
+	const contagion = analyzeContagion(protocols, null, []) // No archived position snapshots or LST prices
+
+	// Run our depeg analysis on the archived stablecoin prices, with the
+	// preceding days' peg state for time in deviation
+	const depeg = analyzeDepegRisk(snapshot.stablecoinPrices, BACKTEST_STABLECOINS, pegHistory, snapshotTime(snapshot))
+
+	// Run rule-based scoring, with TVL velocity from the preceding days
+	// (no archived lending utilization, so that signal sits the replay out)
+	const trend = computeTvlTrend(readings, history, snapshotTime(snapshot))
+	const ruleBasedScore = computeRuleBasedScore(readings, snapshot.ethPrice, toChangeRates(trend), null)
 
 	// Compute contagion-adjusted score
 	const contagionAdjusted = computeContagionAdjustedScore(
 		ruleBasedScore.score, contagion.aggregateContagionRisk,
 	)
 
+	// Compute depeg-adjusted score
+	const depegAdjusted = computeDepegAdjustedScore(ruleBasedScore.score, depeg.depegRiskScore)
+
+	// Compute volatility-adjusted score from the day-over-day ETH move
+	const ethVolatility = computeEthVolatility(ethPrices, snapshotTime(snapshot))
+	const volatilityAdjusted = computeVolatilityAdjustedScore(ruleBasedScore.score, ethVolatility?.volatilityRiskScore ?? null)
+
 	// Simulate Claude AI scoring (holistic multi-signal analysis)
-	const claudeSimScore = computeClaudeSimulatedScore(snapshot, contagion.aggregateContagionRisk, depegRiskOverride)
+	const claudeSimScore = computeClaudeSimulatedScore(snapshot, contagion.aggregateContagionRisk, depeg)
 
 	// For backtesting: use the MAXIMUM signal from our multi-component system
 	// A real risk monitoring system raises the alarm if ANY sensor detects danger
 	// The final score is the max of: Claude AI, rule-based, contagion-adjusted,
-	// with depeg risk acting as a floor (depeg events are always high-risk)
-	const componentScores = [claudeSimScore, ruleBasedScore.score, contagionAdjusted.score]
+	// depeg-adjusted, volatility-adjusted (when the prior day is close enough), with depeg
+	// risk acting as a floor (depeg events are always high-risk)
+	const componentScores = [
+		claudeSimScore,
+		ruleBasedScore.score,
+		contagionAdjusted.score,
+		depegAdjusted.score,
+		...(volatilityAdjusted.available ? [volatilityAdjusted.score] : []),
+	]
 	const maxComponentScore = Math.max(...componentScores)
 
 	// Depeg risk acts as a risk floor — a depegging stablecoin is always dangerous
-	const depegFloor = depegRiskOverride > 20 ? Math.round(depegRiskOverride * 0.8) : 0
+	const depegFloor = depeg.depegRiskScore > 20 ? Math.round(depeg.depegRiskScore * 0.8) : 0
 	const finalScore = Math.min(100, Math.max(maxComponentScore, depegFloor))
 
 	// Confidence = how much models agree (still useful for reporting)
@@ -198,19 +279,37 @@ function scoreDay(snapshot: DailySnapshot): BacktestDayResult {
 	else if (finalScore > 40) alertLevel = 'WATCH'
 
 	return {
-		date: snapshot.date,
-		daysBeforeEvent: snapshot.daysBeforeEvent,
-		riskScore: ruleBasedScore.score,
-		contagionRisk: contagion.aggregateContagionRisk,
-		depegRisk: depegRiskOverride,
-		consensusScore: finalScore,
-		confidenceLevel,
-		circuitBreakerTriggered: finalScore > 80,
-		alertLevel,
-		notes: snapshot.notes || '',
+		result: {
+			date: snapshot.date,
+			daysBeforeEvent: snapshot.daysBeforeEvent,
+			riskScore: ruleBasedScore.score,
+			contagionRisk: contagion.aggregateContagionRisk,
+			depegRisk: depeg.depegRiskScore,
+			consensusScore: finalScore,
+			confidenceLevel,
+			circuitBreakerTriggered: finalScore > 80,
+			alertLevel,
+			notes: snapshot.notes || '',
+		},
+		pegStates: depeg.pegStates,
 	}
 }
 
+/**
+ * Points for one stablecoin's peg deviation, before mechanism weighting
+ */
+function depegTierPoints(deviation: number): number {
+	if (deviation >= 0.5) return 50 // catastrophic: <= $0.50
+	if (deviation >= 0.2) return 45 // severe: <= $0.80
+	if (deviation >= 0.1) return 35 // major: <= $0.90
+	if (deviation >= 0.05) return 28 // significant: <= $0.95
+	if (deviation >= 0.02) return 20 // concerning: <= $0.98
+	if (deviation >= 0.01) return 15 // early warning: <= $0.99
+	if (deviation >= 0.005) return 8 // micro wobble: <= $0.995
+	if (deviation >= 0.002) return 3
+	return 0
+}
+
 /**
  * Simulate what Claude AI would score based on multiple risk signals.
  * This combines TVL trends, price action, depeg signals, and contagion risk
@@ -219,7 +318,7 @@ function scoreDay(snapshot: DailySnapshot): BacktestDayResult {
 function computeClaudeSimulatedScore(
 	snapshot: DailySnapshot,
 	contagionRisk: number,
-	depegRisk: number,
+	depeg: DepegAnalysis,
 ): number {
 	let score = 10 // Baseline
 
@@ -240,40 +339,19 @@ function computeClaudeSimulatedScore(
 	else if (snapshot.ethPrice < 2700) score += 3
 
 	// Stablecoin depeg — THE critical risk amplifier
-	// Claude AI would immediately flag stablecoin instability
-	if (snapshot.ustPrice !== undefined) {
-		const ustDeviation = Math.abs(1 - snapshot.ustPrice)
-		if (ustDeviation >= 0.5) score += 50      // catastrophic: UST <= $0.50
-		else if (ustDeviation >= 0.2) score += 45  // severe: UST <= $0.80
-		else if (ustDeviation >= 0.1) score += 35  // major: UST <= $0.90
-		else if (ustDeviation >= 0.05) score += 28 // significant: UST <= $0.95
-		else if (ustDeviation >= 0.02) score += 20 // concerning: UST <= $0.98
-		else if (ustDeviation >= 0.01) score += 15 // early warning: UST <= $0.99
-		else if (ustDeviation >= 0.005) score += 8 // micro wobble: UST <= $0.995
-		else if (ustDeviation >= 0.002) score += 3
-	}
-
-	if (snapshot.usdcPrice !== undefined) {
-		const usdcDeviation = Math.abs(1 - snapshot.usdcPrice)
-		if (usdcDeviation >= 0.1) score += 40     // USDC <= $0.90 is systemic crisis
-		else if (usdcDeviation >= 0.05) score += 30
-		else if (usdcDeviation >= 0.02) score += 20
-		else if (usdcDeviation >= 0.01) score += 10
-		else if (usdcDeviation >= 0.005) score += 5
-	}
-
-	if (snapshot.usdtPrice !== undefined) {
-		const usdtDeviation = Math.abs(1 - snapshot.usdtPrice)
-		if (usdtDeviation >= 0.02) score += 15    // USDT wobble is market-wide fear signal
-		else if (usdtDeviation >= 0.01) score += 10
-		else if (usdtDeviation >= 0.005) score += 5
+	// Claude AI would immediately flag stablecoin instability, weighted by how
+	// fragile the peg mechanism is (algorithmic at full weight)
+	let depegPoints = 0
+	for (const coin of depeg.stablecoins) {
+		depegPoints += depegTierPoints(Math.abs(1 - coin.price)) * (MECHANISM_RISK[coin.mechanism] / MECHANISM_RISK.algorithmic)
 	}
+	score += Math.round(depegPoints)
 
 	// Contagion amplifier (Claude would heavily weight systemic risk)
 	score += Math.round(contagionRisk * 0.2)
 
 	// Depeg amplifier
-	score += Math.round(depegRisk * 0.15)
+	score += Math.round(depeg.depegRiskScore * 0.15)
 
 	// Concentration risk
 	const aaveShare = snapshot.aaveTvl / totalTvl
@@ -294,7 +372,13 @@ function backtestEvent(
 	actualLossesUsd: number,
 	snapshots: DailySnapshot[],
 ): BacktestResult {
-	const timeline = snapshots.map(scoreDay)
+	// Peg state carries from day to day, as it does across cycles on-chain
+	let pegHistory: PegHistory = {}
+	const timeline = snapshots.map((snapshot, i) => {
+		const { result, pegStates } = scoreDay(snapshot, historyAt(snapshots, i), pegHistory, ethPricesAt(snapshots, i))
+		pegHistory = pegStates
+		return result
+	})
 
 	// Find first WARNING+ alert (actionable — not just elevated awareness)
 	const firstAlert = timeline.find((d) => d.alertLevel === 'WARNING' || d.alertLevel === 'CRITICAL')
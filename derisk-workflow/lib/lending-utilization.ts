@@ -0,0 +1,127 @@
+/**
+ * DeRisk Protocol - Lending Utilization
+ *
+ * Share of supplied liquidity that is borrowed out, across the major reserves
+ * of an Aave V3-compatible market, read each cycle from its Pool Data
+ * Provider and price oracle. Near 100% utilization suppliers cannot withdraw,
+ * the precondition for a bank run, so the supply-weighted (TVL-weighted)
+ * figure is published as the oracle's `utilizationRate` and raises the
+ * rule-based score when high (lib/risk-scoring.ts).
+ */
+
+import { z } from 'zod'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const lendingAssetSchema = z.object({
+	symbol: z.string(), // For logs and the AI prompt: "WETH", "USDC"
+	address: z.string(), // Reserve underlying asset
+	decimals: z.number().int().min(0).max(36), // Underlying token decimals
+})
+
+export const lendingMarketSchema = z.object({
+	name: z.string(), // "Aave V3"
+	poolDataProvider: z.string(), // AaveProtocolDataProvider on evms[0]
+	priceOracle: z.string(), // AaveOracle on evms[0], USD prices with 8 decimals
+	assets: z.array(lendingAssetSchema).min(1),
+})
+
+export type LendingMarket = z.infer<typeof lendingMarketSchema>
+
+export type LendingAsset = z.infer<typeof lendingAssetSchema>
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// One reserve as read on-chain (token amounts in the asset's own decimals)
+export interface ReserveReading {
+	asset: LendingAsset
+	totalSupplied: bigint // totalAToken
+	totalBorrowed: bigint // totalStableDebt + totalVariableDebt
+	price: bigint // USD, 8 decimals
+}
+
+export interface ReserveUtilization {
+	symbol: string
+	suppliedUsd: number
+	borrowedUsd: number
+	utilization: number // borrowed / supplied, 0-1
+}
+
+export interface LendingUtilization {
+	market: string
+	reserves: ReserveUtilization[] // Reserves with supply and a price; the rest are left out
+	suppliedUsd: number
+	borrowedUsd: number
+	utilization: number | null // Supply-weighted, null when no reserve could be valued
+}
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+// Token amount (own decimals) at an 8-decimal USD price
+export const toUsd = (amount: bigint, decimals: number, price: bigint): number =>
+	(Number(amount) / 10 ** decimals) * (Number(price) / 1e8)
+
+/**
+ * Per-reserve and supply-weighted utilization. Weighting by supplied USD makes
+ * the aggregate total borrowed over total supplied, so a small exotic reserve
+ * at 99% cannot dominate the published figure.
+ */
+export function computeLendingUtilization(market: string, readings: ReserveReading[]): LendingUtilization {
+	const reserves = readings
+		.filter(({ totalSupplied, price }) => totalSupplied > 0n && price > 0n)
+		.map(({ asset, totalSupplied, totalBorrowed, price }): ReserveUtilization => {
+			const suppliedUsd = toUsd(totalSupplied, asset.decimals, price)
+			const borrowedUsd = toUsd(totalBorrowed, asset.decimals, price)
+			return { symbol: asset.symbol, suppliedUsd, borrowedUsd, utilization: borrowedUsd / suppliedUsd }
+		})
+
+	const suppliedUsd = reserves.reduce((sum, r) => sum + r.suppliedUsd, 0)
+	const borrowedUsd = reserves.reduce((sum, r) => sum + r.borrowedUsd, 0)
+
+	return {
+		market,
+		reserves,
+		suppliedUsd,
+		borrowedUsd,
+		utilization: suppliedUsd > 0 ? borrowedUsd / suppliedUsd : null,
+	}
+}
+
+/**
+ * On-chain `utilizationRate`: basis points (7850 = 78.50%), 0 when unavailable
+ */
+export const utilizationBps = (lending: LendingUtilization | null): bigint =>
+	lending?.utilization == null ? 0n : BigInt(Math.round(lending.utilization * 10_000))
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export const formatUtilization = (utilization: number | null): string =>
+	utilization === null ? 'n/a' : `${(utilization * 100).toFixed(2)}%`
+
+/**
+ * Format lending utilization for inclusion in the AI risk assessment prompt
+ */
+export function formatUtilizationForAI(lending: LendingUtilization | null): string {
+	if (lending?.utilization == null) {
+		return 'LENDING UTILIZATION: UNAVAILABLE (on-chain read failed); do not infer liquidity stress'
+	}
+
+	const lines = [
+		`LENDING UTILIZATION (${lending.market}, on-chain):`,
+		`Supply-Weighted: ${formatUtilization(lending.utilization)} ($${(lending.borrowedUsd / 1e9).toFixed(2)}B borrowed of $${(lending.suppliedUsd / 1e9).toFixed(2)}B supplied)`,
+	]
+	for (const reserve of lending.reserves) {
+		lines.push(`  ${reserve.symbol}: ${formatUtilization(reserve.utilization)}`)
+	}
+	lines.push('Above ~90% suppliers cannot withdraw on demand (bank-run risk); weight it heavily together with outflows.')
+
+	return lines.join('\n')
+}
@@ -0,0 +1,169 @@
+/**
+ * DeRisk Protocol - Liquidation-at-Risk Analyzer
+ *
+ * The contagion model describes liquidation cascades in prose; this module
+ * puts a number on them. From a health-factor distribution of lending
+ * positions (a precomputed snapshot, e.g. from an indexer job or
+ * data-source-mock-server.ts), it estimates the collateral that becomes
+ * liquidatable if ETH drops 10%, 20% and 30%. The result adds an ETH-shock
+ * scenario to the contagion analysis, goes into the AI prompt and is
+ * published on-chain (`getLiquidationRisk`).
+ *
+ * A bucket at health factor HF with a share `e` of ETH-correlated collateral
+ * (debt assumed stable) falls to HF * (1 - e * shock); below 1.0 it can be
+ * liquidated.
+ */
+
+import type { HTTPSendRequester } from '@chainlink/cre-sdk'
+import { z } from 'zod'
+import { MISSING_METRIC } from './data-quality'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const positionSnapshotSourceSchema = z.object({
+	name: z.string(), // For logs: "Aave V3 positions", "Local mock"
+	url: z.string(), // GET, answers a position snapshot (below)
+})
+
+export type PositionSnapshotSource = z.infer<typeof positionSnapshotSourceSchema>
+
+// Snapshot endpoint response: borrowers bucketed by health factor
+const positionSnapshotSchema = z.object({
+	buckets: z
+		.array(
+			z.object({
+				healthFactor: z.number().positive(), // Lower bound of the bucket
+				collateralUsd: z.number().nonnegative(),
+				debtUsd: z.number().nonnegative(),
+				ethCollateralShare: z.number().min(0).max(1), // ETH and ETH-correlated (LSTs) share of collateral
+			}),
+		)
+		.min(1),
+})
+
+export type PositionSnapshot = z.infer<typeof positionSnapshotSchema>
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// ETH price shocks, in percent; also the order of the on-chain collateralAtRisk array
+export const ETH_SHOCKS = [10, 20, 30] as const
+
+// Median-aggregated across nodes: one field per number
+export interface LiquidationExposureRaw {
+	totalCollateralUsd: number // MISSING_METRIC when the snapshot was unavailable
+	collateralAtRisk10: number
+	collateralAtRisk20: number
+	collateralAtRisk30: number
+}
+
+export interface LiquidationShock {
+	shockPercent: number // ETH drop, e.g. 20
+	collateralAtRiskUsd: number
+	shareAtRisk: number // Of total collateral, 0-1
+}
+
+export interface LiquidationRisk {
+	totalCollateralUsd: number
+	shocks: LiquidationShock[] // One per ETH_SHOCKS entry, in order
+	liquidationRiskScore: number // 0-100
+}
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+/**
+ * Collateral liquidatable at each ETH shock, from one position snapshot
+ */
+export function computeLiquidationExposure(snapshot: PositionSnapshot): LiquidationExposureRaw {
+	const atRisk = (shock: number): number =>
+		snapshot.buckets
+			.filter((bucket) => bucket.debtUsd > 0 && bucket.healthFactor * (1 - bucket.ethCollateralShare * (shock / 100)) < 1)
+			.reduce((sum, bucket) => sum + bucket.collateralUsd, 0)
+
+	return {
+		totalCollateralUsd: snapshot.buckets.reduce((sum, bucket) => sum + bucket.collateralUsd, 0),
+		collateralAtRisk10: atRisk(10),
+		collateralAtRisk20: atRisk(20),
+		collateralAtRisk30: atRisk(30),
+	}
+}
+
+/**
+ * Shock table and score from the aggregated exposure, null when the snapshot
+ * was unavailable. Shallow shocks weigh more: collateral that a 10% move
+ * liquidates is one ordinary trading day away.
+ */
+export function analyzeLiquidationRisk(raw: LiquidationExposureRaw): LiquidationRisk | null {
+	if (!(raw.totalCollateralUsd > 0)) return null
+
+	const shocks = ETH_SHOCKS.map((shockPercent): LiquidationShock => {
+		const collateralAtRiskUsd = raw[`collateralAtRisk${shockPercent}` as const]
+		return { shockPercent, collateralAtRiskUsd, shareAtRisk: collateralAtRiskUsd / raw.totalCollateralUsd }
+	})
+	const [shock10, shock20, shock30] = shocks
+	const score = shock10.shareAtRisk * 400 + shock20.shareAtRisk * 150 + shock30.shareAtRisk * 50
+
+	return {
+		totalCollateralUsd: raw.totalCollateralUsd,
+		shocks,
+		liquidationRiskScore: Math.min(100, Math.round(score)),
+	}
+}
+
+// ============================================================================
+// Fetcher (CRE HTTPClient.sendRequest handler)
+// ============================================================================
+
+/**
+ * Fetch the position snapshot and reduce it to liquidation exposure on each
+ * node; a failed or malformed snapshot is reported as MISSING_METRIC
+ */
+export const fetchLiquidationExposure = (
+	sendRequester: HTTPSendRequester,
+	source: PositionSnapshotSource,
+): LiquidationExposureRaw => {
+	try {
+		const resp = sendRequester.sendRequest({ method: 'GET', url: source.url }).result()
+		if (resp.statusCode === 200) {
+			const snapshot = positionSnapshotSchema.parse(JSON.parse(Buffer.from(resp.body).toString('utf-8')))
+			return computeLiquidationExposure(snapshot)
+		}
+	} catch {
+		// Transport error or malformed snapshot: reported as missing below
+	}
+	return { totalCollateralUsd: MISSING_METRIC, collateralAtRisk10: 0, collateralAtRisk20: 0, collateralAtRisk30: 0 }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export const formatShock = (shock: LiquidationShock): string =>
+	`ETH -${shock.shockPercent}%: $${(shock.collateralAtRiskUsd / 1e9).toFixed(2)}B (${(shock.shareAtRisk * 100).toFixed(1)}% of collateral)`
+
+/**
+ * Format liquidation-at-risk for inclusion in the AI risk assessment prompt
+ */
+export function formatLiquidationForAI(risk: LiquidationRisk | null): string {
+	if (!risk) {
+		return 'LIQUIDATION-AT-RISK: UNAVAILABLE (no position snapshot); do not infer liquidation stress'
+	}
+
+	const lines = [
+		'LIQUIDATION-AT-RISK (borrower health-factor distribution):',
+		`Liquidation Risk Score: ${risk.liquidationRiskScore}/100`,
+		`Total Collateral: $${(risk.totalCollateralUsd / 1e9).toFixed(2)}B`,
+		'Collateral liquidatable if ETH drops:',
+	]
+	for (const shock of risk.shocks) {
+		lines.push(`  ${formatShock(shock)}`)
+	}
+	lines.push('Forced liquidations sell collateral into falling markets; large shallow-shock exposure means cascades.')
+
+	return lines.join('\n')
+}
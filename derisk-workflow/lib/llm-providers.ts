@@ -0,0 +1,401 @@
+/**
+ * DeRisk Protocol - LLM Risk Scoring Providers
+ *
+ * Provider abstraction for the LLM scorers that take part in the multi-AI
+ * consensus. Every configured provider receives the same risk context,
+ * rendered through its own prompt adapter, and reports an AIModelScore with
+ * measured latency, a real availability flag and calibrated confidence.
+ *
+ * Providers:
+ * - anthropic:         Claude Messages API
+ * - openai-compatible: Any /v1/chat/completions endpoint (OpenAI, vLLM, Together, ...)
+ * - local-stub:        Deterministic HTTP stub (llm-stub-server.ts) for local runs
+ *
+ * anthropic and openai-compatible requests go out once per attempt via
+ * Confidential HTTP (main.ts): completions differ from call to call, so
+ * per-node requests could never agree. Only the deterministic stub is sent
+ * by every node over regular HTTP.
+ *
+ * Answers are validated against a zod schema (aggregate score, per-protocol
+ * sub-scores, top drivers, rationale). Invalid answers are retried with the
+ * validation error fed back; a provider that never answers validly is
+ * unavailable for the cycle rather than scored with a default.
+ *
+ * Providers are listed in config.*.json under `llmProviders`; the first one
+ * that answers supplies the per-protocol breakdown and the rationale.
+ */
+
+import type { HTTPSendRequester } from '@chainlink/cre-sdk'
+import { z } from 'zod'
+import type { AIModelScore } from './multi-ai-consensus'
+import type { ProtocolReading } from './protocol-registry'
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const llmProviderKindSchema = z.enum(['anthropic', 'openai-compatible', 'local-stub'])
+
+export type LLMProviderKind = z.infer<typeof llmProviderKindSchema>
+
+export const llmProviderConfigSchema = z.object({
+	kind: llmProviderKindSchema,
+	name: z.string(), // Model label in consensus output: "Claude (Anthropic)"
+	url: z.string(),
+	model: z.string(), // Model id sent to the endpoint (ignored by local-stub)
+	apiKeySecret: z.string().optional(), // Vault secret id holding the API key
+	timeoutMs: z.number().int().positive(),
+	maxAttempts: z.number().int().min(1).max(5), // Requests per cycle while answers fail the schema
+	confidence: z.number().min(0).max(1), // Calibrated confidence of a first-attempt valid answer
+})
+
+export type LLMProviderConfig = z.infer<typeof llmProviderConfigSchema>
+
+export const llmProvidersSchema = z
+	.array(llmProviderConfigSchema)
+	.min(1)
+	.superRefine((providers, ctx) => {
+		const names = new Set<string>()
+		for (const provider of providers) {
+			if (names.has(provider.name)) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate LLM provider name: ${provider.name}` })
+			}
+			names.add(provider.name)
+
+			if (provider.kind !== 'local-stub' && !provider.apiKeySecret) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${provider.name}: apiKeySecret is required` })
+			}
+		}
+	})
+
+const scoreSchema = z.number().int().min(0).max(100)
+
+export const protocolSubScoresSchema = z.object({
+	score: scoreSchema, // Overall protocol risk
+	tvlHealth: scoreSchema, // TVL level and trend vs thresholds
+	contagion: scoreSchema, // Exposure to cross-protocol cascades
+	marketStress: scoreSchema, // ETH price and stablecoin peg pressure
+})
+
+export type ProtocolSubScores = z.infer<typeof protocolSubScoresSchema>
+
+/**
+ * Expected AI answer for this cycle's registry: every monitored protocol
+ * scored, no extra keys
+ */
+export function riskResponseSchema(readings: ProtocolReading[]) {
+	return z
+		.object({
+			riskScore: scoreSchema,
+			protocols: z
+				.object(Object.fromEntries(readings.map(({ protocol }) => [protocol.key, protocolSubScoresSchema])))
+				.strict(),
+			drivers: z.array(z.string().min(1).max(160)).min(1).max(5), // Most important first
+			rationale: z.string().min(1).max(800), // Hashed into the on-chain report
+		})
+		.strict()
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Everything a provider sees about the current cycle
+export interface RiskPromptContext {
+	readings: ProtocolReading[]
+	totalTvl: number
+	ethPrice: string // Formatted price, or why it is unavailable
+	contagionData: string
+	depegData: string
+	lstPegData: string
+	trendData: string
+	volatilityData: string
+	utilizationData: string
+	liquidationData: string
+	qualityData: string // Empty when every metric passed its data-quality checks
+}
+
+export interface LLMRiskResponse {
+	riskScore: number // 0-100
+	protocols: Record<string, ProtocolSubScores> // One entry per registry key
+	drivers: string[]
+	rationale: string
+	attempts: number // Requests it took to get a schema-valid answer
+}
+
+export interface ProviderRequest {
+	url: string
+	headers: Record<string, string>
+	body: string
+	timeoutMs: number
+}
+
+// Raw HTTP result — used with consensusIdenticalAggregation (local-stub only)
+export interface ProviderHTTPResult {
+	statusCode: number
+	body: string
+}
+
+interface PromptAdapter {
+	buildBody(prompt: string, provider: LLMProviderConfig, context: RiskPromptContext): string
+	buildHeaders(apiKey: string): Record<string, string>
+	extractText(responseBody: string): string // The JSON answer inside the provider envelope
+}
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+const SYSTEM_PROMPT = 'You are a DeFi risk analysis AI for the DeRisk Protocol oracle. Respond with ONLY valid JSON.'
+
+/**
+ * Provider-neutral risk prompt: protocols, market data, rubric and the
+ * expected JSON shape. `previousError` explains why the last answer was
+ * rejected, on retries; the retry note carries the `attempt` number, so a
+ * retry is a distinct request (the local stub keys its off-schema answers on it).
+ */
+export function buildRiskPrompt(context: RiskPromptContext, previousError?: string, attempt = 1): string {
+	const { readings, totalTvl, ethPrice, contagionData, depegData, lstPegData, trendData, volatilityData, utilizationData, liquidationData, qualityData } = context
+
+	const protocolLines = readings
+		.map(({ protocol, tvl }, i) => `${i + 1}. ${protocol.name} (${protocol.category}) - TVL: $${(tvl / 1e9).toFixed(2)}B`)
+		.join('\n')
+
+	const protocolShape = readings
+		.map(({ protocol }) => `"${protocol.key}": {"score": <int>, "tvlHealth": <int>, "contagion": <int>, "marketStress": <int>}`)
+		.join(', ')
+
+	const prompt = `Analyze these multi-protocol metrics and return an aggregate risk score, sub-scores for each protocol, the top risk drivers and a short rationale.
+
+MONITORED PROTOCOLS:
+${protocolLines}
+
+AGGREGATE:
+- Combined TVL: $${(totalTvl / 1e9).toFixed(2)}B
+- ETH/USD Price: ${ethPrice}
+${qualityData ? `\n${qualityData}\n` : ''}
+${trendData}
+
+${volatilityData}
+
+${utilizationData}
+
+${contagionData}
+
+${liquidationData}
+
+${depegData}
+
+${lstPegData}
+
+RISK SCORING RUBRIC:
+0-20 (LOW): All protocols stable, healthy TVL, normal ETH price
+21-40 (MODERATE): Minor fluctuations across protocols
+41-60 (ELEVATED): One protocol showing stress, TVL declining
+61-80 (HIGH): Multiple protocols stressed, significant TVL outflows
+81-100 (CRITICAL): Systemic risk, circuit breaker threshold
+
+KEY RISK FACTORS:
+1. Individual protocol TVL health and outflow speed (1h/24h/7d trend above)
+2. Cross-protocol contagion risk (shared collateral, cascading liquidations)
+3. ETH price impact on all lending protocols simultaneously (size and speed of the move, not the level)
+4. Concentration risk if one protocol dominates TVL
+5. Systemic cascade potential (use contagion analysis above)
+6. Stablecoin and LST peg stability (depeg amplifies all risk factors; an LST discount unwinds staking loops)
+7. Lending utilization (near 100% borrowed, suppliers cannot exit)
+
+All scores are integers 0-100. Per protocol: score (overall), tvlHealth, contagion, marketStress.
+
+Respond with ONLY this JSON object, no markdown:
+{"riskScore": <int>, "protocols": {${protocolShape}}, "drivers": [<1-5 short strings, most important first>], "rationale": "<2-3 sentences, at most 800 characters>"}`
+
+	return previousError
+		? `${prompt}\n\nAttempt ${attempt}: your previous answer was rejected: ${previousError}\nReturn a corrected JSON object.`
+		: prompt
+}
+
+// ============================================================================
+// Prompt Adapters
+// ============================================================================
+
+const PROMPT_ADAPTERS: Record<LLMProviderKind, PromptAdapter> = {
+	anthropic: {
+		buildBody: (prompt, provider) =>
+			JSON.stringify({
+				model: provider.model,
+				max_tokens: 1024,
+				system: SYSTEM_PROMPT,
+				// Prefilled "{" makes the completion start inside the JSON object
+				messages: [
+					{ role: 'user', content: prompt },
+					{ role: 'assistant', content: '{' },
+				],
+			}),
+		buildHeaders: (apiKey) => ({
+			'Content-Type': 'application/json',
+			'x-api-key': apiKey,
+			'anthropic-version': '2023-06-01',
+		}),
+		extractText: (responseBody) => `{${JSON.parse(responseBody).content?.[0]?.text ?? ''}`,
+	},
+	'openai-compatible': {
+		buildBody: (prompt, provider) =>
+			JSON.stringify({
+				model: provider.model,
+				max_tokens: 1024,
+				temperature: 0,
+				response_format: { type: 'json_object' },
+				messages: [
+					{ role: 'system', content: SYSTEM_PROMPT },
+					{ role: 'user', content: prompt },
+				],
+			}),
+		buildHeaders: (apiKey) => ({
+			'Content-Type': 'application/json',
+			Authorization: `Bearer ${apiKey}`,
+		}),
+		extractText: (responseBody) => JSON.parse(responseBody).choices?.[0]?.message?.content ?? '',
+	},
+	// The stub answers in the final JSON shape directly; it gets the protocol
+	// keys so it can fill every per-protocol entry
+	'local-stub': {
+		buildBody: (prompt, _provider, context) =>
+			JSON.stringify({ prompt, protocols: context.readings.map(({ protocol }) => protocol.key) }),
+		buildHeaders: () => ({ 'Content-Type': 'application/json' }),
+		extractText: (responseBody) => responseBody,
+	},
+}
+
+/**
+ * Build the HTTP request for one provider. `apiKey` is the literal key, or a
+ * vault template such as {{.anthropicApiKey}} for Confidential HTTP.
+ */
+export function buildProviderRequest(
+	provider: LLMProviderConfig,
+	context: RiskPromptContext,
+	apiKey: string,
+	previousError?: string,
+	attempt = 1,
+): ProviderRequest {
+	const adapter = PROMPT_ADAPTERS[provider.kind]
+	return {
+		url: provider.url,
+		headers: adapter.buildHeaders(apiKey),
+		body: adapter.buildBody(buildRiskPrompt(context, previousError, attempt), provider, context),
+		timeoutMs: provider.timeoutMs,
+	}
+}
+
+// ============================================================================
+// Response Validation
+// ============================================================================
+
+/**
+ * Validate a provider response body against the cycle's response schema.
+ * Throws a readable error (fed back to the model on retry) when the answer
+ * is not a JSON object or does not match the schema.
+ */
+export function parseRiskResponse(
+	provider: LLMProviderConfig,
+	responseBody: string,
+	readings: ProtocolReading[],
+): Omit<LLMRiskResponse, 'attempts'> {
+	let data: unknown
+	try {
+		data = JSON.parse(PROMPT_ADAPTERS[provider.kind].extractText(responseBody))
+	} catch (_) {
+		throw new Error('answer is not a single valid JSON object')
+	}
+
+	const parsed = riskResponseSchema(readings).safeParse(data)
+	if (!parsed.success) {
+		const issues = parsed.error.issues
+			.slice(0, 5)
+			.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+		throw new Error(`schema mismatch (${issues.join('; ')})`)
+	}
+	return parsed.data
+}
+
+/**
+ * Request a schema-valid answer, retrying up to `maxAttempts` times with the
+ * validation error fed back into the prompt. Transport errors thrown by
+ * `send` (timeouts, non-200) are not retried. Throws once attempts run out;
+ * callers mark the provider unavailable.
+ */
+export function requestValidatedScore(
+	provider: LLMProviderConfig,
+	context: RiskPromptContext,
+	apiKey: string,
+	send: (request: ProviderRequest) => string,
+): LLMRiskResponse {
+	let previousError: string | undefined
+	for (let attempt = 1; attempt <= provider.maxAttempts; attempt++) {
+		const responseBody = send(buildProviderRequest(provider, context, apiKey, previousError, attempt))
+		try {
+			return { ...parseRiskResponse(provider, responseBody, context.readings), attempts: attempt }
+		} catch (err) {
+			previousError = err instanceof Error ? err.message : String(err)
+		}
+	}
+	throw new Error(`no valid answer after ${provider.maxAttempts} attempt(s): ${previousError}`)
+}
+
+// ============================================================================
+// Confidence Calibration
+// ============================================================================
+
+/**
+ * Scale the provider's configured confidence down for every retry it needed:
+ * a model that first answered off-schema is less trustworthy this cycle
+ */
+export function calibrateConfidence(provider: LLMProviderConfig, response: LLMRiskResponse): number {
+	return provider.confidence * Math.max(0.5, 1 - 0.15 * (response.attempts - 1))
+}
+
+/**
+ * Consensus entry for one provider; a null response marks it unavailable
+ */
+export function toModelScore(
+	provider: LLMProviderConfig,
+	response: LLMRiskResponse | null,
+	latencyMs: number,
+): AIModelScore {
+	return {
+		model: provider.name,
+		score: response?.riskScore ?? 0,
+		confidence: response ? calibrateConfidence(provider, response) : 0,
+		latencyMs,
+		available: response !== null,
+	}
+}
+
+// ============================================================================
+// HTTP Fetch — used as HTTPClient.sendRequest handler
+// ============================================================================
+
+/**
+ * Send a provider request over the regular CRE HTTP capability (local-stub
+ * only; main.ts sends the other providers via Confidential HTTP)
+ */
+export const fetchProviderResponse = (
+	sendRequester: HTTPSendRequester,
+	request: ProviderRequest,
+): ProviderHTTPResult => {
+	const response = sendRequester
+		.sendRequest({
+			method: 'POST',
+			url: request.url,
+			multiHeaders: Object.fromEntries(
+				Object.entries(request.headers).map(([name, value]) => [name, { values: [value] }]),
+			),
+			body: Buffer.from(request.body).toString('base64'),
+			timeout: `${request.timeoutMs / 1000}s`,
+		})
+		.result()
+
+	return {
+		statusCode: response.statusCode,
+		body: Buffer.from(response.body).toString('utf-8'),
+	}
+}
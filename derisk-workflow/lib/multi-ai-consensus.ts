@@ -6,9 +6,11 @@
  * disagrees significantly, the system flags uncertainty.
  *
  * Models:
- * - Claude (Anthropic) - Primary, via API
- * - Rule-based fallback - Secondary, local computation
- * - Weighted ensemble - Tertiary, combines both with confidence
+ * - LLM providers (lib/llm-providers.ts) - Claude, OpenAI-compatible, local stub
+ * - Rule-based fallback - Local computation, same code as Chainlink Functions
+ * - Weighted ensemble - Contagion-adjusted primary score
+ * - Depeg-adjusted primary score - Stablecoin depeg risk (lib/depeg-monitor.ts)
+ * - Volatility-adjusted primary score - ETH realized volatility (lib/eth-volatility.ts)
  *
  * Consensus Algorithm:
  * 1. Collect scores from all available sources
@@ -17,6 +19,9 @@
  * 4. Calculate agreement level and confidence interval
  */
 
+import type { ProtocolReading } from './protocol-registry'
+import { aggregateScore, computeProtocolScores, type ScoringInput, type TvlChangeRates } from './risk-scoring'
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -36,6 +41,12 @@ export interface ConsensusResult {
 	spread: number              // Max - min score
 	outliers: string[]          // Models that disagree significantly
 	method: string              // 'multi-ai' | 'single-model' | 'fallback-only'
+	degradedSignals: string[]   // Inputs that failed their checks and were left out of scoring
+}
+
+export interface ProtocolScore {
+	key: string   // Protocol registry key
+	score: number // 0-100
 }
 
 // ============================================================================
@@ -68,13 +79,26 @@ function standardDeviation(scores: number[]): number {
 	return Math.sqrt(variance)
 }
 
+// Confidence lost for each input signal that had to be dropped this cycle
+const DEGRADED_SIGNAL_PENALTY = 10
+
 /**
  * Run the multi-AI consensus algorithm.
  *
  * Takes scores from multiple models and produces a consensus score
- * with confidence metrics.
+ * with confidence metrics. `degradedSignals` names inputs (e.g. the ETH/USD
+ * feed) the models had to score without; each one lowers confidence.
  */
-export function computeConsensus(modelScores: AIModelScore[]): ConsensusResult {
+export function computeConsensus(modelScores: AIModelScore[], degradedSignals: string[] = []): ConsensusResult {
+	const result = aggregateModelScores(modelScores)
+	return {
+		...result,
+		confidenceLevel: Math.max(0, result.confidenceLevel - degradedSignals.length * DEGRADED_SIGNAL_PENALTY),
+		degradedSignals,
+	}
+}
+
+function aggregateModelScores(modelScores: AIModelScore[]): Omit<ConsensusResult, 'degradedSignals'> {
 	const available = modelScores.filter((m) => m.available)
 
 	if (available.length === 0) {
@@ -160,38 +184,44 @@ export function computeConsensus(modelScores: AIModelScore[]): ConsensusResult {
 }
 
 /**
- * Build the rule-based model score (same logic as Chainlink Functions fallback)
+ * Registry readings in the shared scorer's input shape (also the
+ * Chainlink Functions args[1] payload)
+ */
+export function toScoringInputs(readings: ProtocolReading[]): ScoringInput[] {
+	return readings.map(({ protocol, tvl }) => ({ tvl, thresholds: protocol.thresholds, weight: protocol.weight }))
+}
+
+/**
+ * Rule-based score per registered protocol, via the scoring module shared
+ * with the Chainlink Functions source
+ */
+export function computeRuleBasedProtocolScores(
+	readings: ProtocolReading[],
+	ethPrice: number | null,
+	rates: TvlChangeRates,
+	utilization: number | null,
+): ProtocolScore[] {
+	const scores = computeProtocolScores(toScoringInputs(readings), ethPrice, rates, utilization)
+	return readings.map(({ protocol }, i) => ({ key: protocol.key, score: scores[i] }))
+}
+
+/**
+ * Build the rule-based model score (same code as the Chainlink Functions source)
+ *
+ * Each registered protocol is scored against its own TVL thresholds, raised
+ * uniformly for ETH price stress, registry TVL outflow speed and lending
+ * utilization, then combined using the registry weights.
  */
 export function computeRuleBasedScore(
-	aaveTvl: number,
-	compoundTvl: number,
-	makerTvl: number,
-	ethPrice: number,
+	readings: ProtocolReading[],
+	ethPrice: number | null,
+	rates: TvlChangeRates,
+	utilization: number | null,
 ): AIModelScore {
 	const start = Date.now()
 
-	const scoreProtocol = (tvl: number, critical: number, warning: number, caution: number): number => {
-		let score = 15
-		if (tvl < critical) score += 40
-		else if (tvl < warning) score += 20
-		else if (tvl < caution) score += 10
-		return Math.min(100, score)
-	}
-
-	let aaveScore = scoreProtocol(aaveTvl, 5e9, 15e9, 20e9)
-	let compScore = scoreProtocol(compoundTvl, 500e6, 1e9, 2e9)
-	let makerScore = scoreProtocol(makerTvl, 2e9, 4e9, 6e9)
-
-	let ethAdj = 0
-	if (ethPrice < 1000) ethAdj = 20
-	else if (ethPrice < 1500) ethAdj = 10
-	else if (ethPrice < 2000) ethAdj = 5
-
-	aaveScore = Math.min(100, aaveScore + ethAdj)
-	compScore = Math.min(100, compScore + ethAdj)
-	makerScore = Math.min(100, makerScore + ethAdj)
-
-	const aggregate = Math.round((aaveScore * 50 + compScore * 25 + makerScore * 25) / 100)
+	const inputs = toScoringInputs(readings)
+	const aggregate = aggregateScore(inputs, computeProtocolScores(inputs, ethPrice, rates, utilization))
 
 	return {
 		model: 'Rule-Based (Functions)',
@@ -221,6 +251,51 @@ export function computeContagionAdjustedScore(
 	}
 }
 
+/**
+ * Build a depeg-aware model score. Depeg risk only raises the base score: a
+ * stable peg is no evidence that the rest of DeFi is safe.
+ */
+export function computeDepegAdjustedScore(
+	baseScore: number,
+	depegRisk: number,
+): AIModelScore {
+	// Blend base score with depeg risk (30% depeg weight), never below the base
+	const adjusted = Math.max(baseScore, Math.round(baseScore * 0.7 + depegRisk * 0.3))
+
+	return {
+		model: 'Depeg-Adjusted',
+		score: Math.min(100, Math.max(0, adjusted)),
+		confidence: 0.6, // Derived model, moderate confidence
+		latencyMs: 0,
+		available: true,
+	}
+}
+
+/**
+ * Build a volatility-aware model score from the ETH volatility risk, or an
+ * unavailable model when the feed history could not be read. Like depeg
+ * risk, a calm market only leaves the base score as is.
+ */
+export function computeVolatilityAdjustedScore(
+	baseScore: number,
+	volatilityRisk: number | null,
+): AIModelScore {
+	if (volatilityRisk === null) {
+		return { model: 'Volatility-Adjusted', score: 0, confidence: 0, latencyMs: 0, available: false }
+	}
+
+	// Blend base score with volatility risk (30% volatility weight), never below the base
+	const adjusted = Math.max(baseScore, Math.round(baseScore * 0.7 + volatilityRisk * 0.3))
+
+	return {
+		model: 'Volatility-Adjusted',
+		score: Math.min(100, Math.max(0, adjusted)),
+		confidence: 0.6, // Derived model, moderate confidence
+		latencyMs: 0,
+		available: true,
+	}
+}
+
 /**
  * Format consensus results for logging/display
  */
@@ -233,10 +308,14 @@ export function formatConsensusForLog(result: ConsensusResult): string[] {
 	]
 
 	for (const model of result.scores) {
-		const status = model.available ? `${model.score}/100` : 'UNAVAILABLE'
+		const status = model.available ? `${model.score}/100 (${model.latencyMs}ms)` : 'UNAVAILABLE'
 		const tag = result.outliers.includes(model.model) ? ' [OUTLIER]' : ''
 		lines.push(`  ${model.model}: ${status}${tag}`)
 	}
 
+	for (const signal of result.degradedSignals) {
+		lines.push(`  Degraded Signal:   ${signal} (excluded, -${DEGRADED_SIGNAL_PENALTY}% confidence)`)
+	}
+
 	return lines
 }
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'bun:test'
+import { evmNetworkIssues } from './networks'
+
+const MAINNET_FEED = '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419'
+const SEPOLIA_FEED = '0x694AA1769357215DE4FAC081bf1f309aDC325306'
+const UNKNOWN_FEED = '0x1111111111111111111111111111111111111111'
+const ORACLE = '0x2222222222222222222222222222222222222222'
+
+const mainnet = (priceFeedAddress: string) => ({
+	network: 'mainnet' as const,
+	chainSelectorName: 'ethereum-mainnet',
+	priceFeedAddress,
+	oracleAddress: ORACLE,
+})
+
+describe('evmNetworkIssues', () => {
+	it('accepts a known mainnet feed in production', () => {
+		expect(evmNetworkIssues('production', [mainnet(MAINNET_FEED)])).toEqual([])
+	})
+
+	it('rejects a testnet feed on a mainnet chain', () => {
+		expect(evmNetworkIssues('staging', [mainnet(SEPOLIA_FEED)])).toEqual([
+			'evms[0] (ethereum-mainnet): priceFeedAddress is a testnet feed (ethereum-testnet-sepolia)',
+		])
+	})
+
+	it('rejects an unknown feed in production', () => {
+		expect(evmNetworkIssues('production', [mainnet(UNKNOWN_FEED)])).toEqual([
+			'evms[0] (ethereum-mainnet): priceFeedAddress is not a known Chainlink ETH/USD feed for this chain',
+		])
+	})
+
+	it('allows an unknown feed outside production', () => {
+		expect(evmNetworkIssues('staging', [mainnet(UNKNOWN_FEED)])).toEqual([])
+	})
+
+	it('rejects a known feed of another mainnet in production', () => {
+		const arbitrum = { ...mainnet(MAINNET_FEED), chainSelectorName: 'ethereum-mainnet-arbitrum-1' }
+		expect(evmNetworkIssues('production', [arbitrum])).toEqual([
+			'evms[0] (ethereum-mainnet-arbitrum-1): priceFeedAddress belongs to ethereum-mainnet',
+		])
+	})
+})
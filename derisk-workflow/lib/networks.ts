@@ -0,0 +1,94 @@
+/**
+ * DeRisk Protocol - Network Profiles
+ *
+ * Every `evms` entry declares whether it targets a mainnet or a testnet, so
+ * the workflow resolves chains without hard-coded flags. Config validation
+ * rejects entries whose chain, network mode and ETH/USD feed disagree, and a
+ * `production` profile may only publish to mainnets, reading a known feed.
+ */
+
+import { zeroAddress } from 'viem'
+import { z } from 'zod'
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const networkModeSchema = z.enum(['mainnet', 'testnet'])
+
+export type NetworkMode = z.infer<typeof networkModeSchema>
+
+export const environmentSchema = z.enum(['staging', 'production'])
+
+export type Environment = z.infer<typeof environmentSchema>
+
+// The fields of an `evms` entry the network checks look at
+interface EvmNetworkEntry {
+	network: NetworkMode
+	chainSelectorName: string
+	priceFeedAddress: string
+	oracleAddress: string
+}
+
+// ============================================================================
+// Known Feeds
+// ============================================================================
+
+// Chainlink ETH/USD feeds, keyed by lowercase address
+const KNOWN_ETH_USD_FEEDS: Record<string, { chainSelectorName: string; network: NetworkMode }> = {
+	'0x5f4ec3df9cbd43714fe2740f5e3616155c5b8419': { chainSelectorName: 'ethereum-mainnet', network: 'mainnet' },
+	'0x639fe6ab55c921f74e7fac1ee960c0b6293ba612': { chainSelectorName: 'ethereum-mainnet-arbitrum-1', network: 'mainnet' },
+	'0x71041dddad3595f9ced3dccfbe3d1f4b0a16bb70': { chainSelectorName: 'ethereum-mainnet-base-1', network: 'mainnet' },
+	'0x694aa1769357215de4fac081bf1f309adc325306': { chainSelectorName: 'ethereum-testnet-sepolia', network: 'testnet' },
+	'0xd30e2101a97dcbaebcbc04f14c3f624e67a35165': { chainSelectorName: 'ethereum-testnet-sepolia-arbitrum-1', network: 'testnet' },
+	'0x4adc67696ba383f43dd60a9e78f2c97fbbfc7cb1': { chainSelectorName: 'ethereum-testnet-sepolia-base-1', network: 'testnet' },
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * CRE chain selector names carry the network in the name
+ * ("ethereum-testnet-sepolia" vs "ethereum-mainnet-arbitrum-1")
+ */
+export const chainNetworkMode = (chainSelectorName: string): NetworkMode =>
+	chainSelectorName.includes('-testnet-') ? 'testnet' : 'mainnet'
+
+/**
+ * Config issues for the `evms` entries, as messages prefixed with the entry
+ * index. Empty when the entries are consistent for the given environment.
+ */
+export function evmNetworkIssues(environment: Environment, evms: EvmNetworkEntry[]): string[] {
+	const issues: string[] = []
+
+	evms.forEach((evm, i) => {
+		const label = `evms[${i}] (${evm.chainSelectorName})`
+
+		if (chainNetworkMode(evm.chainSelectorName) !== evm.network) {
+			issues.push(`${label}: network "${evm.network}" does not match the chain`)
+		}
+
+		const feed = KNOWN_ETH_USD_FEEDS[evm.priceFeedAddress.toLowerCase()]
+		if (feed && feed.network !== evm.network) {
+			issues.push(`${label}: priceFeedAddress is a ${feed.network} feed (${feed.chainSelectorName})`)
+		} else if (feed && feed.chainSelectorName !== evm.chainSelectorName) {
+			issues.push(`${label}: priceFeedAddress belongs to ${feed.chainSelectorName}`)
+		}
+
+		if (environment === 'production') {
+			if (evm.network !== 'mainnet') {
+				issues.push(`${label}: production profiles may only target mainnets`)
+			}
+			// An unlisted address could be a testnet or non-ETH feed; only known feeds pass
+			if (!feed) {
+				issues.push(`${label}: priceFeedAddress is not a known Chainlink ETH/USD feed for this chain`)
+			}
+			if (evm.oracleAddress.toLowerCase() === zeroAddress) {
+				issues.push(`${label}: oracleAddress is unset; deploy DeRiskOracle and fill it in`)
+			}
+		}
+	})
+
+	return issues
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'bun:test'
+import { type AssessmentUniverse, parseAssessmentRequest, scopeTvlHistory } from './on-demand-assessment'
+import type { TvlHistory } from './tvl-trend'
+
+const UNIVERSE: AssessmentUniverse = {
+	protocols: ['aave', 'compound', 'maker'],
+	stablecoins: ['USDT', 'USDC'],
+	lstTokens: ['stETH'],
+}
+
+describe('parseAssessmentRequest', () => {
+	it('defaults to a full, unstressed, unpublished assessment', () => {
+		expect(parseAssessmentRequest({}, UNIVERSE)).toEqual({ protocols: null, stress: null, publish: false })
+	})
+
+	it('accepts publishing a full, unstressed assessment', () => {
+		expect(parseAssessmentRequest({ publish: true }, UNIVERSE)).toEqual({ protocols: null, stress: null, publish: true })
+	})
+
+	it('treats naming every protocol as the whole registry', () => {
+		const options = parseAssessmentRequest({ protocols: ['maker', 'aave', 'compound', 'aave'], publish: true }, UNIVERSE)
+		expect(options.protocols).toBeNull()
+	})
+
+	it('keeps a subset in registry order', () => {
+		expect(parseAssessmentRequest({ protocols: ['maker', 'aave'] }, UNIVERSE).protocols).toEqual(['aave', 'maker'])
+	})
+
+	it('rejects publishing a protocol subset', () => {
+		expect(() => parseAssessmentRequest({ protocols: ['aave'], publish: true }, UNIVERSE)).toThrow(
+			'publish: only a full, unstressed assessment can be published on-chain',
+		)
+	})
+
+	it('rejects publishing with stress overrides', () => {
+		expect(() => parseAssessmentRequest({ stress: { ethPriceShock: 0.2 }, publish: true }, UNIVERSE)).toThrow(
+			'publish: only a full, unstressed assessment can be published on-chain',
+		)
+	})
+
+	it('accepts an empty stress block as unstressed', () => {
+		expect(parseAssessmentRequest({ stress: {}, publish: true }, UNIVERSE).stress).toBeNull()
+	})
+
+	it('rejects unknown protocol keys and symbols, listing all of them', () => {
+		const request = {
+			protocols: ['aave', 'spark'],
+			stress: { tvlShocks: { euler: 0.3 }, stablecoinPrices: { DAI: 0.95 }, lstPrices: { rETH: 0.9 } },
+		}
+		expect(() => parseAssessmentRequest(request, UNIVERSE)).toThrow(
+			'Invalid assessment request: protocols: unknown protocol "spark"; stress.tvlShocks: unknown protocol "euler"; ' +
+				'stress.stablecoinPrices: unknown stablecoin "DAI"; stress.lstPrices: unknown LST "rETH"',
+		)
+	})
+
+	it('rejects a body that does not match the schema', () => {
+		expect(() => parseAssessmentRequest({ protocols: [] }, UNIVERSE)).toThrow('Invalid assessment request: protocols:')
+		expect(() => parseAssessmentRequest({ stress: { ethPriceShock: 1 } }, UNIVERSE)).toThrow('stress.ethPriceShock:')
+		expect(() => parseAssessmentRequest('assess', UNIVERSE)).toThrow('Invalid assessment request: body:')
+	})
+})
+
+describe('scopeTvlHistory', () => {
+	const history: TvlHistory = {
+		previous: { timestamp: 1_700_000_000, totalTvl: 30e9, riskScore: 35 },
+		windows: {
+			change1h: { timestamp: 1_699_996_400, totalTvl: 30e9, riskScore: 34 },
+			change24h: { timestamp: 1_699_913_600, totalTvl: 31e9, riskScore: 30 },
+			change7d: null,
+		},
+		protocolTvls: { aave: 20e9, compound: 4e9, maker: 6e9 },
+	}
+
+	it('drops the trend windows and rebuilds the previous total for a subset', () => {
+		expect(scopeTvlHistory(history, ['aave', 'maker'])).toEqual({
+			previous: { timestamp: 1_700_000_000, totalTvl: 26e9, riskScore: 35 },
+			windows: { change1h: null, change24h: null, change7d: null },
+			protocolTvls: { aave: 20e9, maker: 6e9 },
+		})
+	})
+
+	it('has no previous cycle for protocols never published', () => {
+		expect(scopeTvlHistory(history, ['spark']).previous).toBeNull()
+	})
+})
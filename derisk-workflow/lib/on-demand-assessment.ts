@@ -0,0 +1,191 @@
+/**
+ * DeRisk Protocol - On-Demand Assessment Requests
+ *
+ * Integrators want a fresh assessment right before a large governance
+ * action, not on the cron schedule. An HTTP trigger (main.ts) accepts a
+ * request signed by one of `httpTrigger.authorizedKeys` and runs the same
+ * pipeline, optionally over a subset of the protocol registry and with
+ * stress overrides applied on top of the live data. The full structured
+ * result is returned to the caller.
+ *
+ * Publishing on-chain is opt-in and only allowed for a full, unstressed
+ * assessment: a partial or hypothetical report would overwrite the oracle
+ * state that consumer contracts act on.
+ */
+
+import { z } from 'zod'
+import type { PriceFeedHealth } from './price-feed-health'
+import type { PricePoint } from './eth-volatility'
+import type { TvlHistory } from './tvl-trend'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const httpTriggerSchema = z.object({
+	// EVM addresses whose signed requests the gateway accepts
+	authorizedKeys: z.array(z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be an EVM address')).min(1),
+})
+
+export type HttpTriggerConfig = z.infer<typeof httpTriggerSchema>
+
+// ============================================================================
+// Request
+// ============================================================================
+
+const fractionSchema = z.number().min(0).max(0.99)
+
+export const stressOverridesSchema = z.object({
+	tvlShocks: z.record(z.string(), fractionSchema).optional(), // Share of TVL removed, by registry key, e.g. { "aave": 0.3 }
+	ethPriceShock: fractionSchema.optional(), // ETH/USD drop applied to the healthy feed price, e.g. 0.2
+	stablecoinPrices: z.record(z.string(), z.number().positive()).optional(), // USD price by symbol, e.g. { "USDC": 0.95 }
+	lstPrices: z.record(z.string(), z.number().positive()).optional(), // Market price in ETH by symbol, e.g. { "stETH": 0.94 }
+})
+
+export type StressOverrides = z.infer<typeof stressOverridesSchema>
+
+// HTTP trigger request body
+export const assessmentRequestSchema = z.object({
+	protocols: z.array(z.string()).min(1).optional(), // Registry keys; the whole registry when omitted
+	stress: stressOverridesSchema.optional(),
+	publish: z.boolean().optional(), // Write the report on-chain (default false)
+})
+
+export type AssessmentRequest = z.infer<typeof assessmentRequestSchema>
+
+// How one pipeline run is scoped; cron and log triggers run SCHEDULED_ASSESSMENT
+export interface AssessmentOptions {
+	protocols: string[] | null // Registry keys to assess, null for the whole registry
+	stress: StressOverrides | null
+	publish: boolean
+}
+
+export const SCHEDULED_ASSESSMENT: AssessmentOptions = { protocols: null, stress: null, publish: true }
+
+// What a request may name: keys and symbols from the workflow config
+export interface AssessmentUniverse {
+	protocols: string[]
+	stablecoins: string[]
+	lstTokens: string[]
+}
+
+const unknownKeys = (keys: string[], known: string[]): string[] => keys.filter((key) => !known.includes(key))
+
+/**
+ * Validate a request body against the schema and the configured universe.
+ * Throws with every problem listed, so the caller can fix the request in
+ * one round trip.
+ */
+export function parseAssessmentRequest(body: unknown, universe: AssessmentUniverse): AssessmentOptions {
+	const parsed = assessmentRequestSchema.safeParse(body)
+	if (!parsed.success) {
+		throw new Error(
+			`Invalid assessment request: ${parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ')}`,
+		)
+	}
+
+	const request = parsed.data
+	const stress = request.stress ?? {}
+	const issues = [
+		...unknownKeys(request.protocols ?? [], universe.protocols).map((key) => `protocols: unknown protocol "${key}"`),
+		...unknownKeys(Object.keys(stress.tvlShocks ?? {}), universe.protocols).map((key) => `stress.tvlShocks: unknown protocol "${key}"`),
+		...unknownKeys(Object.keys(stress.stablecoinPrices ?? {}), universe.stablecoins).map(
+			(symbol) => `stress.stablecoinPrices: unknown stablecoin "${symbol}"`,
+		),
+		...unknownKeys(Object.keys(stress.lstPrices ?? {}), universe.lstTokens).map((symbol) => `stress.lstPrices: unknown LST "${symbol}"`),
+	]
+
+	// Duplicates are dropped; naming every registered protocol is the whole registry
+	const protocols = request.protocols ? universe.protocols.filter((key) => request.protocols?.includes(key)) : null
+	const options: AssessmentOptions = {
+		protocols: protocols && protocols.length < universe.protocols.length ? protocols : null,
+		stress: Object.values(stress).some((overrides) => overrides !== undefined) ? stress : null,
+		publish: request.publish ?? false,
+	}
+	if (options.publish && (options.protocols || options.stress)) {
+		issues.push('publish: only a full, unstressed assessment can be published on-chain')
+	}
+
+	if (issues.length > 0) {
+		throw new Error(`Invalid assessment request: ${issues.join('; ')}`)
+	}
+	return options
+}
+
+// ============================================================================
+// Scope & Stress
+// ============================================================================
+
+/**
+ * Oracle history narrowed to a protocol subset. The round snapshots only
+ * record the registry-wide total, so the 1h/24h/7d windows are dropped
+ * rather than compared against a larger basket (which would read as an
+ * outflow); the previous cycle total is rebuilt from per-protocol TVLs.
+ */
+export function scopeTvlHistory(history: TvlHistory, keys: string[]): TvlHistory {
+	const protocolTvls = Object.fromEntries(Object.entries(history.protocolTvls).filter(([key]) => keys.includes(key)))
+	const previousTotal = Object.values(protocolTvls).reduce((sum, tvl) => sum + tvl, 0)
+	return {
+		previous: history.previous && previousTotal > 0 ? { ...history.previous, totalTvl: previousTotal } : null,
+		windows: { change1h: null, change24h: null, change7d: null },
+		protocolTvls,
+	}
+}
+
+/**
+ * Values with the given overrides applied: TVL shocks scale the reading,
+ * price overrides replace it
+ */
+export const applyTvlShocks = (tvls: Record<string, number>, shocks: Record<string, number> | undefined): Record<string, number> =>
+	Object.fromEntries(Object.entries(tvls).map(([key, tvl]) => [key, tvl * (1 - (shocks?.[key] ?? 0))]))
+
+export const applyPriceOverrides = <T extends Record<string, number>>(prices: T, overrides: Record<string, number> | undefined): T => ({
+	...prices,
+	...Object.fromEntries(Object.entries(overrides ?? {}).filter(([symbol]) => symbol in prices)),
+})
+
+/**
+ * Feed health with the ETH shock applied to the scoring price. A degraded
+ * feed stays degraded: there is no price to shock. `feedPrice` keeps the
+ * reported value for logging.
+ */
+export const applyEthShock = (feed: PriceFeedHealth, shock: number | undefined): PriceFeedHealth =>
+	feed.price === null || !shock ? feed : { ...feed, price: feed.price * (1 - shock) }
+
+/**
+ * Round history with the shocked price as the latest round, so realized
+ * volatility and drawdown see the hypothetical move
+ */
+export const stressRoundHistory = (points: PricePoint[], shockedPrice: number, asOf: number): PricePoint[] => [
+	...points,
+	{ timestamp: asOf, price: shockedPrice },
+]
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * One line per scope or override, for the run log
+ */
+export function describeAssessmentOptions(options: AssessmentOptions): string[] {
+	const percent = (fraction: number): string => `${(fraction * 100).toFixed(1)}%`
+	const lines = [
+		`Protocols: ${options.protocols ? options.protocols.join(', ') : 'whole registry'}`,
+		`Publish:   ${options.publish ? 'on-chain' : 'no (result returned to the caller only)'}`,
+	]
+	const stress = options.stress
+	for (const [key, shock] of Object.entries(stress?.tvlShocks ?? {})) {
+		lines.push(`Stress:    ${key} TVL -${percent(shock)}`)
+	}
+	if (stress?.ethPriceShock) {
+		lines.push(`Stress:    ETH/USD -${percent(stress.ethPriceShock)}`)
+	}
+	for (const [symbol, price] of Object.entries(stress?.stablecoinPrices ?? {})) {
+		lines.push(`Stress:    ${symbol} at $${price.toFixed(4)}`)
+	}
+	for (const [symbol, price] of Object.entries(stress?.lstPrices ?? {})) {
+		lines.push(`Stress:    ${symbol} at ${price.toFixed(4)} ETH`)
+	}
+	return lines
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'bun:test'
+import { type PriceFeedChecks, type PriceFeedRound, assessPriceFeed, formatEthPriceForAI } from './price-feed-health'
+
+const NOW = 1_700_000_000
+const CHECKS: PriceFeedChecks = { maxAgeSeconds: 3_900, maxDeviation: 0.03 }
+
+// A complete $2,500.00 round updated a minute ago
+const round = (overrides: Partial<PriceFeedRound> = {}): PriceFeedRound => ({
+	roundId: 100n,
+	answer: 2_500_00000000n,
+	startedAt: BigInt(NOW - 60),
+	updatedAt: BigInt(NOW - 60),
+	answeredInRound: 100n,
+	...overrides,
+})
+
+describe('assessPriceFeed', () => {
+	it('passes a fresh, complete round that agrees with the secondary source', () => {
+		const health = assessPriceFeed(round(), 2_490, NOW, CHECKS)
+		expect(health).toMatchObject({ healthy: true, price: 2_500, feedPrice: 2_500, ageSeconds: 60, secondaryPrice: 2_490, issues: [] })
+		expect(health.deviation).toBeCloseTo(10 / 2_490)
+	})
+
+	it('rejects a stale round', () => {
+		const health = assessPriceFeed(round({ updatedAt: BigInt(NOW - 3_901) }), 2_500, NOW, CHECKS)
+		expect(health.healthy).toBe(false)
+		expect(health.price).toBeNull()
+		expect(health.issues).toEqual(['stale: updated 3901s ago (max 3900s)'])
+	})
+
+	it('accepts a round exactly at the max age', () => {
+		expect(assessPriceFeed(round({ updatedAt: BigInt(NOW - 3_900) }), 2_500, NOW, CHECKS).healthy).toBe(true)
+	})
+
+	it('rejects a round answered in an earlier round', () => {
+		const health = assessPriceFeed(round({ answeredInRound: 99n }), 2_500, NOW, CHECKS)
+		expect(health.healthy).toBe(false)
+		expect(health.issues).toEqual(['incomplete round 100 (answered in 99)'])
+	})
+
+	it('rejects a round that never completed', () => {
+		const health = assessPriceFeed(round({ updatedAt: 0n }), 2_500, NOW, CHECKS)
+		expect(health.healthy).toBe(false)
+		expect(health.issues[0]).toBe('incomplete round 100 (answered in 100)')
+	})
+
+	it('rejects a non-positive answer', () => {
+		for (const answer of [0n, -1n]) {
+			const health = assessPriceFeed(round({ answer }), 2_500, NOW, CHECKS)
+			expect(health.healthy).toBe(false)
+			expect(health.price).toBeNull()
+			expect(health.issues).toEqual([`non-positive answer (${answer})`])
+			// No deviation against a price the feed does not have
+			expect(health.deviation).toBeNull()
+		}
+	})
+
+	it('rejects an implausible price that deviates from the secondary source', () => {
+		const health = assessPriceFeed(round({ answer: 2_600_00000000n }), 2_500, NOW, CHECKS)
+		expect(health.healthy).toBe(false)
+		expect(health.deviation).toBeCloseTo(0.04)
+		expect(health.issues).toEqual(['deviates 4.00% from secondary $2500.00 (max 3.00%)'])
+	})
+
+	it('skips the deviation check without a secondary price', () => {
+		const health = assessPriceFeed(round({ answer: 9_999_00000000n }), 0, NOW, CHECKS)
+		expect(health).toMatchObject({ healthy: true, price: 9_999, secondaryPrice: null, deviation: null })
+	})
+
+	it('reports every issue of a broken round', () => {
+		const health = assessPriceFeed(round({ answer: 0n, updatedAt: 0n }), 2_500, NOW, CHECKS)
+		expect(health.issues).toHaveLength(3)
+	})
+})
+
+describe('formatEthPriceForAI', () => {
+	it('hides a degraded price from the model', () => {
+		const line = formatEthPriceForAI(assessPriceFeed(round({ answeredInRound: 99n }), 2_500, NOW, CHECKS))
+		expect(line).toStartWith('UNAVAILABLE')
+		expect(line).not.toContain('2500')
+	})
+})
@@ -0,0 +1,105 @@
+/**
+ * DeRisk Protocol - Price Feed Health Checks
+ *
+ * A stale or broken Chainlink round would otherwise flow straight into the
+ * ETH price adjustment. Each cycle's `latestRoundData()` is checked for a
+ * positive answer, a complete round, a configurable max age and agreement
+ * with the secondary price source (`dataSources.ethPrice`). An unhealthy
+ * feed degrades the ETH signal: it is dropped from scoring and reported to
+ * the consensus.
+ */
+
+import { z } from 'zod'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const priceFeedChecksSchema = z.object({
+	maxAgeSeconds: z.number().int().positive(), // Feed heartbeat plus margin
+	maxDeviation: z.number().positive().max(1), // Max |feed - secondary| / secondary, e.g. 0.03
+})
+
+export type PriceFeedChecks = z.infer<typeof priceFeedChecksSchema>
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// latestRoundData() as returned by the aggregator proxy
+export interface PriceFeedRound {
+	roundId: bigint
+	answer: bigint // 8 decimals
+	startedAt: bigint
+	updatedAt: bigint // unix seconds, 0 for an incomplete round
+	answeredInRound: bigint
+}
+
+export interface PriceFeedHealth {
+	healthy: boolean
+	price: number | null // USD; null when degraded, so no consumer can use it by accident
+	feedPrice: number // USD as reported, for logging
+	ageSeconds: number
+	secondaryPrice: number | null // null when the secondary source was unavailable
+	deviation: number | null // |feed - secondary| / secondary
+	issues: string[]
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Check one round against the configured bounds. A missing secondary price
+ * skips the deviation check (noted, not fatal): the feed is the primary
+ * source and the secondary is only there to catch it drifting.
+ */
+export function assessPriceFeed(
+	round: PriceFeedRound,
+	secondaryPrice: number,
+	nowSeconds: number,
+	checks: PriceFeedChecks,
+): PriceFeedHealth {
+	const issues: string[] = []
+	const feedPrice = Number(round.answer) / 1e8
+	const ageSeconds = nowSeconds - Number(round.updatedAt)
+
+	if (round.answer <= 0n) {
+		issues.push(`non-positive answer (${round.answer})`)
+	}
+	if (round.updatedAt === 0n || round.answeredInRound < round.roundId) {
+		issues.push(`incomplete round ${round.roundId} (answered in ${round.answeredInRound})`)
+	}
+	if (ageSeconds > checks.maxAgeSeconds) {
+		issues.push(`stale: updated ${ageSeconds}s ago (max ${checks.maxAgeSeconds}s)`)
+	}
+
+	let deviation: number | null = null
+	if (secondaryPrice > 0 && feedPrice > 0) {
+		deviation = Math.abs(feedPrice - secondaryPrice) / secondaryPrice
+		if (deviation > checks.maxDeviation) {
+			issues.push(
+				`deviates ${(deviation * 100).toFixed(2)}% from secondary $${secondaryPrice.toFixed(2)} (max ${(checks.maxDeviation * 100).toFixed(2)}%)`,
+			)
+		}
+	}
+
+	const healthy = issues.length === 0
+	return {
+		healthy,
+		price: healthy ? feedPrice : null,
+		feedPrice,
+		ageSeconds,
+		secondaryPrice: secondaryPrice > 0 ? secondaryPrice : null,
+		deviation,
+		issues,
+	}
+}
+
+/**
+ * ETH price line for the AI risk assessment prompt
+ */
+export const formatEthPriceForAI = (health: PriceFeedHealth): string =>
+	health.price !== null
+		? `$${health.price.toFixed(2)}`
+		: `UNAVAILABLE - Chainlink feed degraded (${health.issues.join('; ')}); do not infer ETH price stress`
@@ -0,0 +1,127 @@
+/**
+ * DeRisk Protocol - Monitored Protocol Registry
+ *
+ * Single source of truth for which DeFi protocols the oracle monitors.
+ * Every pipeline stage (DeFi Llama fetch, contagion analysis, rule-based
+ * scoring, on-chain publishing) iterates over this registry, so adding
+ * Spark, Morpho or Euler is a config change rather than a code change.
+ *
+ * Registry entries live in config.*.json under `protocols`.
+ */
+
+import { stringToHex } from 'viem'
+import { z } from 'zod'
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+export const protocolCategorySchema = z.enum(['lending', 'cdp', 'dex', 'liquid-staking'])
+
+export type ProtocolCategory = z.infer<typeof protocolCategorySchema>
+
+export const protocolConfigSchema = z.object({
+	key: z.string().regex(/^[a-z0-9-]{1,31}$/), // Short id, also the on-chain bytes32 id
+	name: z.string(), // Display name: "Aave V3"
+	slug: z.string(), // DeFi Llama protocol slug: "aave-v3"
+	category: protocolCategorySchema,
+	thresholds: z.object({
+		critical: z.number(), // TVL (USD) below which the protocol is in crisis
+		warning: z.number(),
+		caution: z.number(),
+	}),
+	weight: z.number().int().min(0).max(100), // Share of the aggregate score
+})
+
+export type ProtocolConfig = z.infer<typeof protocolConfigSchema>
+
+export const protocolRegistrySchema = z
+	.array(protocolConfigSchema)
+	.min(1)
+	.superRefine((protocols, ctx) => {
+		const keys = new Set<string>()
+		for (const protocol of protocols) {
+			if (keys.has(protocol.key)) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate protocol key: ${protocol.key}` })
+			}
+			keys.add(protocol.key)
+
+			const { critical, warning, caution } = protocol.thresholds
+			if (!(critical < warning && warning < caution)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: `${protocol.key}: thresholds must satisfy critical < warning < caution`,
+				})
+			}
+		}
+
+		const totalWeight = protocols.reduce((sum, p) => sum + p.weight, 0)
+		if (totalWeight !== 100) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Protocol weights must sum to 100 (got ${totalWeight})` })
+		}
+	})
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// A registry entry paired with its live TVL reading
+export interface ProtocolReading {
+	protocol: ProtocolConfig
+	tvl: number // USD
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+// Original three-protocol universe. Used by the historical backtester, whose
+// archived snapshots only cover these protocols.
+export const DEFAULT_PROTOCOLS: ProtocolConfig[] = [
+	{
+		key: 'aave',
+		name: 'Aave V3',
+		slug: 'aave-v3',
+		category: 'lending',
+		thresholds: { critical: 5e9, warning: 15e9, caution: 20e9 },
+		weight: 50,
+	},
+	{
+		key: 'compound',
+		name: 'Compound V3',
+		slug: 'compound-v3',
+		category: 'lending',
+		thresholds: { critical: 500e6, warning: 1e9, caution: 2e9 },
+		weight: 25,
+	},
+	{
+		key: 'maker',
+		name: 'MakerDAO',
+		slug: 'makerdao',
+		category: 'cdp',
+		thresholds: { critical: 2e9, warning: 4e9, caution: 6e9 },
+		weight: 25,
+	},
+]
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * On-chain protocol id: the registry key as a right-padded bytes32 string,
+ * so DeRiskOracle ids stay human-readable in explorers and the dashboard.
+ */
+export function protocolId(key: string): `0x${string}` {
+	return stringToHex(key, { size: 32 })
+}
+
+/**
+ * Pair registry entries with TVLs keyed by protocol key (missing → 0)
+ */
+export function toProtocolReadings(
+	protocols: ProtocolConfig[],
+	tvls: Record<string, number>,
+): ProtocolReading[] {
+	return protocols.map((protocol) => ({ protocol, tvl: tvls[protocol.key] ?? 0 }))
+}
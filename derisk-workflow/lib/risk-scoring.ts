@@ -0,0 +1,125 @@
+/**
+ * DeRisk Protocol - Rule-Based Risk Scoring
+ *
+ * Deterministic TVL, TVL velocity, lending utilization + ETH price scoring shared by the
+ * CRE workflow (fallback and consensus model) and the Chainlink Functions DON source.
+ * chainlink-functions-source.js is generated from this file by
+ * build-functions-source.ts, so the two implementations cannot drift.
+ *
+ * Keep this module dependency-free: the DON runs the transpiled code as-is.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// One registry entry as seen by the scorer (also the Functions args[1] shape)
+export interface ScoringInput {
+	tvl: number // USD
+	thresholds: { critical: number; warning: number; caution: number }
+	weight: number
+}
+
+// Fractional change of registry TVL over each window (-0.1 = 10% outflow),
+// null when the oracle history does not reach back that far
+export interface TvlChangeRates {
+	change1h: number | null
+	change24h: number | null
+	change7d: number | null
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * ETH price risk adjustment, applied uniformly to every protocol
+ * (none when the price feed is degraded and no price is available)
+ */
+export function ethPriceAdjustment(ethPrice: number | null): number {
+	if (ethPrice === null) return 0
+	if (ethPrice < 1000) return 20
+	if (ethPrice < 1500) return 10
+	if (ethPrice < 2000) return 5
+	return 0
+}
+
+/**
+ * TVL velocity adjustment, applied uniformly to every protocol: outflow speed
+ * across the registry, with shorter windows weighted heavier (capped at 30)
+ */
+export function tvlVelocityAdjustment(rates: TvlChangeRates): number {
+	let adj = 0
+	if (rates.change1h !== null) {
+		if (rates.change1h <= -0.03) adj += 15
+		else if (rates.change1h <= -0.01) adj += 8
+	}
+	if (rates.change24h !== null) {
+		if (rates.change24h <= -0.1) adj += 15
+		else if (rates.change24h <= -0.05) adj += 8
+	}
+	if (rates.change7d !== null) {
+		if (rates.change7d <= -0.2) adj += 10
+		else if (rates.change7d <= -0.1) adj += 5
+	}
+	return Math.min(30, adj)
+}
+
+/**
+ * Lending utilization adjustment, applied uniformly to every protocol: near
+ * 100% borrowed, suppliers cannot withdraw (none when utilization is unavailable)
+ */
+export function utilizationAdjustment(utilization: number | null): number {
+	if (utilization === null) return 0
+	if (utilization >= 0.95) return 20
+	if (utilization >= 0.9) return 12
+	if (utilization >= 0.8) return 5
+	return 0
+}
+
+/**
+ * TVL score for one protocol: threshold bands plus a concentration bonus
+ * when the protocol dominates (>80%) or is marginal (<5%) in the registry
+ */
+export function scoreProtocol(input: ScoringInput, totalTvl: number): number {
+	const { critical, warning, caution } = input.thresholds
+	let score = 15
+	if (input.tvl < critical) score += 40
+	else if (input.tvl < warning) score += 20
+	else if (input.tvl < caution) score += 10
+
+	if (totalTvl > 0) {
+		const share = input.tvl / totalTvl
+		if (share > 0.8) score += 10
+		if (share < 0.05) score += 5
+	}
+
+	return Math.min(100, Math.max(0, score))
+}
+
+/**
+ * Per-protocol scores (0-100), aligned with `inputs`
+ */
+export function computeProtocolScores(
+	inputs: ScoringInput[],
+	ethPrice: number | null,
+	rates: TvlChangeRates,
+	utilization: number | null,
+): number[] {
+	const totalTvl = inputs.reduce((sum, input) => sum + input.tvl, 0)
+	const marketAdj = ethPriceAdjustment(ethPrice) + tvlVelocityAdjustment(rates) + utilizationAdjustment(utilization)
+	return inputs.map((input) => Math.min(100, scoreProtocol(input, totalTvl) + marketAdj))
+}
+
+/**
+ * Weight-averaged aggregate of per-protocol scores (50 if no weight)
+ */
+export function aggregateScore(inputs: ScoringInput[], scores: number[]): number {
+	let weightedSum = 0
+	let totalWeight = 0
+	inputs.forEach((input, i) => {
+		weightedSum += scores[i] * input.weight
+		totalWeight += input.weight
+	})
+	return totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 50
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'bun:test'
+import { scopeTvlHistory } from './on-demand-assessment'
+import type { ProtocolConfig, ProtocolReading } from './protocol-registry'
+import { EMPTY_TVL_HISTORY, type TvlHistory, type TvlHistoryPoint, TREND_WINDOWS, computeTvlTrend } from './tvl-trend'
+
+const AAVE = { key: 'aave', name: 'Aave V3' } as ProtocolConfig
+const COMPOUND = { key: 'compound', name: 'Compound V3' } as ProtocolConfig
+
+const NOW = 1_700_000_000
+
+const readings = (aave: number, compound: number): ProtocolReading[] => [
+	{ protocol: AAVE, tvl: aave },
+	{ protocol: COMPOUND, tvl: compound },
+]
+
+const point = (age: number, totalTvl: number, riskScore = 30): TvlHistoryPoint => ({ timestamp: NOW - age, totalTvl, riskScore })
+
+const history = (windows: Partial<TvlHistory['windows']>): TvlHistory => ({
+	previous: point(300, 100e9, 42),
+	windows: { ...EMPTY_TVL_HISTORY.windows, ...windows },
+	protocolTvls: { aave: 80e9, compound: 20e9 },
+})
+
+describe('computeTvlTrend', () => {
+	it('has no rates on a fresh oracle', () => {
+		const trend = computeTvlTrend(readings(80e9, 20e9), EMPTY_TVL_HISTORY, NOW)
+		expect(trend).toEqual({
+			change1h: null,
+			change24h: null,
+			change7d: null,
+			previousScore: null,
+			previousTotalTvl: null,
+			cycleChange: null,
+			protocolChanges: { aave: null, compound: null },
+		})
+	})
+
+	it('compares against the previous cycle, in total and per protocol', () => {
+		const trend = computeTvlTrend(readings(72e9, 18e9), history({}), NOW)
+		expect(trend.previousScore).toBe(42)
+		expect(trend.previousTotalTvl).toBe(100e9)
+		expect(trend.cycleChange).toBeCloseTo(-0.1)
+		expect(trend.protocolChanges['aave']).toBeCloseTo(-0.1)
+		expect(trend.protocolChanges['compound']).toBeCloseTo(-0.1)
+	})
+
+	it('reads each window against its reference round', () => {
+		const trend = computeTvlTrend(
+			readings(72e9, 18e9),
+			history({
+				change1h: point(TREND_WINDOWS.change1h, 100e9),
+				change24h: point(TREND_WINDOWS.change24h, 120e9),
+				change7d: point(TREND_WINDOWS.change7d, 60e9),
+			}),
+			NOW,
+		)
+		expect(trend.change1h).toBeCloseTo(-0.1)
+		expect(trend.change24h).toBeCloseTo(-0.25)
+		expect(trend.change7d).toBeCloseTo(0.5)
+	})
+
+	it('scales a change down to the window length when the reference round is older', () => {
+		const trend = computeTvlTrend(readings(72e9, 18e9), history({ change24h: point(2 * TREND_WINDOWS.change24h, 120e9) }), NOW)
+		expect(trend.change24h).toBeCloseTo(-0.125)
+	})
+
+	it('drops a window whose reference round is more than twice its length old', () => {
+		const trend = computeTvlTrend(
+			readings(72e9, 18e9),
+			history({ change1h: point(2 * TREND_WINDOWS.change1h + 1, 100e9) }),
+			NOW,
+		)
+		expect(trend.change1h).toBeNull()
+	})
+
+	it('drops a window with no usable reference value', () => {
+		const trend = computeTvlTrend(
+			readings(72e9, 18e9),
+			history({ change1h: point(0, 100e9), change24h: point(TREND_WINDOWS.change24h, 0) }),
+			NOW,
+		)
+		expect(trend.change1h).toBeNull()
+		expect(trend.change24h).toBeNull()
+	})
+
+	it('has no change for a protocol without a previous reading', () => {
+		const trend = computeTvlTrend(readings(80e9, 20e9), { ...history({}), protocolTvls: { aave: 80e9 } }, NOW)
+		expect(trend.protocolChanges).toEqual({ aave: 0, compound: null })
+	})
+})
+
+describe('protocol subsets', () => {
+	const full = history({
+		change1h: point(TREND_WINDOWS.change1h, 100e9),
+		change24h: point(TREND_WINDOWS.change24h, 100e9),
+		change7d: point(TREND_WINDOWS.change7d, 100e9),
+	})
+
+	it('compares a subset only against its own previous TVLs', () => {
+		const scoped = scopeTvlHistory(full, ['aave'])
+		expect(scoped.previous).toEqual({ ...full.previous!, totalTvl: 80e9 })
+		expect(scoped.protocolTvls).toEqual({ aave: 80e9 })
+
+		// Against the registry total, Aave alone would read as a 20% outflow
+		const trend = computeTvlTrend([{ protocol: AAVE, tvl: 80e9 }], scoped, NOW)
+		expect(trend.cycleChange).toBe(0)
+		expect(trend.protocolChanges).toEqual({ aave: 0 })
+	})
+
+	it('drops the registry-wide trend windows', () => {
+		const trend = computeTvlTrend([{ protocol: AAVE, tvl: 80e9 }], scopeTvlHistory(full, ['aave']), NOW)
+		expect([trend.change1h, trend.change24h, trend.change7d]).toEqual([null, null, null])
+	})
+
+	it('has no previous cycle when the subset was not published before', () => {
+		const scoped = scopeTvlHistory(full, ['spark'])
+		expect(scoped.previous).toBeNull()
+		expect(computeTvlTrend([], scoped, NOW).cycleChange).toBeNull()
+	})
+})
@@ -0,0 +1,131 @@
+/**
+ * DeRisk Protocol - TVL Velocity & Trend Signals
+ *
+ * Absolute TVL levels say little until a protocol is already in trouble;
+ * outflow speed is the earlier signal. This module turns the oracle's own
+ * history (the previous cycle's per-protocol TVLs and the round snapshots)
+ * into change rates over 1h, 24h and 7d for the AI prompt and the
+ * rule-based scorer.
+ */
+
+import type { ProtocolReading } from './protocol-registry'
+import type { TvlChangeRates } from './risk-scoring'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// One published round as recorded in the oracle snapshot history
+export interface TvlHistoryPoint {
+	timestamp: number // unix seconds
+	totalTvl: number // USD
+	riskScore: number // 0-100
+}
+
+// Prior state the trend is computed against (all empty on a fresh oracle)
+export interface TvlHistory {
+	previous: TvlHistoryPoint | null // Last published cycle
+	windows: Record<keyof TvlChangeRates, TvlHistoryPoint | null> // Latest round at least that old
+	protocolTvls: Record<string, number> // Last published TVL per registry key
+}
+
+export interface TvlTrend extends TvlChangeRates {
+	previousScore: number | null
+	previousTotalTvl: number | null
+	cycleChange: number | null // Registry TVL change since the previous cycle
+	protocolChanges: Record<string, number | null> // Per-protocol change since the previous cycle
+}
+
+// ============================================================================
+// Windows
+// ============================================================================
+
+// Look-back for each change rate, in seconds
+export const TREND_WINDOWS: Record<keyof TvlChangeRates, number> = {
+	change1h: 3_600,
+	change24h: 86_400,
+	change7d: 604_800,
+}
+
+// A reference round older than this multiple of its window (a gap in the
+// history) is too stale to stand in for that window
+const MAX_WINDOW_STRETCH = 2
+
+export const EMPTY_TVL_HISTORY: TvlHistory = {
+	previous: null,
+	windows: { change1h: null, change24h: null, change7d: null },
+	protocolTvls: {},
+}
+
+// ============================================================================
+// Trend Computation
+// ============================================================================
+
+const fractionalChange = (current: number, past: number | undefined | null): number | null =>
+	past !== undefined && past !== null && past > 0 ? (current - past) / past : null
+
+/**
+ * Change rates of the current readings (taken at `asOf`, unix seconds)
+ * against the oracle history. A window's rate is scaled to the window length
+ * when its reference round is older than the window.
+ */
+export function computeTvlTrend(readings: ProtocolReading[], history: TvlHistory, asOf: number): TvlTrend {
+	const totalTvl = readings.reduce((sum, { tvl }) => sum + tvl, 0)
+	const rateFor = (window: keyof TvlChangeRates): number | null => {
+		const point = history.windows[window]
+		const span = point ? asOf - point.timestamp : 0
+		const change = fractionalChange(totalTvl, point?.totalTvl)
+		if (change === null || span <= 0 || span > TREND_WINDOWS[window] * MAX_WINDOW_STRETCH) return null
+		return change * Math.min(1, TREND_WINDOWS[window] / span)
+	}
+
+	return {
+		change1h: rateFor('change1h'),
+		change24h: rateFor('change24h'),
+		change7d: rateFor('change7d'),
+		previousScore: history.previous?.riskScore ?? null,
+		previousTotalTvl: history.previous?.totalTvl ?? null,
+		cycleChange: fractionalChange(totalTvl, history.previous?.totalTvl),
+		protocolChanges: Object.fromEntries(
+			readings.map(({ protocol, tvl }) => [protocol.key, fractionalChange(tvl, history.protocolTvls[protocol.key])]),
+		),
+	}
+}
+
+/**
+ * Change rates only, in the shape the shared rule-based scorer takes
+ */
+export const toChangeRates = ({ change1h, change24h, change7d }: TvlTrend): TvlChangeRates => ({
+	change1h,
+	change24h,
+	change7d,
+})
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export const formatChange = (change: number | null): string =>
+	change === null ? 'n/a' : `${change >= 0 ? '+' : ''}${(change * 100).toFixed(2)}%`
+
+/**
+ * Format the trend for inclusion in the AI risk assessment prompt
+ */
+export function formatTrendForAI(trend: TvlTrend, readings: ProtocolReading[]): string {
+	const lines: string[] = [
+		'TVL VELOCITY & TREND (from oracle history):',
+		`Previous Cycle Score: ${trend.previousScore === null ? 'n/a (first cycle)' : `${trend.previousScore}/100`}`,
+		`Registry TVL Change: cycle ${formatChange(trend.cycleChange)}, 1h ${formatChange(trend.change1h)}, 24h ${formatChange(trend.change24h)}, 7d ${formatChange(trend.change7d)}`,
+		'',
+		'Per-Protocol Change Since Previous Cycle:',
+	]
+
+	for (const { protocol } of readings) {
+		lines.push(`  ${protocol.name}: ${formatChange(trend.protocolChanges[protocol.key] ?? null)}`)
+	}
+
+	lines.push('')
+	lines.push('Outflow speed predicts crises better than absolute TVL; weight accelerating outflows heavily.')
+
+	return lines.join('\n')
+}
@@ -0,0 +1,64 @@
+/**
+ * DeRisk Protocol - Local LLM Stub Server
+ *
+ * Deterministic stand-in for an LLM risk scorer, for local simulation and
+ * consensus testing without API keys. Serves the `local-stub` provider kind
+ * from lib/llm-providers.ts.
+ *
+ * Usage:
+ *   bun run llm-stub-server.ts
+ *
+ * Then add to config.local.json `llmProviders`:
+ *   { "kind": "local-stub", "name": "Local Stub", "url": "http://localhost:8787/score",
+ *     "model": "stub", "timeoutMs": 2000, "maxAttempts": 1, "confidence": 0.5 }
+ *
+ * Environment:
+ *   STUB_PORT        - Listen port (default 8787)
+ *   STUB_RISK_SCORE  - Score returned for the aggregate and every protocol (default 35)
+ *   STUB_DELAY_MS    - Artificial response delay, to exercise provider timeouts (default 0)
+ *   STUB_STATUS      - HTTP status to answer with, to exercise unavailability (default 200)
+ *   STUB_INVALID     - Answer the first N attempts of each scoring request off-schema, to exercise
+ *                      retries (default 0). The attempt is read from the retry note in the prompt,
+ *                      so every DON node gets the same answer for the same request
+ */
+
+const PORT = Number(process.env.STUB_PORT || 8787)
+const RISK_SCORE = Number(process.env.STUB_RISK_SCORE || 35)
+const DELAY_MS = Number(process.env.STUB_DELAY_MS || 0)
+const STATUS = Number(process.env.STUB_STATUS || 200)
+const INVALID_ATTEMPTS = Number(process.env.STUB_INVALID || 0)
+
+// First attempts carry no retry note; see buildRiskPrompt in lib/llm-providers.ts
+const attemptOf = (prompt: string): number => Number(/\nAttempt (\d+): your previous answer was rejected/.exec(prompt)?.[1] ?? 1)
+
+Bun.serve({
+	port: PORT,
+	async fetch(req) {
+		if (req.method !== 'POST') {
+			return new Response('POST a scoring request', { status: 405 })
+		}
+
+		const { prompt = '', protocols = [] } = (await req.json()) as { prompt?: string; protocols?: string[] }
+		if (DELAY_MS > 0) await Bun.sleep(DELAY_MS)
+
+		const attempt = attemptOf(prompt)
+		if (attempt <= INVALID_ATTEMPTS) {
+			console.log(`Scoring request for [${protocols.join(', ')}], attempt ${attempt} → off-schema answer`)
+			return Response.json({ riskScore: 'high' }, { status: STATUS })
+		}
+
+		console.log(`Scoring request for [${protocols.join(', ')}] → ${RISK_SCORE} (HTTP ${STATUS})`)
+		const subScores = { score: RISK_SCORE, tvlHealth: RISK_SCORE, contagion: RISK_SCORE, marketStress: RISK_SCORE }
+		return Response.json(
+			{
+				riskScore: RISK_SCORE,
+				protocols: Object.fromEntries(protocols.map((key) => [key, subScores])),
+				drivers: ['Local stub: fixed score'],
+				rationale: `Deterministic stub answer (STUB_RISK_SCORE=${RISK_SCORE}).`,
+			},
+			{ status: STATUS },
+		)
+	},
+})
+
+console.log(`LLM stub listening on http://localhost:${PORT}/score (score ${RISK_SCORE})`)
@@ -3,10 +3,17 @@
  * Chainlink Convergence Hackathon 2026
  *
  * CRE Workflow that:
- * 1. Fetches Aave V3 metrics from DeFi Llama
- * 2. Reads ETH/USD price from Chainlink Price Feed
- * 3. Runs AI risk analysis via Anthropic Claude
- * 4. Writes risk score + circuit breaker state on-chain
+ * 1. Fetches TVL for every registered protocol from the configured data sources
+ * 2. Reads ETH/USD price from Chainlink Price Feed and lending utilization
+ *    from the Aave Pool Data Provider
+ * 3. Runs AI risk analysis across the configured LLM providers (Claude,
+ *    OpenAI-compatible endpoints, local stub) plus rule-based models
+ * 4. Writes one batched risk report (score, TVLs, contagion, stablecoin and LST
+ *    peg states, per-protocol breakdown) + circuit breaker state on-chain
+ *
+ * Runs on a cron schedule and, with `eventTriggers`, as soon as a large Aave
+ * withdrawal or liquidation or an oracle staleness alert is logged. With
+ * `httpTrigger`, integrators can also request an assessment on demand.
  */
 
 import {
@@ -14,64 +21,243 @@ import {
 	ConfidentialHTTPClient,
 	type ConfidentialHTTPSendRequester,
 	consensusIdenticalAggregation,
+	consensusMedianAggregation,
 	ConsensusAggregationByFields,
 	type CronPayload,
+	decodeJson,
 	handler,
 	CronCapability,
 	EVMClient,
+	type EVMLog,
+	HTTPCapability,
 	HTTPClient,
-	type HTTPSendRequester,
+	type HTTPPayload,
 	encodeCallMsg,
 	getNetwork,
 	hexToBase64,
 	LAST_FINALIZED_BLOCK_NUMBER,
+	LATEST_BLOCK_NUMBER,
+	logTriggerConfig,
 	median,
 	ok,
+	type Report,
 	Runner,
 	type Runtime,
 	TxStatus,
 } from '@chainlink/cre-sdk'
 import { gcm } from '@noble/ciphers/aes'
-import { type Address, decodeFunctionResult, encodeFunctionData, zeroAddress } from 'viem'
+import { type Address, decodeFunctionResult, encodeFunctionData, keccak256, stringToHex, zeroAddress, zeroHash } from 'viem'
 import { z } from 'zod'
-import { ChainlinkPriceFeed, DeRiskOracle } from '../contracts/abi'
+import { AaveOracle, AaveProtocolDataProvider, ChainlinkPriceFeed, DeRiskOracle, LstRateProvider } from '../contracts/abi'
 import { analyzeContagion, formatContagionForAI, type ProtocolMetrics, type ContagionAnalysis } from './lib/contagion-analyzer'
-import { fetchRawStablecoinPrices, analyzeDepegRisk, formatDepegForAI, type StablecoinPricesRaw, type DepegAnalysis } from './lib/depeg-monitor'
-import { computeConsensus, computeRuleBasedScore, computeContagionAdjustedScore, formatConsensusForLog, type AIModelScore, type ConsensusResult } from './lib/multi-ai-consensus'
+import {
+	analyzeDepegRisk,
+	analyzeLstDepegRisk,
+	formatDepegForAI,
+	formatLstDepegForAI,
+	formatPegStatus,
+	liquidStakingSchema,
+	severityFromLevel,
+	severityLevel,
+	stablecoinId,
+	stablecoinUniverseSchema,
+	type DepegAnalysis,
+	type LstDepegAnalysis,
+	type LstPricesRaw,
+	type PegHistory,
+	type StablecoinPricesRaw,
+} from './lib/depeg-monitor'
+import {
+	fetchProviderResponse,
+	llmProvidersSchema,
+	requestValidatedScore,
+	toModelScore,
+	type LLMProviderConfig,
+	type LLMRiskResponse,
+	type ProviderHTTPResult,
+	type ProviderRequest,
+	type RiskPromptContext,
+} from './lib/llm-providers'
+import { computeConsensus, computeRuleBasedScore, computeRuleBasedProtocolScores, computeContagionAdjustedScore, computeDepegAdjustedScore, computeVolatilityAdjustedScore, formatConsensusForLog, type AIModelScore, type ConsensusResult, type ProtocolScore } from './lib/multi-ai-consensus'
+import { assessTvlQuality, formatQualityForAI } from './lib/data-quality'
+import { dataSourcesSchema, fetchEthPrice, fetchLstPrices, fetchProtocolTvls, fetchStablecoinPrices } from './lib/data-sources'
+import {
+	computeLendingUtilization,
+	formatUtilization,
+	formatUtilizationForAI,
+	lendingMarketSchema,
+	utilizationBps,
+	type LendingAsset,
+	type LendingUtilization,
+	type ReserveReading,
+} from './lib/lending-utilization'
+import {
+	analyzeLiquidationRisk,
+	ETH_SHOCKS,
+	fetchLiquidationExposure,
+	formatLiquidationForAI,
+	formatShock,
+	positionSnapshotSourceSchema,
+	type LiquidationExposureRaw,
+	type LiquidationRisk,
+} from './lib/liquidation-risk'
+import {
+	debounceRemaining,
+	decodeTriggerLog,
+	describeTriggerEvent,
+	eventAsset,
+	eventTriggersSchema,
+	isLargeEvent,
+	oracleLogTopics,
+	poolLogTopics,
+} from './lib/event-triggers'
+import {
+	applyEthShock,
+	applyPriceOverrides,
+	applyTvlShocks,
+	describeAssessmentOptions,
+	httpTriggerSchema,
+	parseAssessmentRequest,
+	SCHEDULED_ASSESSMENT,
+	scopeTvlHistory,
+	stressRoundHistory,
+	type AssessmentOptions,
+} from './lib/on-demand-assessment'
+import { chainNetworkMode, environmentSchema, evmNetworkIssues, networkModeSchema } from './lib/networks'
+import {
+	computeEthVolatility,
+	ethVolatilitySchema,
+	formatPercent,
+	formatVolatilityForAI,
+	VOLATILITY_WINDOWS,
+	type EthVolatility,
+	type PricePoint,
+} from './lib/eth-volatility'
+import {
+	assessPriceFeed,
+	formatEthPriceForAI,
+	priceFeedChecksSchema,
+	type PriceFeedHealth,
+	type PriceFeedRound,
+} from './lib/price-feed-health'
+import { protocolId, protocolRegistrySchema, toProtocolReadings, type ProtocolReading } from './lib/protocol-registry'
+import {
+	computeTvlTrend,
+	EMPTY_TVL_HISTORY,
+	formatChange,
+	formatTrendForAI,
+	toChangeRates,
+	TREND_WINDOWS,
+	type TvlHistory,
+	type TvlHistoryPoint,
+	type TvlTrend,
+} from './lib/tvl-trend'
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
-const configSchema = z.object({
-	schedule: z.string(),
-	defiLlamaUrl: z.string(),
-	evms: z.array(
-		z.object({
-			oracleAddress: z.string(),
-			priceFeedAddress: z.string(),
-			chainSelectorName: z.string(),
-			gasLimit: z.string(),
-		}),
-	),
-})
+const configSchema = z
+	.object({
+		environment: environmentSchema, // "production" only accepts mainnet deployments
+		schedule: z.string(),
+		dataSources: dataSourcesSchema, // Primary/fallback endpoint per off-chain metric
+		protocols: protocolRegistrySchema,
+		stablecoins: stablecoinUniverseSchema, // Monitored stablecoins for the depeg early warning
+		liquidStaking: liquidStakingSchema, // LSTs monitored against their ETH peg
+		llmProviders: llmProvidersSchema,
+		priceFeedChecks: priceFeedChecksSchema, // Sanity bounds for the ETH/USD feed on evms[0]
+		ethVolatility: ethVolatilitySchema, // Round history walked back for realized volatility
+		lendingMarket: lendingMarketSchema, // Aave V3-compatible market read on evms[0] for utilization
+		positionSnapshot: positionSnapshotSourceSchema.optional(), // Borrower health-factor distribution for liquidation-at-risk
+		eventTriggers: eventTriggersSchema.optional(), // Log-triggered reassessment on evms[0]; cron only when omitted
+		httpTrigger: httpTriggerSchema.optional(), // On-demand assessments for integrators; no HTTP trigger when omitted
+		// Every listed chain receives the same signed report; evms[0] also supplies the ETH/USD price
+		evms: z
+			.array(
+				z.object({
+					network: networkModeSchema, // Must match chainSelectorName
+					oracleAddress: z.string(),
+					priceFeedAddress: z.string(),
+					chainSelectorName: z.string(),
+					gasLimit: z.string(), // Per-chain gas limit for the report write
+				}),
+			)
+			.min(1),
+	})
+	.superRefine((config, ctx) => {
+		for (const message of evmNetworkIssues(config.environment, config.evms)) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['evms'], message })
+		}
+		// Stablecoins and LSTs share the oracle's peg-state keys
+		const stablecoinSymbols = new Set(config.stablecoins.map((coin) => coin.symbol))
+		config.liquidStaking.tokens.forEach((token, i) => {
+			if (stablecoinSymbols.has(token.symbol)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ['liquidStaking', 'tokens', i, 'symbol'],
+					message: `${token.symbol} is also a stablecoin symbol`,
+				})
+			}
+		})
+		if (config.environment === 'production') {
+			config.llmProviders.forEach((provider, i) => {
+				if (provider.kind === 'local-stub') {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: ['llmProviders', i],
+						message: `"${provider.name}" is a local stub and cannot score production reports`,
+					})
+				}
+			})
+		}
+	})
 
 type Config = z.infer<typeof configSchema>
 
+type EvmConfig = Config['evms'][number]
+
 // ============================================================================
 // Types
 // ============================================================================
 
+// Per-protocol TVL (USD) keyed by registry key, e.g. { aave: 2.7e10, ... }
+type ProtocolTvls = Record<string, number>
+
 interface DeFiMetrics {
-	aaveTvl: number
-	compoundTvl: number
-	makerTvl: number
+	tvls: ProtocolTvls
 	totalTvl: number
 }
 
 interface RiskResult {
 	riskScore: number
-	source: number // 1 = Claude AI, 2 = Chainlink Functions fallback
+	protocolScores: ProtocolScore[]
+	source: number // SCORE_SOURCE_AI or SCORE_SOURCE_FALLBACK
+	rationaleHash: `0x${string}` // keccak256 of the AI rationale, zero for fallback scores
+}
+
+// Everything one pipeline run produced; the HTTP trigger returns it as JSON
+interface AssessmentResult {
+	timestamp: number // unix seconds
+	riskScore: number // Consensus score, 0-100
+	riskLevel: string
+	circuitBreaker: boolean // riskScore above 80
+	scoreSource: 'ai' | 'fallback'
+	drivers: string[] // From the primary LLM provider, empty for fallback scores
+	rationale: string | null
+	totalTvl: number
+	protocols: { key: string; name: string; tvl: number; score: number }[]
+	ethPrice: PriceFeedHealth
+	ethVolatility: EthVolatility | null
+	tvlTrend: TvlTrend
+	lendingUtilization: LendingUtilization | null
+	liquidationRisk: LiquidationRisk | null
+	contagion: ContagionAnalysis
+	depeg: DepegAnalysis
+	lst: LstDepegAnalysis | null
+	consensus: ConsensusResult
+	request: AssessmentOptions // Scope and stress the result was computed under
+	published: ChainPublishResult[] | null // null when the report was not written on-chain
 }
 
 // ============================================================================
@@ -89,6 +275,20 @@ const getRiskLevel = (score: number): string => {
 	return 'CRITICAL'
 }
 
+const getEvmClient = (evmConfig: Pick<EvmConfig, 'chainSelectorName' | 'network'>): EVMClient => {
+	const network = getNetwork({
+		chainFamily: 'evm',
+		chainSelectorName: evmConfig.chainSelectorName,
+		isTestnet: evmConfig.network === 'testnet',
+	})
+
+	if (!network) {
+		throw new Error(`Network not found: ${evmConfig.chainSelectorName}`)
+	}
+
+	return new EVMClient(network.chainSelector.selector)
+}
+
 // ============================================================================
 // Helpers: Uint8Array ↔ Base64, hex → Uint8Array
 // ============================================================================
@@ -117,46 +317,15 @@ interface EncryptedAIResult {
 	statusCode: number
 }
 
-// ============================================================================
-// Step 1: Fetch DeFi Protocol Metrics from DeFi Llama
-// Uses lightweight /tvl/ endpoint (CRE HTTP buffer is limited)
-// ============================================================================
-
-const fetchDeFiMetrics = (sendRequester: HTTPSendRequester, config: Config): DeFiMetrics => {
-	// Fetch TVL for 3 major DeFi protocols via DeFi Llama (each returns a single number)
-	const aaveResp = sendRequester.sendRequest({ method: 'GET', url: 'https://api.llama.fi/tvl/aave-v3' }).result()
-	const compoundResp = sendRequester.sendRequest({ method: 'GET', url: 'https://api.llama.fi/tvl/compound-v3' }).result()
-	const makerResp = sendRequester.sendRequest({ method: 'GET', url: 'https://api.llama.fi/tvl/makerdao' }).result()
-
-	const aaveTvl = aaveResp.statusCode === 200 ? parseFloat(Buffer.from(aaveResp.body).toString('utf-8')) : 0
-	const compoundTvl = compoundResp.statusCode === 200 ? parseFloat(Buffer.from(compoundResp.body).toString('utf-8')) : 0
-	const makerTvl = makerResp.statusCode === 200 ? parseFloat(Buffer.from(makerResp.body).toString('utf-8')) : 0
-
-	return {
-		aaveTvl,
-		compoundTvl,
-		makerTvl,
-		totalTvl: aaveTvl + compoundTvl + makerTvl,
-	}
-}
-
 // ============================================================================
 // Step 2: Read Chainlink ETH/USD Price Feed (On-Chain)
 // ============================================================================
 
-const readEthPrice = (runtime: Runtime<Config>): bigint => {
+// Price is read on the first configured chain; every chain then receives the
+// same assessment. The full round is returned for lib/price-feed-health.ts.
+const readEthPrice = (runtime: Runtime<Config>): PriceFeedRound => {
 	const evmConfig = runtime.config.evms[0]
-	const network = getNetwork({
-		chainFamily: 'evm',
-		chainSelectorName: evmConfig.chainSelectorName,
-		isTestnet: true,
-	})
-
-	if (!network) {
-		throw new Error(`Network not found: ${evmConfig.chainSelectorName}`)
-	}
-
-	const evmClient = new EVMClient(network.chainSelector.selector)
+	const evmClient = getEvmClient(evmConfig)
 
 	const callData = encodeFunctionData({
 		abi: ChainlinkPriceFeed,
@@ -180,93 +349,284 @@ const readEthPrice = (runtime: Runtime<Config>): bigint => {
 		data: bytesToHex(contractCall.data),
 	})
 
-	// result = [roundId, answer, startedAt, updatedAt, answeredInRound]
-	return result[1] // answer = ETH price with 8 decimals
+	const [roundId, answer, startedAt, updatedAt, answeredInRound] = result
+	return { roundId, answer, startedAt, updatedAt, answeredInRound } // answer = ETH price with 8 decimals
+}
+
+/**
+ * Prices of every `roundStride`-th round before `latest` on evms[0], newest
+ * first, walked back with getRoundData until one predates the 24h window
+ * (the anchor), the aggregator phase starts or `maxRounds` calls were made
+ */
+const readEthRoundHistory = (runtime: Runtime<Config>, latest: PriceFeedRound, asOf: number): PricePoint[] => {
+	const evmConfig = runtime.config.evms[0]
+	const evmClient = getEvmClient(evmConfig)
+
+	// Round ids are (phaseId << 64) | aggregatorRoundId; ids do not carry over across phases
+	const phaseStart = (latest.roundId >> 64n) << 64n
+	const { maxRounds, roundStride } = runtime.config.ethVolatility
+	const stride = BigInt(roundStride)
+	const points: PricePoint[] = [{ timestamp: Number(latest.updatedAt), price: Number(latest.answer) / 1e8 }]
+
+	for (
+		let roundId = latest.roundId - stride, calls = 0;
+		roundId > phaseStart && calls < maxRounds;
+		roundId -= stride, calls++
+	) {
+		const contractCall = evmClient
+			.callContract(runtime, {
+				call: encodeCallMsg({
+					from: zeroAddress,
+					to: evmConfig.priceFeedAddress as Address,
+					data: encodeFunctionData({ abi: ChainlinkPriceFeed, functionName: 'getRoundData', args: [roundId] }),
+				}),
+				blockNumber: LAST_FINALIZED_BLOCK_NUMBER,
+			})
+			.result()
+		const [, answer, , updatedAt] = decodeFunctionResult({
+			abi: ChainlinkPriceFeed,
+			functionName: 'getRoundData',
+			data: bytesToHex(contractCall.data),
+		})
+		if (updatedAt === 0n || answer <= 0n) continue // Incomplete round
+
+		points.push({ timestamp: Number(updatedAt), price: Number(answer) / 1e8 })
+		if (Number(updatedAt) < asOf - VOLATILITY_WINDOWS.vol24h) break
+	}
+
+	return points
 }
 
 // ============================================================================
-// Step 3: AI Risk Analysis via Anthropic Claude (Confidential HTTP)
-//
-// Uses the confidential-http@1.0.0-alpha capability via VaultDON.
-// - API key injected as {{.anthropicApiKey}} — never exposed in code or logs.
-// - encryptOutput: true — response AES-GCM encrypted inside the TEE enclave.
-// - Decrypted in-workflow using the AES key from VaultDON.
-//
-// In simulation: ConfidentialHTTPClient is not supported by the CRE simulator
-// (throws "method SendRequest not found"). The caller wraps this in try/catch
-// and falls back to rule-based scoring automatically.
+// Step 2b: Read Previous Cycle State from DeRiskOracle (lib/tvl-trend.ts)
 // ============================================================================
 
-const fetchConfidentialAIScore = (
-	sendRequester: ConfidentialHTTPSendRequester,
-	params: {
-		aaveTvl: number
-		compoundTvl: number
-		makerTvl: number
-		totalTvl: number
-		ethPrice: string
-		contagionData: string
-		depegData: string
-	},
-): EncryptedAIResult => {
-	const { aaveTvl, compoundTvl, makerTvl, totalTvl, ethPrice, contagionData, depegData } = params
+const callView = (
+	runtime: Runtime<Config>,
+	evmConfig: Pick<EvmConfig, 'chainSelectorName' | 'network'>,
+	to: string,
+	data: `0x${string}`,
+	blockNumber: typeof LAST_FINALIZED_BLOCK_NUMBER = LAST_FINALIZED_BLOCK_NUMBER,
+): `0x${string}` => {
+	const contractCall = getEvmClient(evmConfig)
+		.callContract(runtime, {
+			call: encodeCallMsg({
+				from: zeroAddress,
+				to: to as Address,
+				data,
+			}),
+			blockNumber,
+		})
+		.result()
+	return bytesToHex(contractCall.data)
+}
 
-	const prompt = `You are a DeFi risk analysis AI for the DeRisk Protocol oracle. Analyze these multi-protocol metrics and return an aggregate risk score.
+const callOracle = (runtime: Runtime<Config>, evmConfig: EvmConfig, data: `0x${string}`): `0x${string}` =>
+	callView(runtime, evmConfig, evmConfig.oracleAddress, data)
 
-MONITORED PROTOCOLS:
-1. Aave V3 (Lending) - TVL: $${(aaveTvl / 1e9).toFixed(2)}B
-2. Compound V3 (Lending) - TVL: $${(compoundTvl / 1e9).toFixed(2)}B
-3. MakerDAO (CDP/Stablecoin) - TVL: $${(makerTvl / 1e9).toFixed(2)}B
+/**
+ * Previous cycle's per-protocol TVLs and score plus the snapshot at each
+ * trend window, read from the oracle on evms[0] in two calls
+ */
+const readOracleHistory = (runtime: Runtime<Config>): TvlHistory => {
+	const evmConfig = runtime.config.evms[0]
+	const windowKeys = Object.keys(TREND_WINDOWS) as (keyof typeof TREND_WINDOWS)[]
 
-AGGREGATE:
-- Combined TVL: $${(totalTvl / 1e9).toFixed(2)}B
-- ETH/USD Price: $${ethPrice}
+	// Age 0 is the latest round (the previous cycle); then one age per window
+	const snapshots = decodeFunctionResult({
+		abi: DeRiskOracle,
+		functionName: 'getSnapshotsAgo',
+		data: callOracle(
+			runtime,
+			evmConfig,
+			encodeFunctionData({
+				abi: DeRiskOracle,
+				functionName: 'getSnapshotsAgo',
+				args: [[0n, ...windowKeys.map((key) => BigInt(TREND_WINDOWS[key]))]],
+			}),
+		),
+	})
+	const toPoint = (snap: (typeof snapshots)[number]): TvlHistoryPoint | null =>
+		snap.roundId === 0n
+			? null
+			: { timestamp: Number(snap.timestamp), totalTvl: Number(snap.totalTvl), riskScore: snap.riskScore }
 
-${contagionData}
+	const [protocolIds, tvls] = decodeFunctionResult({
+		abi: DeRiskOracle,
+		functionName: 'getProtocolTvls',
+		data: callOracle(runtime, evmConfig, encodeFunctionData({ abi: DeRiskOracle, functionName: 'getProtocolTvls' })),
+	})
+	const protocolTvls: Record<string, number> = {}
+	for (const protocol of runtime.config.protocols) {
+		const index = protocolIds.indexOf(protocolId(protocol.key))
+		if (index >= 0 && tvls[index] > 0n) protocolTvls[protocol.key] = Number(tvls[index])
+	}
 
-${depegData}
+	return {
+		previous: toPoint(snapshots[0]),
+		windows: Object.fromEntries(windowKeys.map((key, i) => [key, toPoint(snapshots[i + 1])])) as TvlHistory['windows'],
+		protocolTvls,
+	}
+}
 
-RISK SCORING RUBRIC:
-0-20 (LOW): All protocols stable, healthy TVL, normal ETH price
-21-40 (MODERATE): Minor fluctuations across protocols
-41-60 (ELEVATED): One protocol showing stress, TVL declining
-61-80 (HIGH): Multiple protocols stressed, significant TVL outflows
-81-100 (CRITICAL): Systemic risk, circuit breaker threshold
+/**
+ * Previous cycle's peg state for each monitored stablecoin and LST, read from
+ * the oracle on evms[0] in one call. Symbols never reported are left out.
+ */
+const readPegHistory = (runtime: Runtime<Config>, symbols: string[]): PegHistory => {
+	const evmConfig = runtime.config.evms[0]
+	const states = decodeFunctionResult({
+		abi: DeRiskOracle,
+		functionName: 'getPegStates',
+		data: callOracle(
+			runtime,
+			evmConfig,
+			encodeFunctionData({
+				abi: DeRiskOracle,
+				functionName: 'getPegStates',
+				args: [symbols.map(stablecoinId)],
+			}),
+		),
+	})
 
-KEY RISK FACTORS:
-1. Individual protocol TVL health
-2. Cross-protocol contagion risk (shared collateral, cascading liquidations)
-3. ETH price impact on all lending protocols simultaneously
-4. Concentration risk if one protocol dominates TVL
-5. Systemic cascade potential (use contagion analysis above)
-6. Stablecoin peg stability (depeg amplifies all risk factors)
+	const history: PegHistory = {}
+	symbols.forEach((symbol, i) => {
+		const state = states[i]
+		if (state.updatedAt === 0n) return
+		history[symbol] = {
+			price: Number(state.price) / 1e8,
+			offPegSince: state.offPegSince === 0n ? null : Number(state.offPegSince),
+			updatedAt: Number(state.updatedAt),
+			severity: severityFromLevel(state.severity),
+		}
+	})
+	return history
+}
 
-Respond with ONLY valid JSON, no markdown, no explanation:
-{"riskScore": <integer 0-100>}`
+// ============================================================================
+// Step 2c: Read Lending Reserves (lib/lending-utilization.ts)
+// ============================================================================
 
-	const requestBody = JSON.stringify({
-		model: 'claude-sonnet-4-5-20250929',
-		max_tokens: 32,
-		messages: [{ role: 'user', content: prompt }],
+/**
+ * Supply, debt and USD price of each configured reserve, read on evms[0]:
+ * one Pool Data Provider call per asset plus one batched price call
+ */
+const readLendingReserves = (runtime: Runtime<Config>): ReserveReading[] => {
+	const evmConfig = runtime.config.evms[0]
+	const { poolDataProvider, priceOracle, assets } = runtime.config.lendingMarket
+
+	const prices = decodeFunctionResult({
+		abi: AaveOracle,
+		functionName: 'getAssetsPrices',
+		data: callView(
+			runtime,
+			evmConfig,
+			priceOracle,
+			encodeFunctionData({
+				abi: AaveOracle,
+				functionName: 'getAssetsPrices',
+				args: [assets.map((asset) => asset.address as Address)],
+			}),
+		),
+	})
+
+	return assets.map((asset, i): ReserveReading => {
+		const reserve = decodeFunctionResult({
+			abi: AaveProtocolDataProvider,
+			functionName: 'getReserveData',
+			data: callView(
+				runtime,
+				evmConfig,
+				poolDataProvider,
+				encodeFunctionData({
+					abi: AaveProtocolDataProvider,
+					functionName: 'getReserveData',
+					args: [asset.address as Address],
+				}),
+			),
+		})
+		const [, , totalAToken, totalStableDebt, totalVariableDebt] = reserve
+		return { asset, totalSupplied: totalAToken, totalBorrowed: totalStableDebt + totalVariableDebt, price: prices[i] }
 	})
+}
+
+// ============================================================================
+// Step 2d: Read LST Exchange Rates (lib/depeg-monitor.ts)
+// ============================================================================
+
+/**
+ * Fair value in ETH of each configured LST: 1 without a rate provider,
+ * otherwise the token contract's own exchange rate on `liquidStaking.rateChain`.
+ * A failed read leaves the token out (logged), so it is not analyzed this cycle.
+ */
+const readLstFairRates = (runtime: Runtime<Config>): Record<string, number> => {
+	const { rateChain, tokens } = runtime.config.liquidStaking
+	const chain = { chainSelectorName: rateChain, network: chainNetworkMode(rateChain) }
+	const rates: Record<string, number> = {}
+	for (const token of tokens) {
+		if (!token.rateProvider) {
+			rates[token.symbol] = 1
+			continue
+		}
+		const { address, method } = token.rateProvider
+		try {
+			const rate = decodeFunctionResult({
+				abi: LstRateProvider,
+				functionName: method,
+				data: callView(runtime, chain, address, encodeFunctionData({ abi: LstRateProvider, functionName: method })),
+			})
+			rates[token.symbol] = Number(rate) / 1e18
+		} catch (err) {
+			runtime.log(`  ${token.symbol} exchange rate unavailable (${err instanceof Error ? err.message : String(err)})`)
+		}
+	}
+	return rates
+}
+
+// ============================================================================
+// Step 3: AI Risk Analysis via LLM Providers (lib/llm-providers.ts)
+//
+// anthropic and openai-compatible providers use the confidential-http@1.0.0-alpha
+// capability via VaultDON:
+// - One request per attempt for the whole DON, so every node validates the same
+//   completion (LLM answers are not deterministic; per-node requests would never
+//   reach identical consensus).
+// - API key injected as {{.<apiKeySecret>}} — never exposed in code or logs.
+// - encryptOutput: true — response AES-GCM encrypted inside the TEE enclave.
+// - Decrypted in-workflow using the AES key from VaultDON.
+// The deterministic local-stub uses the regular HTTP capability.
+//
+// In simulation: ConfidentialHTTPClient is not supported by the CRE simulator
+// (throws "method SendRequest not found"). The caller wraps each provider in
+// try/catch, marks failures unavailable, and falls back to rule-based scoring
+// when no provider answers.
+// ============================================================================
+
+const fetchConfidentialAIScore = (
+	sendRequester: ConfidentialHTTPSendRequester,
+	params: {
+		request: ProviderRequest
+		apiKeySecret: string
+	},
+): EncryptedAIResult => {
+	const { request, apiKeySecret } = params
 
-	// Vault-managed API key injected via {{.anthropicApiKey}} template.
+	// Vault-managed API key injected via the {{.<apiKeySecret>}} header template.
 	// Response encrypted with AES-256-GCM using san_marino_aes_gcm_encryption_key.
 	const response = sendRequester
 		.sendRequest({
 			vaultDonSecrets: [
-				{ key: 'anthropicApiKey', owner: '' },
+				{ key: apiKeySecret, owner: '' },
 				{ key: 'san_marino_aes_gcm_encryption_key', owner: '' },
 			],
 			request: {
 				method: 'POST',
-				url: 'https://api.anthropic.com/v1/messages',
-				multiHeaders: {
-					'Content-Type': { values: ['application/json'] },
-					'x-api-key': { values: ['{{.anthropicApiKey}}'] },
-					'anthropic-version': { values: ['2023-06-01'] },
-				},
-				bodyString: requestBody,
+				url: request.url,
+				multiHeaders: Object.fromEntries(
+					Object.entries(request.headers).map(([name, value]) => [name, { values: [value] }]),
+				),
+				bodyString: request.body,
+				timeout: `${request.timeoutMs / 1000}s`,
 			},
 			encryptOutput: true,
 		})
@@ -278,52 +638,130 @@ Respond with ONLY valid JSON, no markdown, no explanation:
 	}
 }
 
-// ============================================================================
-// Step 4: Write Risk Score On-Chain via CRE Report
-// ============================================================================
+/**
+ * Score via an anthropic or openai-compatible provider: Confidential HTTP,
+ * then AES-GCM decryption of each response with the vault-held key,
+ * validated (and retried) against the response schema
+ */
+const scoreViaConfidentialHTTP = (
+	runtime: Runtime<Config>,
+	provider: LLMProviderConfig,
+	context: RiskPromptContext,
+): LLMRiskResponse => {
+	const apiKeySecret = provider.apiKeySecret ?? ''
+	const confHTTPClient = new ConfidentialHTTPClient()
+
+	const send = (request: ProviderRequest): string => {
+		const encryptedResult = confHTTPClient
+			.sendRequest(
+				runtime,
+				fetchConfidentialAIScore,
+				consensusIdenticalAggregation<EncryptedAIResult>(),
+			)({ request, apiKeySecret })
+			.result()
+
+		if (encryptedResult.statusCode !== 200) {
+			throw new Error(`HTTP ${encryptedResult.statusCode}`)
+		}
+
+		// Encrypted body layout: nonce (12 bytes) || ciphertext || tag (16 bytes)
+		const encryptedBytes = base64ToBytes(encryptedResult.encryptedBodyBase64)
+		const nonceBytes = encryptedBytes.slice(0, 12)
+		const ciphertextAndTag = encryptedBytes.slice(12)
+		runtime.log(`  Encrypted response: ${encryptedBytes.length} bytes (AES-256-GCM)`)
+		runtime.log(`  Nonce:              ${bytesToHex(nonceBytes)}`)
+		runtime.log(`  Ciphertext+Tag:     ${bytesToHex(ciphertextAndTag).substring(0, 42)}...`)
+
+		// Retrieve AES-256-GCM decryption key from VaultDON
+		const aesKeyHex = runtime.getSecret({ id: 'san_marino_aes_gcm_encryption_key' }).result().value
+		const keyBytes = hexToBytes(aesKeyHex)
 
-const writeRiskScore = (
+		// Decrypt using @noble/ciphers gcm (pure JS, bundled with workflow WASM)
+		const plaintext = gcm(keyBytes, nonceBytes).decrypt(ciphertextAndTag)
+		return Buffer.from(plaintext).toString('utf-8')
+	}
+
+	return requestValidatedScore(provider, context, `{{.${apiKeySecret}}}`, send)
+}
+
+/**
+ * Score via the local-stub provider over regular HTTP, validated (and
+ * retried) against the response schema. Each node sends its own request;
+ * identical aggregation holds because the stub answers deterministically.
+ */
+const scoreViaHTTP = (
 	runtime: Runtime<Config>,
-	riskScore: number,
-	tvl: bigint,
-	utilizationRate: bigint,
-	ethPrice: bigint,
-): string => {
-	const evmConfig = runtime.config.evms[0]
-	const network = getNetwork({
-		chainFamily: 'evm',
-		chainSelectorName: evmConfig.chainSelectorName,
-		isTestnet: true,
-	})
+	provider: LLMProviderConfig,
+	context: RiskPromptContext,
+): LLMRiskResponse => {
+	const apiKey = provider.apiKeySecret ? runtime.getSecret({ id: provider.apiKeySecret }).result().value : ''
+	const httpClient = new HTTPClient()
 
-	if (!network) {
-		throw new Error(`Network not found: ${evmConfig.chainSelectorName}`)
+	const send = (request: ProviderRequest): string => {
+		const result = httpClient
+			.sendRequest(
+				runtime,
+				fetchProviderResponse,
+				consensusIdenticalAggregation<ProviderHTTPResult>(),
+			)(request)
+			.result()
+
+		if (result.statusCode !== 200) {
+			throw new Error(`HTTP ${result.statusCode}`)
+		}
+		return result.body
 	}
 
-	const evmClient = new EVMClient(network.chainSelector.selector)
+	return requestValidatedScore(provider, context, apiKey, send)
+}
 
-	// Encode the updateRiskData function call
-	const callData = encodeFunctionData({
-		abi: DeRiskOracle,
-		functionName: 'updateRiskData',
-		args: [BigInt(riskScore), tvl, utilizationRate, ethPrice],
-	})
+// ============================================================================
+// Step 4: Write Batched Risk Report On-Chain via CRE Report
+//
+// Everything one cycle publishes goes out as a single signed report, so the
+// oracle never holds a risk score and a contagion score from different cycles.
+// ============================================================================
 
-	runtime.log(
-		`Encoding: score=${riskScore}, tvl=${tvl}, utilization=${utilizationRate}, ethPrice=${ethPrice}`,
-	)
+// Must match DeRiskOracle.REPORT_VERSION
+const REPORT_VERSION = 5
 
-	// Generate signed consensus report
-	const reportResponse = runtime
-		.report({
-			encodedPayload: hexToBase64(callData),
-			encoderName: 'evm',
-			signingAlgo: 'ecdsa',
-			hashingAlgo: 'keccak256',
-		})
-		.result()
+// Must match DeRiskOracle.SCORE_SOURCE_*
+const SCORE_SOURCE_AI = 1 // LLM provider(s)
+const SCORE_SOURCE_FALLBACK = 2 // Rule-based scorer shared with the Chainlink Functions source
 
-	// Write report to DeRiskOracle receiver contract
+interface OracleRiskReport {
+	riskScore: number
+	utilizationRate: bigint // TVL-weighted lending utilization, basis points
+	ethPrice: bigint // 8 decimals, 0 when the feed failed its health checks
+	contagionScore: number
+	worstCaseLoss: number // USD
+	liquidation: LiquidationRisk | null // Published as zeros when unavailable
+	depegScore: number
+	confidence: number // 0-100
+	scoreSource: number // SCORE_SOURCE_AI or SCORE_SOURCE_FALLBACK
+	rationaleHash: `0x${string}`
+	readings: ProtocolReading[]
+	protocolScores: ProtocolScore[]
+	pegStates: PegHistory // This cycle's per-stablecoin and per-LST peg state
+}
+
+// Outcome of publishing the cycle's report to one configured chain
+interface ChainPublishResult {
+	chainSelectorName: string
+	oracleAddress: string
+	success: boolean
+	txHash?: string
+	error?: string
+}
+
+const writeReportToChain = (
+	runtime: Runtime<Config>,
+	evmConfig: EvmConfig,
+	reportResponse: Report,
+): string => {
+	const evmClient = getEvmClient(evmConfig)
+
+	// Write report to this chain's DeRiskOracle receiver contract
 	const resp = evmClient
 		.writeReport(runtime, {
 			receiver: evmConfig.oracleAddress,
@@ -338,41 +776,53 @@ const writeRiskScore = (
 		throw new Error(`Write failed: ${resp.errorMessage || resp.txStatus}`)
 	}
 
-	const txHash = bytesToHex(resp.txHash || new Uint8Array(32))
-	runtime.log(`On-chain write successful. TxHash: ${txHash}`)
-
-	return txHash
+	return bytesToHex(resp.txHash || new Uint8Array(32))
 }
 
-// ============================================================================
-// Step 4b: Write Contagion Score On-Chain
-// ============================================================================
-
-const writeContagionScore = (
-	runtime: Runtime<Config>,
-	contagionScore: number,
-	worstCaseLoss: number,
-): void => {
-	const evmConfig = runtime.config.evms[0]
-	const network = getNetwork({
-		chainFamily: 'evm',
-		chainSelectorName: evmConfig.chainSelectorName,
-		isTestnet: true,
-	})
-
-	if (!network) {
-		runtime.log('  Warning: Could not write contagion score - network not found')
-		return
-	}
-
-	const evmClient = new EVMClient(network.chainSelector.selector)
+/**
+ * Sign the report once and deliver it to every chain in config.evms. Each
+ * chain is written independently with its own gas limit; a failing chain is
+ * recorded and the rest still get the report. Throws only if every chain failed.
+ */
+const writeRiskReport = (runtime: Runtime<Config>, report: OracleRiskReport): ChainPublishResult[] => {
+	const pegStates = Object.entries(report.pegStates)
 
+	// Encode the submitRiskReport function call
 	const callData = encodeFunctionData({
 		abi: DeRiskOracle,
-		functionName: 'updateContagionScore',
-		args: [BigInt(contagionScore), BigInt(Math.floor(worstCaseLoss))],
+		functionName: 'submitRiskReport',
+		args: [
+			{
+				version: REPORT_VERSION,
+				riskScore: BigInt(report.riskScore),
+				utilizationRate: report.utilizationRate,
+				ethPrice: report.ethPrice,
+				contagionScore: BigInt(report.contagionScore),
+				worstCaseLoss: BigInt(Math.floor(report.worstCaseLoss)),
+				liquidationScore: BigInt(report.liquidation?.liquidationRiskScore ?? 0),
+				collateralAtRisk: ETH_SHOCKS.map((_, i) =>
+					BigInt(Math.floor(report.liquidation?.shocks[i].collateralAtRiskUsd ?? 0)),
+				) as [bigint, bigint, bigint],
+				depegScore: BigInt(report.depegScore),
+				confidence: BigInt(report.confidence),
+				scoreSource: report.scoreSource,
+				rationaleHash: report.rationaleHash,
+				protocolIds: report.readings.map(({ protocol }) => protocolId(protocol.key)),
+				protocolScores: report.protocolScores.map((p) => BigInt(p.score)),
+				protocolTvls: report.readings.map(({ tvl }) => BigInt(Math.floor(tvl))),
+				stablecoinIds: pegStates.map(([symbol]) => stablecoinId(symbol)),
+				stablecoinPrices: pegStates.map(([, state]) => BigInt(Math.round(state.price * 1e8))),
+				offPegSince: pegStates.map(([, state]) => BigInt(state.offPegSince ?? 0)),
+				pegSeverities: pegStates.map(([, state]) => severityLevel(state.severity)),
+			},
+		],
 	})
 
+	runtime.log(
+		`Encoding v${REPORT_VERSION}: score=${report.riskScore}, contagion=${report.contagionScore}, liquidation=${report.liquidation?.liquidationRiskScore ?? 'n/a'}, depeg=${report.depegScore}, confidence=${report.confidence}, source=${report.scoreSource}, protocols=${report.readings.length}, stablecoins=${pegStates.length}, ethPrice=${report.ethPrice}`,
+	)
+
+	// Generate signed consensus report (one signature, delivered to every chain)
 	const reportResponse = runtime
 		.report({
 			encodedPayload: hexToBase64(callData),
@@ -382,76 +832,274 @@ const writeContagionScore = (
 		})
 		.result()
 
-	const resp = evmClient
-		.writeReport(runtime, {
-			receiver: evmConfig.oracleAddress,
-			report: reportResponse,
-			gasConfig: {
-				gasLimit: evmConfig.gasLimit,
-			},
-		})
-		.result()
+	const results: ChainPublishResult[] = runtime.config.evms.map((evmConfig) => {
+		const { chainSelectorName, oracleAddress } = evmConfig
+		try {
+			const txHash = writeReportToChain(runtime, evmConfig, reportResponse)
+			runtime.log(`  ${chainSelectorName}: write successful. TxHash: ${txHash}`)
+			return { chainSelectorName, oracleAddress, success: true, txHash }
+		} catch (err) {
+			const error = err instanceof Error ? err.message : String(err)
+			runtime.log(`  ${chainSelectorName}: WRITE FAILED (${error})`)
+			return { chainSelectorName, oracleAddress, success: false, error }
+		}
+	})
 
-	if (resp.txStatus === TxStatus.SUCCESS) {
-		const txHash = bytesToHex(resp.txHash || new Uint8Array(32))
-		runtime.log(`  Contagion score written. TxHash: ${txHash}`)
-	} else {
-		runtime.log(`  Warning: Contagion write failed: ${resp.errorMessage || resp.txStatus}`)
+	if (!results.some((r) => r.success)) {
+		throw new Error(`Risk report write failed on all ${results.length} chain(s)`)
 	}
+
+	return results
 }
 
 // ============================================================================
 // Main Risk Assessment Pipeline
 // ============================================================================
 
-const assessRisk = (runtime: Runtime<Config>): string => {
+const assessRisk = (runtime: Runtime<Config>, options: AssessmentOptions = SCHEDULED_ASSESSMENT): AssessmentResult => {
 	runtime.log('================================================')
 	runtime.log('  DeRisk Protocol - AI-Powered Risk Assessment  ')
 	runtime.log('  Chainlink Convergence Hackathon 2026          ')
 	runtime.log('================================================')
+	if (options !== SCHEDULED_ASSESSMENT) {
+		for (const line of describeAssessmentOptions(options)) {
+			runtime.log(`  ${line}`)
+		}
+	}
 
 	const httpClient = new HTTPClient()
+	const stress = options.stress
 
 	// ---- Step 1: Fetch Multi-Protocol DeFi Metrics ----
 	runtime.log('')
-	runtime.log('[1/5] Fetching multi-protocol TVL from DeFi Llama...')
+	runtime.log(`[1/5] Fetching multi-protocol TVL from ${runtime.config.dataSources.tvl.primary.name}...`)
 
-	const metrics = httpClient
+	const requested = options.protocols
+	const protocols = requested ? runtime.config.protocols.filter((p) => requested.includes(p.key)) : runtime.config.protocols
+
+	// One median-aggregated field per registered protocol (MISSING_METRIC when unreadable)
+	const rawTvls = httpClient
 		.sendRequest(
 			runtime,
-			fetchDeFiMetrics,
-			ConsensusAggregationByFields<DeFiMetrics>({
-				aaveTvl: median,
-				compoundTvl: median,
-				makerTvl: median,
-				totalTvl: median,
-			}),
-		)(runtime.config)
+			fetchProtocolTvls,
+			ConsensusAggregationByFields<ProtocolTvls>(
+				Object.fromEntries(protocols.map((p) => [p.key, median<number>])),
+			),
+		)({ sources: runtime.config.dataSources, protocols })
 		.result()
 
-	runtime.log(`  Aave V3:     $${(metrics.aaveTvl / 1e9).toFixed(2)}B`)
-	runtime.log(`  Compound V3: $${(metrics.compoundTvl / 1e9).toFixed(2)}B`)
-	runtime.log(`  MakerDAO:    $${(metrics.makerTvl / 1e9).toFixed(2)}B`)
+	// Previous cycle state: baseline for the data-quality checks and the TVL trend
+	runtime.log('  Reading previous cycle state from DeRiskOracle...')
+	let tvlHistory = EMPTY_TVL_HISTORY
+	try {
+		tvlHistory = readOracleHistory(runtime)
+	} catch (err) {
+		// A fresh or unreachable oracle only means no baseline this cycle
+		runtime.log(`  Oracle history unavailable (${err instanceof Error ? err.message : String(err)}); no previous-cycle baseline`)
+	}
+	if (requested) {
+		tvlHistory = scopeTvlHistory(tvlHistory, requested)
+	}
+
+	const dataQuality = assessTvlQuality(protocols, rawTvls, tvlHistory.protocolTvls)
+	const usableTvls = applyTvlShocks(dataQuality.usableTvls, stress?.tvlShocks)
+	const metrics: DeFiMetrics = {
+		tvls: usableTvls,
+		totalTvl: Object.values(usableTvls).reduce((sum, tvl) => sum + tvl, 0),
+	}
+	// Protocols without a usable reading sit this cycle out rather than scoring as zero TVL
+	const readings = toProtocolReadings(
+		protocols.filter((p) => p.key in metrics.tvls),
+		metrics.tvls,
+	)
+
+	for (const metric of dataQuality.metrics) {
+		const value = metric.value === null ? '   n/a ' : `$${(metric.value / 1e9).toFixed(2)}B`
+		const flag = metric.status === 'ok' ? '' : ` [${metric.status.toUpperCase()}: ${metric.reason}]`
+		runtime.log(`  ${`${metric.name}:`.padEnd(13)}${value}${flag}`)
+	}
 	runtime.log(`  Total TVL:   $${(metrics.totalTvl / 1e9).toFixed(2)}B`)
 
+	if (readings.length === 0) {
+		throw new Error('No usable TVL reading for any registered protocol; skipping this cycle')
+	}
+
 	// ---- Step 2: Read Chainlink Price Feed ----
 	runtime.log('')
-	runtime.log('[2/5] Reading Chainlink ETH/USD price feed on Sepolia...')
+	runtime.log(`[2/5] Reading Chainlink ETH/USD price feed on ${runtime.config.evms[0].chainSelectorName}...`)
+
+	const ethRound = readEthPrice(runtime)
+	const secondaryEthPrice = httpClient
+		.sendRequest(
+			runtime,
+			fetchEthPrice,
+			consensusMedianAggregation<number>(),
+		)(runtime.config.dataSources)
+		.result()
+	const ethFeed = applyEthShock(
+		assessPriceFeed(ethRound, secondaryEthPrice, Math.floor(runtime.now().getTime() / 1000), runtime.config.priceFeedChecks),
+		stress?.ethPriceShock,
+	)
+	// Degraded feed: no ETH price adjustment and a zero price on-chain, never a stale one
+	const ethPriceUSD = ethFeed.price
+	const ethPriceRaw = ethFeed.healthy ? ethRound.answer : 0n
+
+	runtime.log(`  ETH/USD: $${ethFeed.feedPrice.toFixed(2)} (round ${ethRound.roundId}, updated ${ethFeed.ageSeconds}s ago)`)
+	runtime.log(
+		`  Secondary: ${ethFeed.secondaryPrice === null ? 'unavailable (deviation check skipped)' : `$${ethFeed.secondaryPrice.toFixed(2)} (deviation ${((ethFeed.deviation ?? 0) * 100).toFixed(2)}%)`}`,
+	)
+	if (!ethFeed.healthy) {
+		for (const issue of ethFeed.issues) {
+			runtime.log(`  >>> PRICE FEED DEGRADED: ${issue} <<<`)
+		}
+		runtime.log('  ETH signal excluded from scoring this cycle')
+	}
+
+	// Realized volatility from the feed's round history; a degraded feed's history is not trusted either
+	let ethVolatility: EthVolatility | null = null
+	if (ethFeed.healthy) {
+		try {
+			const asOf = Math.floor(runtime.now().getTime() / 1000)
+			const history = readEthRoundHistory(runtime, ethRound, asOf)
+			ethVolatility = computeEthVolatility(
+				stress?.ethPriceShock && ethPriceUSD !== null ? stressRoundHistory(history, ethPriceUSD, asOf) : history,
+				asOf,
+			)
+		} catch (err) {
+			runtime.log(`  Round history unavailable (${err instanceof Error ? err.message : String(err)})`)
+		}
+	}
+	if (ethVolatility) {
+		runtime.log(
+			`  Realized Vol:  1h ${formatPercent(ethVolatility.realizedVol1h)}, 24h ${formatPercent(ethVolatility.realizedVol24h)}, max drawdown ${formatPercent(ethVolatility.maxDrawdown24h)} (${ethVolatility.samples} rounds, risk ${ethVolatility.volatilityRiskScore}/100)`,
+		)
+	} else {
+		runtime.log('  Realized Vol:  n/a (volatility signal excluded this cycle)')
+	}
+
+	// ---- Step 2b: TVL Velocity from the Oracle's Previous State ----
+	runtime.log('')
+	runtime.log('  Computing TVL velocity from oracle history...')
+
+	const tvlTrend = computeTvlTrend(readings, tvlHistory, Math.floor(runtime.now().getTime() / 1000))
+	const changeRates = toChangeRates(tvlTrend)
+
+	runtime.log(`  Previous Score:  ${tvlTrend.previousScore === null ? 'n/a (first cycle)' : `${tvlTrend.previousScore}/100`}`)
+	runtime.log(`  TVL Change:      cycle ${formatChange(tvlTrend.cycleChange)}, 1h ${formatChange(tvlTrend.change1h)}, 24h ${formatChange(tvlTrend.change24h)}, 7d ${formatChange(tvlTrend.change7d)}`)
+	for (const { protocol } of readings) {
+		runtime.log(`  ${`${protocol.name}:`.padEnd(13)}${formatChange(tvlTrend.protocolChanges[protocol.key])} since previous cycle`)
+	}
+
+	// ---- Step 2c: Lending Utilization (bank-run signal) ----
+	runtime.log('')
+	runtime.log(`  Reading ${runtime.config.lendingMarket.name} reserve utilization...`)
+
+	let lendingUtilization: LendingUtilization | null = null
+	try {
+		lendingUtilization = computeLendingUtilization(runtime.config.lendingMarket.name, readLendingReserves(runtime))
+	} catch (err) {
+		runtime.log(`  Lending reserves unavailable (${err instanceof Error ? err.message : String(err)})`)
+	}
+	const utilization = lendingUtilization?.utilization ?? null
 
-	const ethPriceRaw = readEthPrice(runtime)
-	const ethPriceUSD = Number(ethPriceRaw) / 1e8
-	runtime.log(`  ETH/USD: $${ethPriceUSD.toFixed(2)}`)
+	if (lendingUtilization) {
+		for (const reserve of lendingUtilization.reserves) {
+			runtime.log(`  ${`${reserve.symbol}:`.padEnd(13)}${formatUtilization(reserve.utilization)} of $${(reserve.suppliedUsd / 1e9).toFixed(2)}B supplied`)
+		}
+	}
+	runtime.log(`  Utilization: ${formatUtilization(utilization)} (supply-weighted)`)
+	if (utilization === null) {
+		runtime.log('  Utilization signal excluded from scoring this cycle')
+	}
 
 	// ---- Step 3: Cross-Protocol Contagion Analysis ----
 	runtime.log('')
 	runtime.log('[3/5] Running cross-protocol contagion analysis...')
 
-	const protocolMetrics: ProtocolMetrics[] = [
-		{ name: 'Aave V3', tvl: metrics.aaveTvl, riskScore: 0 },
-		{ name: 'Compound V3', tvl: metrics.compoundTvl, riskScore: 0 },
-		{ name: 'MakerDAO', tvl: metrics.makerTvl, riskScore: 0 },
-	]
-	const contagionAnalysis = analyzeContagion(protocolMetrics)
+	// Liquidation-at-risk from the borrower health-factor distribution, when configured
+	const positionSnapshot = runtime.config.positionSnapshot
+	let liquidationRisk: LiquidationRisk | null = null
+	if (positionSnapshot) {
+		runtime.log(`  Fetching position snapshot from ${positionSnapshot.name}...`)
+		const exposure = httpClient
+			.sendRequest(
+				runtime,
+				fetchLiquidationExposure,
+				ConsensusAggregationByFields<LiquidationExposureRaw>({
+					totalCollateralUsd: median<number>,
+					collateralAtRisk10: median<number>,
+					collateralAtRisk20: median<number>,
+					collateralAtRisk30: median<number>,
+				}),
+			)(positionSnapshot)
+			.result()
+		liquidationRisk = analyzeLiquidationRisk(exposure)
+		if (liquidationRisk) {
+			runtime.log(`  Liquidation Risk:  ${liquidationRisk.liquidationRiskScore}/100 of $${(liquidationRisk.totalCollateralUsd / 1e9).toFixed(2)}B collateral`)
+			for (const shock of liquidationRisk.shocks) {
+				runtime.log(`  ${formatShock(shock)} liquidatable`)
+			}
+		} else {
+			runtime.log('  Position snapshot unavailable; no liquidation scenario this cycle')
+		}
+	} else {
+		runtime.log('  No position snapshot source configured; liquidation risk publishes as zero')
+	}
+
+	// Previous cycle's peg state (stablecoins and LSTs): time in deviation and deviation velocity
+	const stablecoins = runtime.config.stablecoins
+	const lstTokens = runtime.config.liquidStaking.tokens
+	let pegHistory: PegHistory = {}
+	try {
+		pegHistory = readPegHistory(runtime, [...stablecoins, ...lstTokens].map((peg) => peg.symbol))
+	} catch (err) {
+		runtime.log(`  Peg history unavailable (${err instanceof Error ? err.message : String(err)}); depeg durations start now`)
+	}
+
+	// LST pegs against ETH: a discount is a contagion channel into lending collateral
+	let lstAnalysis: LstDepegAnalysis | null = null
+	if (lstTokens.length > 0) {
+		runtime.log(`  Fetching LST prices from ${runtime.config.dataSources.ethPrice.primary.name}...`)
+		const lstPrices = httpClient
+			.sendRequest(
+				runtime,
+				fetchLstPrices,
+				ConsensusAggregationByFields<LstPricesRaw>(
+					Object.fromEntries(lstTokens.map((token) => [token.symbol, median<number>])),
+				),
+			)({ sources: runtime.config.dataSources, tokens: lstTokens })
+			.result()
+		lstAnalysis = analyzeLstDepegRisk(
+			applyPriceOverrides(lstPrices, stress?.lstPrices),
+			readLstFairRates(runtime),
+			lstTokens,
+			pegHistory,
+			Math.floor(runtime.now().getTime() / 1000),
+		)
+
+		runtime.log(`  LST Risk Score:    ${lstAnalysis.lstRiskScore}/100`)
+		for (const lst of lstAnalysis.tokens) {
+			runtime.log(`  ${`${lst.symbol}:`.padEnd(8)}${lst.marketPrice.toFixed(4)} ETH vs ${lst.fairRate.toFixed(4)} fair (${formatPegStatus(lst)}, ${(lst.discount * 100).toFixed(2)}% discount)`)
+		}
+		for (const alert of lstAnalysis.alerts) {
+			const trend = alert.trend ? ` (${alert.trend})` : ''
+			runtime.log(`  >>> ALERT [${alert.severity}]: ${alert.symbol} ${alert.deviationPercent}% below ETH peg${trend} <<<`)
+		}
+		const analyzed = new Set(lstAnalysis.tokens.map((lst) => lst.symbol))
+		const unanalyzed = lstTokens.filter((token) => !analyzed.has(token.symbol))
+		if (unanalyzed.length > 0) {
+			runtime.log(`  Not analyzed this cycle (no price or exchange rate): ${unanalyzed.map((token) => token.symbol).join(', ')}`)
+		}
+	}
+
+	const protocolMetrics: ProtocolMetrics[] = readings.map(({ protocol, tvl }) => ({
+		key: protocol.key,
+		name: protocol.name,
+		category: protocol.category,
+		tvl,
+		riskScore: 0,
+	}))
+	const contagionAnalysis = analyzeContagion(protocolMetrics, liquidationRisk, lstAnalysis?.tokens ?? [])
 	const contagionPromptData = formatContagionForAI(contagionAnalysis)
 
 	runtime.log(`  Contagion Risk:    ${contagionAnalysis.aggregateContagionRisk}/100`)
@@ -461,133 +1109,175 @@ const assessRisk = (runtime: Runtime<Config>): string => {
 		runtime.log(`  Blast Radius (${protocol}): $${(loss / 1e9).toFixed(2)}B`)
 	}
 
-	// ---- Step 3b: Stablecoin Depeg Early Warning (live CoinGecko prices) ----
+	// ---- Step 3b: Stablecoin Depeg Early Warning (live prices) ----
 	runtime.log('')
-	runtime.log('  Fetching live stablecoin prices from CoinGecko...')
+	runtime.log(`  Fetching live stablecoin prices from ${runtime.config.dataSources.stablecoinPrices.primary.name}...`)
 
+	// One median-aggregated field per monitored stablecoin
 	const stablecoinPrices = httpClient
 		.sendRequest(
 			runtime,
-			fetchRawStablecoinPrices,
-			ConsensusAggregationByFields<StablecoinPricesRaw>({
-				usdtPrice: median,
-				usdcPrice: median,
-				daiPrice: median,
-			}),
-		)()
+			fetchStablecoinPrices,
+			ConsensusAggregationByFields<StablecoinPricesRaw>(
+				Object.fromEntries(stablecoins.map((coin) => [coin.symbol, median<number>])),
+			),
+		)({ sources: runtime.config.dataSources, stablecoins })
 		.result()
 
-	runtime.log(`  USDT: $${stablecoinPrices.usdtPrice.toFixed(4)}`)
-	runtime.log(`  USDC: $${stablecoinPrices.usdcPrice.toFixed(4)}`)
-	runtime.log(`  DAI:  $${stablecoinPrices.daiPrice.toFixed(4)}`)
-
-	runtime.log('  Running stablecoin depeg analysis...')
-	const depegAnalysis = analyzeDepegRisk(stablecoinPrices)
+	runtime.log(`  Running stablecoin depeg analysis (${stablecoins.length} stablecoins)...`)
+	const depegAnalysis = analyzeDepegRisk(
+		applyPriceOverrides(stablecoinPrices, stress?.stablecoinPrices),
+		stablecoins,
+		pegHistory,
+		Math.floor(runtime.now().getTime() / 1000),
+	)
 	const depegPromptData = formatDepegForAI(depegAnalysis)
 
 	runtime.log(`  Depeg Risk Score:  ${depegAnalysis.depegRiskScore}/100`)
 	runtime.log(`  Avg Deviation:     ${(depegAnalysis.avgDeviation * 100).toFixed(2)}%`)
 	for (const coin of depegAnalysis.stablecoins) {
-		const status = Math.abs(coin.price - 1.0) < 0.005 ? 'STABLE' : 'WATCH'
-		runtime.log(`  ${coin.symbol}: $${coin.price.toFixed(4)} (${status})`)
+		runtime.log(`  ${`${coin.symbol}:`.padEnd(8)}$${coin.price.toFixed(4)} (${formatPegStatus(coin)}, ${coin.mechanism})`)
 	}
 	if (depegAnalysis.alerts.length > 0) {
 		for (const alert of depegAnalysis.alerts) {
-			runtime.log(`  >>> ALERT [${alert.severity}]: ${alert.symbol} ${alert.deviationPercent}% off peg <<<`)
+			const trend = alert.trend ? ` (${alert.trend})` : ''
+			runtime.log(`  >>> ALERT [${alert.severity}]: ${alert.symbol} ${alert.deviationPercent}% off peg${trend} <<<`)
+		}
+	}
+	const priced = new Set(depegAnalysis.stablecoins.map((coin) => coin.symbol))
+	const unpriced = stablecoins.filter((coin) => !priced.has(coin.symbol))
+	if (unpriced.length > 0) {
+		runtime.log(`  Not analyzed this cycle (no price; peg state kept): ${unpriced.map((coin) => coin.symbol).join(', ')}`)
+	}
+	// Severity changes the oracle emits as DepegAlert events for consumer contracts
+	for (const coin of [...depegAnalysis.stablecoins, ...(lstAnalysis?.tokens ?? [])]) {
+		const previous = pegHistory[coin.symbol]?.severity ?? null
+		if (coin.severity !== previous) {
+			runtime.log(`  DepegAlert: ${coin.symbol} ${previous ?? 'NONE'} -> ${coin.severity ?? 'NONE'}`)
 		}
 	}
 
-	// ---- Step 4: AI Risk Analysis (Confidential HTTP + AES-GCM decryption) ----
+	// ---- Step 4: AI Risk Analysis (one call per configured LLM provider) ----
 	runtime.log('')
-	runtime.log('[4/5] Running AI risk analysis via Anthropic Claude (Confidential HTTP)...')
-	runtime.log('  Capability:    confidential-http@1.0.0-alpha')
-	runtime.log('  API key:       {{.anthropicApiKey}} (vault-managed, never in plaintext)')
-	runtime.log('  encryptOutput: true — response AES-GCM encrypted inside TEE')
-
-	let riskResult: RiskResult
-
-	try {
-		const confHTTPClient = new ConfidentialHTTPClient()
-
-		const encryptedResult = confHTTPClient
-			.sendRequest(
-				runtime,
-				fetchConfidentialAIScore,
-				consensusIdenticalAggregation<EncryptedAIResult>(),
-			)({
-				aaveTvl: metrics.aaveTvl,
-				compoundTvl: metrics.compoundTvl,
-				makerTvl: metrics.makerTvl,
-				totalTvl: metrics.totalTvl,
-				ethPrice: ethPriceUSD.toFixed(2),
-				contagionData: contagionPromptData,
-				depegData: depegPromptData,
-			})
-			.result()
+	runtime.log(`[4/5] Running AI risk analysis via ${runtime.config.llmProviders.length} LLM provider(s)...`)
+
+	const promptContext: RiskPromptContext = {
+		readings,
+		totalTvl: metrics.totalTvl,
+		ethPrice: formatEthPriceForAI(ethFeed),
+		contagionData: contagionPromptData,
+		depegData: depegPromptData,
+		lstPegData: formatLstDepegForAI(lstAnalysis),
+		trendData: formatTrendForAI(tvlTrend, readings),
+		volatilityData: formatVolatilityForAI(ethVolatility),
+		utilizationData: formatUtilizationForAI(lendingUtilization),
+		liquidationData: formatLiquidationForAI(liquidationRisk),
+		qualityData: formatQualityForAI(dataQuality),
+	}
 
-		// Encrypted body layout: nonce (12 bytes) || ciphertext || tag (16 bytes)
-		const encryptedBytes = base64ToBytes(encryptedResult.encryptedBodyBase64)
-		const nonceBytes = encryptedBytes.slice(0, 12)
-		const ciphertextAndTag = encryptedBytes.slice(12)
-		runtime.log(`  Encrypted response: ${encryptedBytes.length} bytes (AES-256-GCM)`)
-		runtime.log(`  Nonce:              ${bytesToHex(nonceBytes)}`)
-		runtime.log(`  Ciphertext+Tag:     ${bytesToHex(ciphertextAndTag).substring(0, 42)}...`)
+	// Model 1..n: LLM providers, each with measured latency and availability
+	const llmModelScores: AIModelScore[] = []
+	let primaryResponse: LLMRiskResponse | null = null
 
-		// Retrieve AES-256-GCM decryption key from VaultDON
-		const aesKeyHex = runtime.getSecret({ id: 'san_marino_aes_gcm_encryption_key' }).result().value
-		const keyBytes = hexToBytes(aesKeyHex)
+	for (const provider of runtime.config.llmProviders) {
+		runtime.log(`  ${provider.name} [${provider.kind}]: ${provider.url}`)
+		if (provider.kind !== 'local-stub') {
+			runtime.log(`  API key:       {{.${provider.apiKeySecret}}} (vault-managed, never in plaintext)`)
+			runtime.log('  encryptOutput: true — response AES-GCM encrypted inside TEE')
+		}
 
-		// Decrypt using @noble/ciphers gcm (pure JS, bundled with workflow WASM)
-		const plaintext = gcm(keyBytes, nonceBytes).decrypt(ciphertextAndTag)
-		const responseText = Buffer.from(plaintext).toString('utf-8')
+		const start = runtime.now().getTime()
+		let response: LLMRiskResponse | null = null
+		try {
+			response =
+				provider.kind === 'local-stub'
+					? scoreViaHTTP(runtime, provider, promptContext)
+					: scoreViaConfidentialHTTP(runtime, provider, promptContext)
+		} catch (err) {
+			// In simulation, ConfidentialHTTPClient makes the real call but the response is
+			// not AES-GCM encrypted (no TEE enclave), and the AES key is not in staging secrets.
+			// In production with VaultDON, both the encryption and key retrieval succeed.
+			runtime.log(`  ${provider.name}: UNAVAILABLE (${err instanceof Error ? err.message : String(err)})`)
+		}
 
-		const apiResponse = JSON.parse(responseText)
-		let textContent = apiResponse.content?.[0]?.text || '{"riskScore": 50}'
-		textContent = textContent.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim()
-		const riskData = JSON.parse(textContent)
+		const modelScore = toModelScore(provider, response, runtime.now().getTime() - start)
+		llmModelScores.push(modelScore)
+		if (response) {
+			runtime.log(
+				`  ${provider.name}: ${modelScore.score}/100 (confidence ${modelScore.confidence.toFixed(2)}, ${modelScore.latencyMs}ms, ${response.attempts} attempt(s))`,
+			)
+			primaryResponse ??= response
+		}
+	}
 
+	let riskResult: RiskResult
+	if (primaryResponse) {
+		const aiProtocols = primaryResponse.protocols
+		riskResult = {
+			riskScore: primaryResponse.riskScore,
+			protocolScores: readings.map(({ protocol }) => ({ key: protocol.key, score: aiProtocols[protocol.key].score })),
+			source: SCORE_SOURCE_AI,
+			rationaleHash: keccak256(stringToHex(primaryResponse.rationale)),
+		}
+	} else {
+		// Explicit error path: no provider produced a schema-valid answer, so the
+		// cycle is scored by the rule-based model and flagged as fallback on-chain
+		runtime.log('  → No LLM provider answered validly; falling back to rule-based scoring (lib/risk-scoring.ts, same code as the Functions source)')
+		const fallback = computeRuleBasedScore(readings, ethPriceUSD, changeRates, utilization)
 		riskResult = {
-			riskScore: Math.min(100, Math.max(0, Math.round(riskData.riskScore ?? 50))),
-			source: 1, // Anthropic Claude AI via Confidential HTTP
+			riskScore: fallback.score,
+			protocolScores: computeRuleBasedProtocolScores(readings, ethPriceUSD, changeRates, utilization),
+			source: SCORE_SOURCE_FALLBACK,
+			rationaleHash: zeroHash,
 		}
-		runtime.log(`  Claude Score: ${riskResult.riskScore}/100 (decrypted from AES-GCM)`)
-	} catch (_) {
-		// In simulation, ConfidentialHTTPClient makes the real call but the response is
-		// not AES-GCM encrypted (no TEE enclave), and the AES key is not in staging secrets.
-		// In production with VaultDON, both the encryption and key retrieval succeed.
-		runtime.log('  AES-GCM decryption skipped (AES key not in staging secrets / no TEE in sim)')
-		runtime.log('  → Falling back to rule-based scoring')
-		const fallback = computeRuleBasedScore(metrics.aaveTvl, metrics.compoundTvl, metrics.makerTvl, ethPriceUSD)
-		riskResult = { riskScore: fallback.score, source: 2 }
-	}
-
-	const scoringMethod = riskResult.source === 1 ? 'Anthropic Claude AI (Confidential HTTP + AES-GCM)' : 'Chainlink Functions (fallback)'
+	}
+
+	const scoringMethod = riskResult.source === SCORE_SOURCE_AI ? 'LLM providers (multi-AI)' : 'Rule-based fallback (Chainlink Functions scorer)'
 	runtime.log(`  Scored By:    ${scoringMethod}`)
+	readings.forEach(({ protocol }, i) => {
+		const sub = primaryResponse?.protocols[protocol.key]
+		const detail = sub ? ` (tvl ${sub.tvlHealth}, contagion ${sub.contagion}, market ${sub.marketStress})` : ''
+		runtime.log(`  ${`${protocol.name}:`.padEnd(13)}${riskResult.protocolScores[i].score}/100${detail}`)
+	})
+	if (primaryResponse) {
+		primaryResponse.drivers.forEach((driver, i) => runtime.log(`  Driver ${i + 1}:     ${driver}`))
+		runtime.log(`  Rationale:    ${primaryResponse.rationale}`)
+		runtime.log(`  Rationale Hash: ${riskResult.rationaleHash} (keccak256, recorded on-chain)`)
+	}
 
 	// ---- Step 4b: Multi-AI Consensus ----
 	runtime.log('')
 	runtime.log('  Computing multi-AI consensus...')
 
-	// Model 1: Claude AI (already computed above)
-	const claudeModelScore: AIModelScore = {
-		model: 'Claude (Anthropic)',
-		score: riskResult.riskScore,
-		confidence: riskResult.source === 1 ? 0.95 : 0.7,
-		latencyMs: 0,
-		available: true,
-	}
+	// Rule-based scoring (same code as Chainlink Functions)
+	const ruleBasedScore = computeRuleBasedScore(readings, ethPriceUSD, changeRates, utilization)
 
-	// Model 2: Rule-based scoring (same as Chainlink Functions)
-	const ruleBasedScore = computeRuleBasedScore(
-		metrics.aaveTvl, metrics.compoundTvl, metrics.makerTvl, ethPriceUSD,
-	)
-
-	// Model 3: Contagion-adjusted ensemble
+	// Contagion-adjusted ensemble over the primary score
 	const contagionAdjustedScore = computeContagionAdjustedScore(
 		riskResult.riskScore, contagionAnalysis.aggregateContagionRisk,
 	)
 
-	const consensus = computeConsensus([claudeModelScore, ruleBasedScore, contagionAdjustedScore])
+	// Depeg-adjusted ensemble: depeg risk moves the score even without an LLM
+	const depegAdjustedScore = computeDepegAdjustedScore(riskResult.riskScore, depegAnalysis.depegRiskScore)
+
+	// Volatility-adjusted ensemble: the size and speed of the ETH move, whatever the price level
+	const volatilityAdjustedScore = computeVolatilityAdjustedScore(
+		riskResult.riskScore, ethVolatility?.volatilityRiskScore ?? null,
+	)
+
+	const degradedSignals = [
+		...dataQuality.degradedSignals,
+		...(ethFeed.healthy ? [] : ['ETH/USD price feed']),
+		...(ethFeed.healthy && !ethVolatility ? ['ETH realized volatility'] : []),
+		...(utilization === null ? ['Lending utilization'] : []),
+		...(positionSnapshot && !liquidationRisk ? ['Liquidation exposure'] : []),
+		...(depegAnalysis.stablecoins.length !== stablecoins.length ? ['Stablecoin prices'] : []),
+		...(lstTokens.length > 0 && lstAnalysis?.tokens.length !== lstTokens.length ? ['LST pegs'] : []),
+	]
+	const consensus = computeConsensus(
+		[...llmModelScores, ruleBasedScore, contagionAdjustedScore, depegAdjustedScore, volatilityAdjustedScore],
+		degradedSignals,
+	)
 	const consensusLogLines = formatConsensusForLog(consensus)
 	for (const line of consensusLogLines) {
 		runtime.log(line)
@@ -605,26 +1295,30 @@ const assessRisk = (runtime: Runtime<Config>): string => {
 
 	// ---- Step 5: Write On-Chain ----
 	runtime.log('')
-	runtime.log('[5/5] Writing risk assessment to DeRiskOracle contract...')
-
-	const tvlScaled = BigInt(Math.floor(metrics.totalTvl))
-	const utilizationScaled = BigInt(3) // Number of protocols monitored
-
-	const txHash = writeRiskScore(
-		runtime,
-		finalScore,
-		tvlScaled,
-		utilizationScaled,
-		ethPriceRaw,
-	)
-
-	// Also write contagion score on-chain
-	runtime.log('  Writing contagion score on-chain...')
-	writeContagionScore(
-		runtime,
-		contagionAnalysis.aggregateContagionRisk,
-		contagionAnalysis.worstCaseSystemLoss,
-	)
+	let publishResults: ChainPublishResult[] | null = null
+	if (!options.publish) {
+		runtime.log('[5/5] On-demand assessment without publish; DeRiskOracle left unchanged')
+	} else {
+		runtime.log(`[5/5] Writing risk assessment to DeRiskOracle on ${runtime.config.evms.length} chain(s)...`)
+
+		// Risk score, TVLs, contagion, depeg, confidence and per-protocol
+		// breakdown in one atomic report
+		publishResults = writeRiskReport(runtime, {
+			riskScore: finalScore,
+			utilizationRate: utilizationBps(lendingUtilization),
+			ethPrice: ethPriceRaw,
+			contagionScore: contagionAnalysis.aggregateContagionRisk,
+			worstCaseLoss: contagionAnalysis.worstCaseSystemLoss,
+			liquidation: liquidationRisk,
+			depegScore: depegAnalysis.depegRiskScore,
+			confidence: consensus.confidenceLevel,
+			scoreSource: riskResult.source,
+			rationaleHash: riskResult.rationaleHash,
+			readings,
+			protocolScores: riskResult.protocolScores,
+			pegStates: { ...depegAnalysis.pegStates, ...lstAnalysis?.pegStates },
+		})
+	}
 
 	// ---- Summary ----
 	runtime.log('')
@@ -632,27 +1326,156 @@ const assessRisk = (runtime: Runtime<Config>): string => {
 	runtime.log('  RISK ASSESSMENT COMPLETE')
 	runtime.log(`  Consensus Score: ${finalScore}/100 (${riskLevel})`)
 	runtime.log(`  Confidence:      ${consensus.confidenceLevel}%`)
+	runtime.log(`  Score Source:    ${riskResult.source === SCORE_SOURCE_AI ? 'AI' : 'Fallback'}`)
 	runtime.log(`  Contagion Risk:  ${contagionAnalysis.aggregateContagionRisk}/100`)
+	runtime.log(`  Liquidation:     ${liquidationRisk ? `${liquidationRisk.liquidationRiskScore}/100` : 'n/a'}`)
 	runtime.log(`  Depeg Risk:      ${depegAnalysis.depegRiskScore}/100`)
+	runtime.log(`  LST Risk:        ${lstAnalysis ? `${lstAnalysis.lstRiskScore}/100` : 'n/a'}`)
+	runtime.log(`  Utilization:     ${formatUtilization(utilization)}`)
 	runtime.log(`  AI Models:       ${consensus.scores.length} (spread: ${consensus.spread} pts)`)
 	runtime.log(`  Circuit Breaker: ${finalScore > 80 ? 'ACTIVE' : 'INACTIVE'}`)
-	runtime.log(`  TxHash:          ${txHash}`)
+	for (const result of publishResults ?? []) {
+		const status = result.success ? `OK ${result.txHash}` : `FAILED (${result.error})`
+		runtime.log(`  ${`${result.chainSelectorName}:`.padEnd(17)}${status}`)
+	}
 	runtime.log('================================================')
 
-	return `${finalScore}|${riskLevel}`
+	return {
+		timestamp: Math.floor(runtime.now().getTime() / 1000),
+		riskScore: finalScore,
+		riskLevel,
+		circuitBreaker: finalScore > 80,
+		scoreSource: riskResult.source === SCORE_SOURCE_AI ? 'ai' : 'fallback',
+		drivers: primaryResponse?.drivers ?? [],
+		rationale: primaryResponse?.rationale ?? null,
+		totalTvl: metrics.totalTvl,
+		protocols: readings.map(({ protocol, tvl }, i) => ({
+			key: protocol.key,
+			name: protocol.name,
+			tvl,
+			score: riskResult.protocolScores[i].score,
+		})),
+		ethPrice: ethFeed,
+		ethVolatility,
+		tvlTrend,
+		lendingUtilization,
+		liquidationRisk,
+		contagion: contagionAnalysis,
+		depeg: depegAnalysis,
+		lst: lstAnalysis,
+		consensus,
+		request: options,
+		published: publishResults,
+	}
+}
+
+// ============================================================================
+// Event Trigger Reads (lib/event-triggers.ts)
+// ============================================================================
+
+/**
+ * When the oracle on evms[0] last accepted a report, at the latest block:
+ * the debounce must see a report published moments ago, long before it is final
+ */
+const readLastReportTime = (runtime: Runtime<Config>): number => {
+	const evmConfig = runtime.config.evms[0]
+	const lastUpdate = decodeFunctionResult({
+		abi: DeRiskOracle,
+		functionName: 'lastUpdateTimestamp',
+		data: callView(
+			runtime,
+			evmConfig,
+			evmConfig.oracleAddress,
+			encodeFunctionData({ abi: DeRiskOracle, functionName: 'lastUpdateTimestamp' }),
+			LATEST_BLOCK_NUMBER,
+		),
+	})
+	return Number(lastUpdate)
+}
+
+/**
+ * USD price (8 decimals) of one lending reserve from the market's price oracle
+ */
+const readReservePrice = (runtime: Runtime<Config>, asset: LendingAsset): bigint => {
+	const [price] = decodeFunctionResult({
+		abi: AaveOracle,
+		functionName: 'getAssetsPrices',
+		data: callView(
+			runtime,
+			runtime.config.evms[0],
+			runtime.config.lendingMarket.priceOracle,
+			encodeFunctionData({ abi: AaveOracle, functionName: 'getAssetsPrices', args: [[asset.address as Address]] }),
+		),
+	})
+	return price
 }
 
 // ============================================================================
 // Trigger Handler
 // ============================================================================
 
+// Cron and log trigger result: "<score>|<level>"
+const statusLine = (result: AssessmentResult): string => `${result.riskScore}|${result.riskLevel}`
+
 const onCronTrigger = (runtime: Runtime<Config>, payload: CronPayload): string => {
 	if (!payload.scheduledExecutionTime) {
 		throw new Error('Scheduled execution time is required')
 	}
 
 	runtime.log(`Cron triggered at: ${new Date().toISOString()}`)
-	return assessRisk(runtime)
+	return statusLine(assessRisk(runtime))
+}
+
+/**
+ * Pool and oracle logs: reassess now if the event is large enough and no
+ * report was published within the debounce window; otherwise leave it to
+ * the next cron cycle. The debounce only saves work: executions in the same
+ * block all pass it, and the oracle keeps the first of their reports.
+ */
+const onLogTrigger = (runtime: Runtime<Config>, log: EVMLog): string => {
+	const triggers = runtime.config.eventTriggers
+	const event = decodeTriggerLog(log)
+	if (!triggers || !event) {
+		runtime.log('Log trigger: not a reassessment event, skipped')
+		return 'skipped|unrecognized'
+	}
+
+	const asset = eventAsset(event, runtime.config.lendingMarket.assets)
+	runtime.log(`Log triggered: ${describeTriggerEvent(event, asset)} (tx ${bytesToHex(log.txHash)})`)
+
+	const price = asset ? readReservePrice(runtime, asset) : 0n
+	const { large, valueUsd } = isLargeEvent(event, asset, price, triggers)
+	if (valueUsd !== null) {
+		runtime.log(`  Value: $${(valueUsd / 1e6).toFixed(2)}M`)
+	}
+	if (!large) {
+		runtime.log('  Below the reassessment threshold, skipped')
+		return 'skipped|below-threshold'
+	}
+
+	const wait = debounceRemaining(readLastReportTime(runtime), Math.floor(runtime.now().getTime() / 1000), triggers.debounceSeconds)
+	if (wait > 0) {
+		runtime.log(`  Debounced: a report was published within ${triggers.debounceSeconds}s (${wait}s left), skipped`)
+		return 'skipped|debounced'
+	}
+
+	return statusLine(assessRisk(runtime))
+}
+
+/**
+ * On-demand assessment for integrators: the gateway only delivers requests
+ * signed by one of httpTrigger.authorizedKeys. Runs the pipeline with the
+ * requested scope and stress overrides and returns the full result as JSON.
+ */
+const onHttpTrigger = (runtime: Runtime<Config>, payload: HTTPPayload): string => {
+	runtime.log(`HTTP triggered by ${payload.key?.publicKey ?? 'unknown key'}`)
+
+	const options = parseAssessmentRequest(payload.input.length > 0 ? decodeJson(payload.input) : {}, {
+		protocols: runtime.config.protocols.map((p) => p.key),
+		stablecoins: runtime.config.stablecoins.map((coin) => coin.symbol),
+		lstTokens: runtime.config.liquidStaking.tokens.map((token) => token.symbol),
+	})
+	return safeJsonStringify(assessRisk(runtime, options))
 }
 
 // ============================================================================
@@ -661,14 +1484,53 @@ const onCronTrigger = (runtime: Runtime<Config>, payload: CronPayload): string =
 
 const initWorkflow = (config: Config) => {
 	const cronTrigger = new CronCapability()
+	const cron = handler(
+		cronTrigger.trigger({
+			schedule: config.schedule,
+		}),
+		onCronTrigger,
+	)
+	// Registered last, so the log handlers keep their trigger indexes when both are configured
+	const http = config.httpTrigger
+		? [
+				handler(
+					new HTTPCapability().trigger({
+						authorizedKeys: config.httpTrigger.authorizedKeys.map((publicKey) => ({
+							type: 'KEY_TYPE_ECDSA_EVM' as const,
+							publicKey,
+						})),
+					}),
+					onHttpTrigger,
+				),
+			]
+		: []
+	if (!config.eventTriggers) {
+		return [cron, ...http]
+	}
 
+	// Large pool events on the monitored reserves, and the oracle's staleness alerts
+	const evmClient = getEvmClient(config.evms[0])
 	return [
+		cron,
 		handler(
-			cronTrigger.trigger({
-				schedule: config.schedule,
-			}),
-			onCronTrigger,
+			evmClient.logTrigger(
+				logTriggerConfig({
+					addresses: [config.eventTriggers.pool as Address],
+					topics: poolLogTopics(config.lendingMarket.assets),
+				}),
+			),
+			onLogTrigger,
+		),
+		handler(
+			evmClient.logTrigger(
+				logTriggerConfig({
+					addresses: [config.evms[0].oracleAddress as Address],
+					topics: oracleLogTopics(),
+				}),
+			),
+			onLogTrigger,
 		),
+		...http,
 	]
 }
 
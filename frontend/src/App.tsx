@@ -13,19 +13,24 @@ import { SystemHealth } from './components/SystemHealth'
 import { BeforeAfterStrip } from './components/BeforeAfterStrip'
 import { IntegrateSection } from './components/IntegrateSection'
 import { ScrollReveal } from './components/ScrollReveal'
+import { GovernancePanel } from './components/GovernancePanel'
 import { useAnimatedNumber } from './hooks/use-animated-number'
 import { riskColor } from './lib/risk-helpers'
 import {
   fetchRiskData,
-  fetchProtocolScores,
-  fetchProtocolTvls,
+  fetchProtocols,
   fetchContagionData,
   fetchBacktestProofs,
+  fetchCircuitBreakerConfig,
+  fetchGovernance,
+  SCORE_SOURCE_AI,
   type RiskData,
-  type ProtocolScores,
-  type ProtocolTvls,
+  type ProtocolBreakdown,
   type ContagionData,
   type BacktestProof,
+  type CircuitBreakerConfig,
+  type GovernanceState,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
   DERISK_ORACLE_ADDRESS,
 } from './lib/contract'
 
@@ -76,10 +81,11 @@ function AccordionItem({ title, children, badge }: { title: string; children: Re
 
 function App() {
   const [riskData, setRiskData] = useState<RiskData | null>(null)
-  const [protocolScores, setProtocolScores] = useState<ProtocolScores | null>(null)
-  const [protocolTvls, setProtocolTvls] = useState<ProtocolTvls | null>(null)
+  const [protocols, setProtocols] = useState<ProtocolBreakdown[] | null>(null)
   const [contagionData, setContagionData] = useState<ContagionData | null>(null)
   const [, setBacktestProofs] = useState<BacktestProof[]>([])
+  const [breakerConfig, setBreakerConfig] = useState<CircuitBreakerConfig>(DEFAULT_CIRCUIT_BREAKER_CONFIG)
+  const [governance, setGovernance] = useState<GovernanceState | null>(null)
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date())
@@ -98,18 +104,20 @@ function App() {
   const loadData = useCallback(async () => {
     try {
       setError(null)
-      const [data, scores, tvls, contagion, proofs] = await Promise.all([
+      const [data, registry, contagion, proofs, breaker, params] = await Promise.all([
         fetchRiskData(),
-        fetchProtocolScores(),
-        fetchProtocolTvls(),
+        fetchProtocols(),
         fetchContagionData(),
         fetchBacktestProofs(),
+        fetchCircuitBreakerConfig(),
+        fetchGovernance(),
       ])
       setRiskData(data)
-      setProtocolScores(scores)
-      setProtocolTvls(tvls)
+      setProtocols(registry)
       setContagionData(contagion)
       setBacktestProofs(proofs)
+      setBreakerConfig(breaker)
+      setGovernance(params)
       setLastRefresh(new Date())
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data')
@@ -153,6 +161,7 @@ function App() {
   const tvlScore = Math.min(100, Math.round(tvl > 0 ? Math.min(80, (tvl / 2e10) * 80) + (score > 60 ? 15 : 0) : score * 0.4))
   const depegScore = Math.min(100, Math.round(score > 60 ? score * 0.85 : score * 0.5))
   const contagionScore = contagionData?.contagionScore ?? 0
+  const totalWeight = (protocols ?? []).reduce((sum, p) => sum + p.weight, 0)
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -449,7 +458,7 @@ function App() {
                     </button>
                   )}
                 </div>
-                <WhatIfSimulator baseScore={score} presetValues={simulatorPreset} />
+                <WhatIfSimulator baseScore={score} presetValues={simulatorPreset} breakerActive={circuitBreaker} breaker={breakerConfig} />
               </div>
             </div>
           </section>
@@ -655,7 +664,7 @@ function App() {
                       <div className="text-[10px] font-mono text-derisk-text-dim mt-2">Multi-AI Consensus via Chainlink CRE</div>
                     </div>
                     <div className="lg:col-span-4 space-y-4">
-                      <CircuitBreaker active={circuitBreaker} score={score} />
+                      <CircuitBreaker active={circuitBreaker} score={score} tripThreshold={breakerConfig.tripThreshold} resetThreshold={breakerConfig.resetThreshold} />
                       <div className="bg-card border border-border rounded-lg p-5">
                         <div className="text-[10px] font-mono text-muted-foreground uppercase tracking-widest mb-3">Oracle Status</div>
                         <div className="space-y-2.5">
@@ -679,8 +688,8 @@ function App() {
                         <div className="text-[9px] font-mono text-muted-foreground uppercase tracking-wider mb-1">Multi-Protocol TVL</div>
                         <div className="text-2xl font-mono font-bold text-foreground">${tvl > 0 ? (tvl / 1e9).toFixed(2) : '0.00'}B</div>
                         <div className="text-[10px] font-mono text-derisk-text-dim mt-1">
-                          {protocolTvls
-                            ? `Aave ${(Number(protocolTvls.aaveTvl) / 1e9).toFixed(1)}B | Comp ${(Number(protocolTvls.compoundTvl) / 1e9).toFixed(1)}B | Maker ${(Number(protocolTvls.makerTvl) / 1e9).toFixed(1)}B`
+                          {protocols && protocols.length > 0
+                            ? protocols.map((p) => `${p.name} ${(Number(p.tvl) / 1e9).toFixed(1)}B`).join(' | ')
                             : 'Aave V3 + Compound V3 + MakerDAO'}
                         </div>
                       </div>
@@ -710,11 +719,12 @@ function App() {
                   <div className="bg-card border border-border rounded-lg p-6">
                     <div className="text-[11px] font-mono text-muted-foreground uppercase tracking-widest mb-4">Per-Protocol Risk</div>
                     <div className="space-y-4">
-                      {[
-                        { name: 'Aave V3', score: protocolScores?.aave ?? 0, weight: '50%', tvlStr: protocolTvls ? `$${(Number(protocolTvls.aaveTvl) / 1e9).toFixed(1)}B` : '' },
-                        { name: 'Compound V3', score: protocolScores?.compound ?? 0, weight: '25%', tvlStr: protocolTvls ? `$${(Number(protocolTvls.compoundTvl) / 1e9).toFixed(1)}B` : '' },
-                        { name: 'MakerDAO', score: protocolScores?.maker ?? 0, weight: '25%', tvlStr: protocolTvls ? `$${(Number(protocolTvls.makerTvl) / 1e9).toFixed(1)}B` : '' },
-                      ].map((p) => (
+                      {(protocols ?? []).map((p) => ({
+                        name: p.name,
+                        score: p.score,
+                        weight: `${totalWeight > 0 ? Math.round((p.weight / totalWeight) * 100) : 0}%`,
+                        tvlStr: `$${(Number(p.tvl) / 1e9).toFixed(1)}B`,
+                      })).map((p) => (
                         <div key={p.name}>
                           <div className="flex justify-between text-xs mb-1.5">
                             <div className="flex items-center gap-2">
@@ -767,7 +777,23 @@ function App() {
                           </div>
                         ))}
                       </div>
-                      <div className="text-[10px] font-mono text-derisk-text-dim mt-3">Weighted median · outlier detection at 1.5 std dev</div>
+                      <div className="flex items-center justify-between mt-3">
+                        <span className="text-[10px] font-mono text-derisk-text-dim">Weighted median · outlier detection at 1.5 std dev</span>
+                        {riskData && riskData.scoreSource !== 0 && (
+                          <span className={`text-[9px] font-mono font-bold px-2 py-0.5 rounded border ${
+                            riskData.scoreSource === SCORE_SOURCE_AI
+                              ? 'text-derisk-success bg-derisk-success/10 border-derisk-success/20'
+                              : 'text-derisk-warning bg-derisk-warning/10 border-derisk-warning/20'
+                          }`}>
+                            {riskData.scoreSource === SCORE_SOURCE_AI ? 'AI SCORE' : 'FALLBACK SCORE'}
+                          </span>
+                        )}
+                      </div>
+                      {riskData && riskData.scoreSource === SCORE_SOURCE_AI && (
+                        <div className="text-[9px] font-mono text-derisk-text-dim mt-1" title={riskData.rationaleHash}>
+                          Rationale hash {riskData.rationaleHash.slice(0, 10)}…{riskData.rationaleHash.slice(-8)}
+                        </div>
+                      )}
                     </div>
 
                     <div className="bg-card border border-border rounded-lg p-5">
@@ -802,7 +828,10 @@ function App() {
                     <RiskBreakdown tvlRisk={tvlScore} depegRisk={depegScore} contagionRisk={contagionScore} totalRisk={score} />
                   </AccordionItem>
                   <AccordionItem title="Consumer Contract" badge="whenSafe() · circuit breaker">
-                    <ConsumerStatus riskScore={score} circuitBreakerActive={circuitBreaker} />
+                    <ConsumerStatus riskScore={score} circuitBreakerActive={circuitBreaker} breaker={breakerConfig} />
+                  </AccordionItem>
+                  <AccordionItem title="Parameter Governance" badge={`timelock · ${governance?.pendingChanges.length ?? 0} pending`}>
+                    <GovernancePanel governance={governance} breaker={breakerConfig} />
                   </AccordionItem>
                   <AccordionItem title="Cross-Protocol Contagion" badge={`cascade ${contagionScore}/100`}>
                     <div className="grid grid-cols-2 gap-3 mb-4">
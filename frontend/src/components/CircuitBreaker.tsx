@@ -1,9 +1,11 @@
 interface CircuitBreakerProps {
   active: boolean
   score: number
+  tripThreshold: number
+  resetThreshold: number
 }
 
-export function CircuitBreaker({ active, score }: CircuitBreakerProps) {
+export function CircuitBreaker({ active, score, tripThreshold, resetThreshold }: CircuitBreakerProps) {
   return (
     <div
       className={`rounded-lg border p-5 text-center transition-colors ${
@@ -30,7 +32,7 @@ export function CircuitBreaker({ active, score }: CircuitBreakerProps) {
         </span>
       </div>
       <div className="mt-2 text-[11px] font-mono text-muted-foreground">
-        Threshold: 80 | Current: <span className={active ? 'text-destructive' : 'text-foreground'}>{score}</span>
+        Trip: &gt;{tripThreshold} | Reset: ≤{resetThreshold} | Current: <span className={active ? 'text-destructive' : 'text-foreground'}>{score}</span>
       </div>
     </div>
   )
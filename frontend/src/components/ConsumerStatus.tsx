@@ -1,9 +1,12 @@
+import type { CircuitBreakerConfig } from '../lib/contract'
+
 const SIMPLE_LENDING_POOL_ADDRESS = '0x942a20CF83626dA1aAb50f1354318eE04dF292c0'
 const SEPOLIA_ETHERSCAN = 'https://sepolia.etherscan.io/address'
 
 interface ConsumerStatusProps {
   riskScore: number
   circuitBreakerActive: boolean
+  breaker: CircuitBreakerConfig
 }
 
 interface RiskCheckResult {
@@ -15,15 +18,19 @@ interface RiskCheckResult {
   description: string
 }
 
-function getRiskCheck(riskScore: number, circuitBreaker: boolean): RiskCheckResult {
-  if (circuitBreaker || riskScore >= 80) {
+function getRiskCheck(riskScore: number, circuitBreaker: boolean, breaker: CircuitBreakerConfig): RiskCheckResult {
+  if (circuitBreaker || riskScore > breaker.tripThreshold) {
+    // Breaker holds until enough consecutive updates land at or below the reset threshold
+    const resetting = circuitBreaker && riskScore <= breaker.resetThreshold
     return {
       status: 'PAUSED',
       color: 'hsl(0, 84%, 60%)',
       bg: 'hsl(0, 84%, 60%, 0.05)',
       border: 'hsl(0, 84%, 60%, 0.2)',
       dotClass: 'bg-destructive animate-pulse',
-      description: 'Deposits & borrows suspended — circuit breaker active',
+      description: resetting
+        ? `Circuit breaker resetting — ${breaker.consecutiveBelowReset}/${breaker.resetConfirmations} updates at ≤${breaker.resetThreshold}`
+        : 'Deposits & borrows suspended — circuit breaker active',
     }
   }
   if (riskScore >= 70) {
@@ -46,8 +53,8 @@ function getRiskCheck(riskScore: number, circuitBreaker: boolean): RiskCheckResu
   }
 }
 
-export function ConsumerStatus({ riskScore, circuitBreakerActive }: ConsumerStatusProps) {
-  const check = getRiskCheck(riskScore, circuitBreakerActive)
+export function ConsumerStatus({ riskScore, circuitBreakerActive, breaker }: ConsumerStatusProps) {
+  const check = getRiskCheck(riskScore, circuitBreakerActive, breaker)
   const poolActive = check.status === 'PASSED'
 
   return (
@@ -113,6 +120,9 @@ export function ConsumerStatus({ riskScore, circuitBreakerActive }: ConsumerStat
           Every <code className="text-derisk-text-secondary">deposit()</code> and{' '}
           <code className="text-derisk-text-secondary">borrow()</code> call reads the live oracle risk score.
           If risk ≥ 70 or circuit breaker is active, the transaction reverts automatically.
+          The breaker trips above {breaker.tripThreshold} and only resets after{' '}
+          {breaker.resetConfirmations} consecutive updates at ≤{breaker.resetThreshold} and at least{' '}
+          {Math.round(breaker.minActiveDuration / 60)} minutes active, so a score hovering near the threshold cannot flap.
           During the Terra collapse, contagion risk would have hit 87/100 — this contract
           would have paused <strong className="text-foreground">48 hours before the crash</strong>.
         </div>
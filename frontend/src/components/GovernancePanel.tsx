@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react'
+import type { CircuitBreakerConfig, GovernanceState } from '../lib/contract'
+
+interface GovernancePanelProps {
+  governance: GovernanceState | null
+  breaker: CircuitBreakerConfig
+}
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+  return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`
+}
+
+// Duration-valued params are shown as durations, the rest as plain numbers
+const DURATION_PARAMS = new Set(['Breaker Min Active Duration', 'Staleness Threshold', 'Update Interval', 'Timelock Delay'])
+
+export function GovernancePanel({ governance, breaker }: GovernancePanelProps) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 10000)
+    return () => clearInterval(t)
+  }, [])
+
+  const current = [
+    { label: 'Breaker Trip', value: `>${breaker.tripThreshold}` },
+    { label: 'Breaker Reset', value: `≤${breaker.resetThreshold}` },
+    { label: 'Min Active', value: formatDuration(breaker.minActiveDuration) },
+    { label: 'Reset Confirmations', value: `${breaker.resetConfirmations}` },
+    { label: 'Staleness', value: governance ? formatDuration(governance.stalenessThreshold) : '—' },
+    { label: 'Update Interval', value: governance ? formatDuration(governance.updateInterval) : '—' },
+  ]
+  const pending = governance?.pendingChanges ?? []
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {current.map((item) => (
+          <div key={item.label} className="bg-muted border border-border rounded p-3">
+            <div className="text-[9px] font-mono text-muted-foreground uppercase mb-1">{item.label}</div>
+            <div className="text-base font-mono font-bold text-foreground">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-[9px] font-mono text-muted-foreground uppercase tracking-wider">Pending Changes</div>
+          <div className="text-[9px] font-mono text-derisk-text-dim">
+            Timelock: {governance ? formatDuration(governance.timelockDelay) : '—'}
+          </div>
+        </div>
+        {pending.length === 0 ? (
+          <div className="bg-muted border border-border rounded p-3 text-[10px] font-mono text-derisk-text-dim">
+            No parameter changes queued
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {pending.map((change) => {
+              const remaining = Number(change.eta) - now
+              const ready = remaining <= 0
+              const value = DURATION_PARAMS.has(change.name) ? formatDuration(Number(change.value)) : change.value.toString()
+              return (
+                <div key={change.id.toString()} className="flex items-center justify-between bg-muted border border-border rounded p-2.5">
+                  <div className="flex items-center gap-3">
+                    <span className="text-[10px] font-mono text-derisk-text-dim">#{change.id.toString()}</span>
+                    <span className="text-xs font-mono text-derisk-text-secondary">
+                      {change.name}{change.target && ` (${change.target})`}
+                    </span>
+                    <span className="text-xs font-mono font-bold text-foreground">→ {value}</span>
+                  </div>
+                  <span
+                    className={`text-[9px] font-mono font-bold px-2 py-0.5 rounded border ${
+                      ready
+                        ? 'text-derisk-success bg-derisk-success/10 border-derisk-success/20'
+                        : 'text-derisk-warning bg-derisk-warning/10 border-derisk-warning/20'
+                    }`}
+                  >
+                    {ready ? 'READY' : `in ${formatDuration(remaining)}`}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="p-3 rounded bg-muted border border-border text-[10px] text-muted-foreground leading-relaxed">
+        Thresholds and protocol weights change only through a timelock: the owner queues a change,
+        and it can be executed once the delay has passed. Manage changes with{' '}
+        <code className="text-derisk-text-secondary">contracts/manage-parameters.ts</code>.
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,12 @@
 import { useState, useMemo, useEffect } from 'react'
 import { riskColor, riskLabel } from '../lib/risk-helpers'
+import type { CircuitBreakerConfig } from '../lib/contract'
 
 interface WhatIfSimulatorProps {
   baseScore: number
   presetValues?: { usdcDepeg: number; aaveTvlDrop: number; ethPrice: number } | null
+  breakerActive: boolean
+  breaker: CircuitBreakerConfig
 }
 
 interface SliderConfig {
@@ -32,7 +35,7 @@ const SLIDERS: SliderConfig[] = [
   },
 ]
 
-export function WhatIfSimulator({ baseScore, presetValues }: WhatIfSimulatorProps) {
+export function WhatIfSimulator({ baseScore, presetValues, breakerActive, breaker }: WhatIfSimulatorProps) {
   const [values, setValues] = useState<Record<string, number>>(() =>
     Object.fromEntries(SLIDERS.map((s) => [s.id, s.defaultVal]))
   )
@@ -54,8 +57,13 @@ export function WhatIfSimulator({ baseScore, presetValues }: WhatIfSimulatorProp
     return Math.min(100, Math.max(0, baseScore + delta))
   }, [values, baseScore])
 
-  const circuitBreakerTriggered = simulatedScore >= 80
-  const consumerPaused = simulatedScore >= 70
+  // Hysteresis: an inactive breaker trips above the trip threshold; an active one
+  // stays on until the score falls to the reset threshold (then needs confirmations)
+  const circuitBreakerTriggered = breakerActive
+    ? simulatedScore > breaker.resetThreshold
+    : simulatedScore > breaker.tripThreshold
+  const breakerResetting = breakerActive && !circuitBreakerTriggered
+  const consumerPaused = simulatedScore >= 70 || breakerActive
 
   function reset() {
     setValues(Object.fromEntries(SLIDERS.map((s) => [s.id, s.defaultVal])))
@@ -146,12 +154,14 @@ export function WhatIfSimulator({ baseScore, presetValues }: WhatIfSimulatorProp
             <div className="flex items-center justify-between">
               <div>
                 <div className="text-[10px] font-mono font-bold text-derisk-text-secondary mb-0.5">Circuit Breaker</div>
-                <div className="text-[9px] font-mono text-derisk-text-dim">Triggers at risk ≥ 80</div>
+                <div className="text-[9px] font-mono text-derisk-text-dim">
+                  Trips at risk &gt; {breaker.tripThreshold} · resets at ≤ {breaker.resetThreshold} after {breaker.resetConfirmations} updates
+                </div>
               </div>
               <div className="flex items-center gap-2">
-                <div className={`w-2 h-2 rounded-full ${circuitBreakerTriggered ? 'bg-destructive animate-pulse' : 'bg-muted-foreground'}`} />
-                <span className="text-xs font-mono font-bold" style={{ color: circuitBreakerTriggered ? 'hsl(0, 84%, 60%)' : 'hsl(215, 8%, 46%)' }}>
-                  {circuitBreakerTriggered ? '🚨 TRIGGERED' : '✓ INACTIVE'}
+                <div className={`w-2 h-2 rounded-full ${circuitBreakerTriggered ? 'bg-destructive animate-pulse' : breakerResetting ? 'bg-derisk-warning animate-pulse' : 'bg-muted-foreground'}`} />
+                <span className="text-xs font-mono font-bold" style={{ color: circuitBreakerTriggered ? 'hsl(0, 84%, 60%)' : breakerResetting ? 'hsl(38, 92%, 50%)' : 'hsl(215, 8%, 46%)' }}>
+                  {circuitBreakerTriggered ? '🚨 TRIGGERED' : breakerResetting ? `⏳ RESETTING (${breaker.resetConfirmations} updates)` : '✓ INACTIVE'}
                 </span>
               </div>
             </div>
@@ -176,13 +186,14 @@ export function WhatIfSimulator({ baseScore, presetValues }: WhatIfSimulatorProp
             <div className="text-[9px] font-mono text-muted-foreground uppercase tracking-wider mb-2">Risk Gauge</div>
             <div className="relative h-3 bg-secondary rounded-full overflow-hidden mb-1">
               <div className="absolute top-0 bottom-0 w-px bg-derisk-warning/40" style={{ left: '70%' }} />
-              <div className="absolute top-0 bottom-0 w-px bg-destructive/40" style={{ left: '80%' }} />
+              <div className="absolute top-0 bottom-0 w-px bg-destructive/20" style={{ left: `${breaker.resetThreshold}%` }} />
+              <div className="absolute top-0 bottom-0 w-px bg-destructive/40" style={{ left: `${breaker.tripThreshold}%` }} />
               <div className="h-full rounded-full transition-all duration-500" style={{ width: `${simulatedScore}%`, backgroundColor: riskColor(simulatedScore) }} />
             </div>
             <div className="flex justify-between text-[8px] font-mono text-derisk-text-dim">
               <span>0</span>
               <span className="text-derisk-warning">70 pause</span>
-              <span className="text-destructive">80 breaker</span>
+              <span className="text-destructive">{breaker.tripThreshold} breaker</span>
               <span>100</span>
             </div>
           </div>
@@ -1,4 +1,4 @@
-import { createPublicClient, http } from 'viem'
+import { createPublicClient, hexToString, http } from 'viem'
 import { sepolia } from 'viem/chains'
 
 const ALCHEMY_KEY = import.meta.env.VITE_ALCHEMY_API_KEY || 'rDnyc363yJB4fPau3xTbg'
@@ -24,22 +24,82 @@ export const DERISK_ORACLE_ABI = [
   },
   {
     inputs: [],
-    name: 'getProtocolScores',
+    name: 'scoreSource',
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'rationaleHash',
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getCircuitBreakerConfig',
+    outputs: [
+      { name: '_tripThreshold', type: 'uint256' },
+      { name: '_resetThreshold', type: 'uint256' },
+      { name: '_minActiveDuration', type: 'uint256' },
+      { name: '_resetConfirmations', type: 'uint256' },
+      { name: '_trippedAt', type: 'uint256' },
+      { name: '_consecutiveBelowReset', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getPendingChanges',
     outputs: [
-      { name: '_aave', type: 'uint256' },
-      { name: '_compound', type: 'uint256' },
-      { name: '_maker', type: 'uint256' },
+      { name: '_changeIds', type: 'uint256[]' },
+      {
+        components: [
+          { name: 'param', type: 'uint8' },
+          { name: 'target', type: 'bytes32' },
+          { name: 'value', type: 'uint256' },
+          { name: 'eta', type: 'uint256' },
+          { name: 'executed', type: 'bool' },
+          { name: 'cancelled', type: 'bool' },
+        ],
+        name: '_changes',
+        type: 'tuple[]',
+      },
     ],
     stateMutability: 'view',
     type: 'function',
   },
   {
     inputs: [],
-    name: 'getProtocolTvls',
+    name: 'timelockDelay',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'stalenessThreshold',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'updateInterval',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getProtocols',
     outputs: [
-      { name: '_aaveTvl', type: 'uint256' },
-      { name: '_compoundTvl', type: 'uint256' },
-      { name: '_makerTvl', type: 'uint256' },
+      { name: '_protocolIds', type: 'bytes32[]' },
+      { name: '_weights', type: 'uint256[]' },
+      { name: '_scores', type: 'uint256[]' },
+      { name: '_tvls', type: 'uint256[]' },
     ],
     stateMutability: 'view',
     type: 'function',
@@ -114,6 +174,55 @@ export const DERISK_ORACLE_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [{ name: '_roundId', type: 'uint256' }],
+    name: 'getSnapshot',
+    outputs: [
+      {
+        components: [
+          { name: 'roundId', type: 'uint64' },
+          { name: 'timestamp', type: 'uint64' },
+          { name: 'riskScore', type: 'uint8' },
+          { name: 'contagionScore', type: 'uint8' },
+          { name: 'depegScore', type: 'uint8' },
+          { name: 'scoreSource', type: 'uint8' },
+          { name: 'totalTvl', type: 'uint64' },
+        ],
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: '_since', type: 'uint256' }],
+    name: 'getSnapshotsSince',
+    outputs: [
+      {
+        components: [
+          { name: 'roundId', type: 'uint64' },
+          { name: 'timestamp', type: 'uint64' },
+          { name: 'riskScore', type: 'uint8' },
+          { name: 'contagionScore', type: 'uint8' },
+          { name: 'depegScore', type: 'uint8' },
+          { name: 'scoreSource', type: 'uint8' },
+          { name: 'totalTvl', type: 'uint64' },
+        ],
+        name: 'result',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: '_window', type: 'uint256' }],
+    name: 'getAverageScore',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
     name: 'riskScore',
@@ -181,14 +290,32 @@ export interface RiskData {
   ethPrice: bigint
   lastUpdateTimestamp: bigint
   updateCount: bigint
+  scoreSource: number // SCORE_SOURCE_AI, SCORE_SOURCE_FALLBACK, or 0 before the first report
+  rationaleHash: `0x${string}` // keccak256 of the AI rationale; zero for fallback scores
 }
 
+// DeRiskOracle.SCORE_SOURCE_*: who produced the latest base score
+export const SCORE_SOURCE_AI = 1
+export const SCORE_SOURCE_FALLBACK = 2
+
 export async function fetchRiskData(): Promise<RiskData> {
-  const data = await publicClient.readContract({
-    address: DERISK_ORACLE_ADDRESS,
-    abi: DERISK_ORACLE_ABI,
-    functionName: 'getRiskData',
-  })
+  const [data, scoreSource, rationaleHash] = await Promise.all([
+    publicClient.readContract({
+      address: DERISK_ORACLE_ADDRESS,
+      abi: DERISK_ORACLE_ABI,
+      functionName: 'getRiskData',
+    }),
+    publicClient.readContract({
+      address: DERISK_ORACLE_ADDRESS,
+      abi: DERISK_ORACLE_ABI,
+      functionName: 'scoreSource',
+    }),
+    publicClient.readContract({
+      address: DERISK_ORACLE_ADDRESS,
+      abi: DERISK_ORACLE_ABI,
+      functionName: 'rationaleHash',
+    }),
+  ])
 
   return {
     riskScore: Number(data[0]),
@@ -198,47 +325,140 @@ export async function fetchRiskData(): Promise<RiskData> {
     ethPrice: data[4],
     lastUpdateTimestamp: data[5],
     updateCount: data[6],
+    scoreSource,
+    rationaleHash,
   }
 }
 
-export interface ProtocolScores {
-  aave: number
-  compound: number
-  maker: number
+export interface CircuitBreakerConfig {
+  tripThreshold: number       // Trips when score > this
+  resetThreshold: number      // Updates at or below this count towards reset
+  minActiveDuration: number   // Seconds
+  resetConfirmations: number  // Consecutive below-reset updates required
+  trippedAt: bigint
+  consecutiveBelowReset: number
 }
 
-export async function fetchProtocolScores(): Promise<ProtocolScores> {
+// DeRiskOracle constructor defaults, used until the live config loads
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  tripThreshold: 80,
+  resetThreshold: 70,
+  minActiveDuration: 1800,
+  resetConfirmations: 3,
+  trippedAt: 0n,
+  consecutiveBelowReset: 0,
+}
+
+export async function fetchCircuitBreakerConfig(): Promise<CircuitBreakerConfig> {
   const data = await publicClient.readContract({
     address: DERISK_ORACLE_ADDRESS,
     abi: DERISK_ORACLE_ABI,
-    functionName: 'getProtocolScores',
+    functionName: 'getCircuitBreakerConfig',
   })
 
   return {
-    aave: Number(data[0]),
-    compound: Number(data[1]),
-    maker: Number(data[2]),
+    tripThreshold: Number(data[0]),
+    resetThreshold: Number(data[1]),
+    minActiveDuration: Number(data[2]),
+    resetConfirmations: Number(data[3]),
+    trippedAt: data[4],
+    consecutiveBelowReset: Number(data[5]),
   }
 }
 
-export interface ProtocolTvls {
-  aaveTvl: bigint
-  compoundTvl: bigint
-  makerTvl: bigint
+// DeRiskOracle.Param enum order
+export const PARAMETER_NAMES = [
+  'Breaker Trip Threshold',
+  'Breaker Reset Threshold',
+  'Breaker Min Active Duration',
+  'Breaker Reset Confirmations',
+  'Staleness Threshold',
+  'Update Interval',
+  'Protocol Weight',
+  'Timelock Delay',
+] as const
+
+export interface PendingParameterChange {
+  id: bigint
+  param: number
+  name: string
+  target: string   // Protocol key for Protocol Weight, otherwise empty
+  value: bigint
+  eta: bigint      // Unix seconds
 }
 
-export async function fetchProtocolTvls(): Promise<ProtocolTvls> {
-  const data = await publicClient.readContract({
+export interface GovernanceState {
+  timelockDelay: number      // Seconds
+  stalenessThreshold: number // Seconds
+  updateInterval: number     // Seconds
+  pendingChanges: PendingParameterChange[]
+}
+
+export async function fetchGovernance(): Promise<GovernanceState> {
+  const read = (functionName: 'timelockDelay' | 'stalenessThreshold' | 'updateInterval') =>
+    publicClient.readContract({ address: DERISK_ORACLE_ADDRESS, abi: DERISK_ORACLE_ABI, functionName })
+
+  const [timelockDelay, stalenessThreshold, updateInterval, [ids, changes]] = await Promise.all([
+    read('timelockDelay'),
+    read('stalenessThreshold'),
+    read('updateInterval'),
+    publicClient.readContract({
+      address: DERISK_ORACLE_ADDRESS,
+      abi: DERISK_ORACLE_ABI,
+      functionName: 'getPendingChanges',
+    }),
+  ])
+
+  return {
+    timelockDelay: Number(timelockDelay),
+    stalenessThreshold: Number(stalenessThreshold),
+    updateInterval: Number(updateInterval),
+    pendingChanges: changes.map((change, i) => ({
+      id: ids[i],
+      param: change.param,
+      name: PARAMETER_NAMES[change.param] ?? `Param ${change.param}`,
+      target: /^0x0+$/.test(change.target) ? '' : hexToString(change.target, { size: 32 }),
+      value: change.value,
+      eta: change.eta,
+    })),
+  }
+}
+
+// Display names for the registry keys in derisk-workflow/config.*.json
+const PROTOCOL_NAMES: Record<string, string> = {
+  aave: 'Aave V3',
+  compound: 'Compound V3',
+  maker: 'MakerDAO',
+  spark: 'Spark',
+  morpho: 'Morpho Blue',
+  euler: 'Euler V2',
+}
+
+export interface ProtocolBreakdown {
+  key: string
+  name: string
+  weight: number
+  score: number
+  tvl: bigint
+}
+
+export async function fetchProtocols(): Promise<ProtocolBreakdown[]> {
+  const [ids, weights, scores, tvls] = await publicClient.readContract({
     address: DERISK_ORACLE_ADDRESS,
     abi: DERISK_ORACLE_ABI,
-    functionName: 'getProtocolTvls',
+    functionName: 'getProtocols',
   })
 
-  return {
-    aaveTvl: data[0],
-    compoundTvl: data[1],
-    makerTvl: data[2],
-  }
+  return ids.map((id, i) => {
+    const key = hexToString(id, { size: 32 })
+    return {
+      key,
+      name: PROTOCOL_NAMES[key] ?? key,
+      weight: Number(weights[i]),
+      score: Number(scores[i]),
+      tvl: tvls[i],
+    }
+  })
 }
 
 export async function fetchAggregateScore(): Promise<number> {
@@ -278,6 +498,48 @@ export async function fetchContagionData(): Promise<ContagionData> {
   }
 }
 
+export interface RiskSnapshot {
+  roundId: bigint
+  timestamp: bigint
+  riskScore: number
+  contagionScore: number
+  depegScore: number
+  scoreSource: number
+  totalTvl: bigint // USD
+}
+
+export async function fetchSnapshot(roundId: bigint): Promise<RiskSnapshot> {
+  const data = await publicClient.readContract({
+    address: DERISK_ORACLE_ADDRESS,
+    abi: DERISK_ORACLE_ABI,
+    functionName: 'getSnapshot',
+    args: [roundId],
+  })
+  return { ...data }
+}
+
+// Snapshots with timestamp >= since (unix seconds), oldest first
+export async function fetchSnapshotsSince(since: bigint): Promise<RiskSnapshot[]> {
+  const data = await publicClient.readContract({
+    address: DERISK_ORACLE_ADDRESS,
+    abi: DERISK_ORACLE_ABI,
+    functionName: 'getSnapshotsSince',
+    args: [since],
+  })
+  return data.map((snap) => ({ ...snap }))
+}
+
+// Time-weighted average risk score over the last windowSeconds
+export async function fetchAverageScore(windowSeconds: bigint): Promise<number> {
+  const data = await publicClient.readContract({
+    address: DERISK_ORACLE_ADDRESS,
+    abi: DERISK_ORACLE_ABI,
+    functionName: 'getAverageScore',
+    args: [windowSeconds],
+  })
+  return Number(data)
+}
+
 export interface BacktestProof {
   eventName: string
   alertLeadTimeHours: number
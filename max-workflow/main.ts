@@ -25,15 +25,21 @@ const configSchema = z.object({
 	schedule: z.string(),
 	url: z.string(),
 	evms: z.array(
-		z.object({
-			tokenAddress: z.string(),
-			porAddress: z.string(),
-			proxyAddress: z.string(),
-			balanceReaderAddress: z.string(),
-			messageEmitterAddress: z.string(),
-			chainSelectorName: z.string(),
-			gasLimit: z.string(),
-		}),
+		z
+			.object({
+				network: z.enum(['mainnet', 'testnet']),
+				tokenAddress: z.string(),
+				porAddress: z.string(),
+				proxyAddress: z.string(),
+				balanceReaderAddress: z.string(),
+				messageEmitterAddress: z.string(),
+				chainSelectorName: z.string(),
+				gasLimit: z.string(),
+			})
+			// CRE testnet chain names contain "-testnet-", e.g. ethereum-testnet-sepolia
+			.refine((evm) => evm.chainSelectorName.includes('-testnet-') === (evm.network === 'testnet'), {
+				message: 'network does not match chainSelectorName',
+			}),
 	),
 })
 
@@ -84,7 +90,7 @@ const fetchNativeTokenBalance = (
 	const network = getNetwork({
 		chainFamily: 'evm',
 		chainSelectorName: evmConfig.chainSelectorName,
-		isTestnet: true,
+		isTestnet: evmConfig.network === 'testnet',
 	})
 
 	if (!network) {
@@ -133,7 +139,7 @@ const getTotalSupply = (runtime: Runtime<Config>): bigint => {
 		const network = getNetwork({
 			chainFamily: 'evm',
 			chainSelectorName: evmConfig.chainSelectorName,
-			isTestnet: true,
+			isTestnet: evmConfig.network === 'testnet',
 		})
 
 		if (!network) {
@@ -181,7 +187,7 @@ const updateReserves = (
 	const network = getNetwork({
 		chainFamily: 'evm',
 		chainSelectorName: evmConfig.chainSelectorName,
-		isTestnet: true,
+		isTestnet: evmConfig.network === 'testnet',
 	})
 
 	if (!network) {
@@ -282,7 +288,7 @@ const getLastMessage = (
 	const network = getNetwork({
 		chainFamily: 'evm',
 		chainSelectorName: evmConfig.chainSelectorName,
-		isTestnet: true,
+		isTestnet: evmConfig.network === 'testnet',
 	})
 
 	if (!network) {
@@ -355,7 +361,7 @@ const initWorkflow = (config: Config) => {
 	const network = getNetwork({
 		chainFamily: 'evm',
 		chainSelectorName: config.evms[0].chainSelectorName,
-		isTestnet: true,
+		isTestnet: config.evms[0].network === 'testnet',
 	})
 
 	if (!network) {
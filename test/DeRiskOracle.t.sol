@@ -0,0 +1,556 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "forge-std/Test.sol";
+import "../contracts/DeRiskOracle.sol";
+
+contract DeRiskOracleReportThrottleTest is Test {
+    event RiskReportThrottled(uint256 lastUpdate, uint256 currentTime);
+
+    DeRiskOracle oracle;
+    address constant FORWARDER = address(0xF0);
+    uint256 constant START = 1_700_000_000;
+
+    function setUp() public {
+        oracle = new DeRiskOracle();
+        oracle.setForwarder(FORWARDER, true);
+        vm.warp(START);
+    }
+
+    function _report(uint256 _riskScore) internal view returns (bytes memory) {
+        DeRiskOracle.RiskReport memory report;
+        report.version = oracle.REPORT_VERSION();
+        report.riskScore = _riskScore;
+        report.ethPrice = 2000e8;
+        report.scoreSource = oracle.SCORE_SOURCE_FALLBACK();
+        return abi.encodeWithSelector(DeRiskOracle.submitRiskReport.selector, report);
+    }
+
+    function _deliver(uint256 _riskScore) internal {
+        bytes memory report = _report(_riskScore);
+        vm.prank(FORWARDER);
+        oracle.onReport("", report);
+    }
+
+    /// Two workflow executions (e.g. a cron run and a log trigger) land reports in one block
+    function testSecondReportInSameBlockIsDropped() public {
+        _deliver(40);
+
+        vm.expectEmit(false, false, false, true);
+        emit RiskReportThrottled(START, START);
+        _deliver(90);
+
+        assertEq(oracle.riskScore(), 40);
+        assertEq(oracle.updateCount(), 1);
+        assertEq(oracle.lastUpdateTimestamp(), START);
+        assertTrue(!oracle.circuitBreakerActive());
+    }
+
+    function testReportWithinIntervalIsDropped() public {
+        _deliver(40);
+        vm.warp(START + oracle.minReportInterval() - 1);
+        _deliver(90);
+
+        assertEq(oracle.riskScore(), 40);
+        assertEq(oracle.updateCount(), 1);
+    }
+
+    function testReportAfterIntervalIsApplied() public {
+        _deliver(40);
+        vm.warp(START + oracle.minReportInterval());
+        _deliver(90);
+
+        assertEq(oracle.riskScore(), 90);
+        assertEq(oracle.updateCount(), 2);
+        assertEq(oracle.lastUpdateTimestamp(), START + oracle.minReportInterval());
+    }
+
+    /// The owner's direct submitRiskReport is not a CRE write and is never throttled
+    function testOwnerSubmitIsNotThrottled() public {
+        _deliver(40);
+
+        DeRiskOracle.RiskReport memory report;
+        report.version = oracle.REPORT_VERSION();
+        report.riskScore = 55;
+        report.scoreSource = oracle.SCORE_SOURCE_FALLBACK();
+        oracle.submitRiskReport(report);
+
+        assertEq(oracle.riskScore(), 55);
+        assertEq(oracle.updateCount(), 2);
+    }
+
+    /// The single-field writes would skip the throttle and the batched report's checks
+    function testLegacySelectorsAreRejected() public {
+        vm.prank(FORWARDER);
+        vm.expectRevert(bytes("Unknown selector"));
+        oracle.onReport("", abi.encodeWithSelector(DeRiskOracle.updateRiskData.selector, 90, 0, 0, 2000e8));
+
+        vm.prank(FORWARDER);
+        vm.expectRevert(bytes("Unknown selector"));
+        oracle.onReport("", abi.encodeWithSelector(DeRiskOracle.updateContagionScore.selector, 90, 0));
+        assertEq(oracle.updateCount(), 0);
+    }
+
+    function testMinReportIntervalMustStayBelowUpdateInterval() public {
+        uint256 updateInterval = oracle.updateInterval();
+        uint256 minReportInterval = oracle.minReportInterval();
+        vm.expectRevert(bytes("Report interval must be below update"));
+        oracle.queueParameterChange(DeRiskOracle.Param.MinReportInterval, bytes32(0), updateInterval);
+
+        vm.expectRevert(bytes("Report interval must be below update"));
+        oracle.queueParameterChange(DeRiskOracle.Param.UpdateInterval, bytes32(0), minReportInterval);
+    }
+}
+
+contract DeRiskOracleRegistryTest is Test {
+    event ParameterChangeCancelled(uint256 indexed changeId);
+
+    DeRiskOracle oracle;
+
+    function setUp() public {
+        oracle = new DeRiskOracle();
+        oracle.registerProtocol("aave", 50);
+        oracle.registerProtocol("compound", 50);
+
+        // First report: from here on the registry is timelocked
+        DeRiskOracle.RiskReport memory report;
+        report.version = oracle.REPORT_VERSION();
+        report.scoreSource = oracle.SCORE_SOURCE_FALLBACK();
+        oracle.submitRiskReport(report);
+    }
+
+    function _weight(bytes32 _id) internal view returns (uint256 weight) {
+        (weight, , , ) = oracle.protocols(_id);
+    }
+
+    function _queueAndExecute(DeRiskOracle.Param _param, bytes32 _target, uint256 _value) internal {
+        uint256 changeId = oracle.queueParameterChange(_param, _target, _value);
+        vm.warp(block.timestamp + oracle.timelockDelay());
+        oracle.executeParameterChange(changeId);
+    }
+
+    function testDirectRegistrationClosesAfterFirstReport() public {
+        vm.expectRevert(bytes("Registry is timelocked"));
+        oracle.registerProtocol("maker", 25);
+    }
+
+    function testRegistrationAndRemovalAreTimelocked() public {
+        uint256 changeId = oracle.queueParameterChange(DeRiskOracle.Param.RegisterProtocol, "maker", 25);
+        vm.expectRevert(bytes("Timelock not elapsed"));
+        oracle.executeParameterChange(changeId);
+
+        vm.warp(block.timestamp + oracle.timelockDelay());
+        oracle.executeParameterChange(changeId);
+        assertEq(_weight("maker"), 25);
+        assertEq(oracle.getProtocolCount(), 3);
+
+        _queueAndExecute(DeRiskOracle.Param.RemoveProtocol, "maker", 0);
+        assertEq(oracle.getProtocolCount(), 2);
+        assertEq(_weight("maker"), 0);
+    }
+
+    /// Remove then re-register must not carry over a weight change queued for the old entry
+    function testRemovalCancelsPendingWeightChanges() public {
+        uint256 weightChange = oracle.queueParameterChange(DeRiskOracle.Param.ProtocolWeight, "aave", 90);
+        uint256 removal = oracle.queueParameterChange(DeRiskOracle.Param.RemoveProtocol, "aave", 0);
+        vm.warp(block.timestamp + oracle.timelockDelay());
+
+        vm.expectEmit(true, false, false, true);
+        emit ParameterChangeCancelled(weightChange);
+        oracle.executeParameterChange(removal);
+
+        _queueAndExecute(DeRiskOracle.Param.RegisterProtocol, "aave", 10);
+        vm.expectRevert(bytes("Change not pending"));
+        oracle.executeParameterChange(weightChange);
+        assertEq(_weight("aave"), 10);
+    }
+
+    function testRegistrationBounds() public {
+        vm.expectRevert(bytes("Already registered"));
+        oracle.queueParameterChange(DeRiskOracle.Param.RegisterProtocol, "aave", 10);
+
+        vm.expectRevert(bytes("Empty id"));
+        oracle.queueParameterChange(DeRiskOracle.Param.RegisterProtocol, bytes32(0), 10);
+
+        vm.expectRevert(bytes("Unknown protocol"));
+        oracle.queueParameterChange(DeRiskOracle.Param.RemoveProtocol, "maker", 0);
+    }
+}
+
+contract DeRiskOracleTimelockTest is Test {
+    event ParameterChanged(
+        uint256 indexed changeId,
+        DeRiskOracle.Param indexed param,
+        bytes32 target,
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    DeRiskOracle oracle;
+
+    function setUp() public {
+        oracle = new DeRiskOracle();
+        vm.warp(1_700_000_000);
+    }
+
+    function testExecuteBeforeDelayReverts() public {
+        uint256 changeId = oracle.queueParameterChange(DeRiskOracle.Param.BreakerTripThreshold, bytes32(0), 90);
+        vm.warp(block.timestamp + oracle.timelockDelay() - 1);
+
+        vm.expectRevert(bytes("Timelock not elapsed"));
+        oracle.executeParameterChange(changeId);
+        assertEq(oracle.breakerTripThreshold(), 80);
+    }
+
+    function testExecuteAfterDelayApplies() public {
+        uint256 changeId = oracle.queueParameterChange(DeRiskOracle.Param.BreakerTripThreshold, bytes32(0), 90);
+        vm.warp(block.timestamp + oracle.timelockDelay());
+
+        vm.expectEmit(true, true, false, true);
+        emit ParameterChanged(changeId, DeRiskOracle.Param.BreakerTripThreshold, bytes32(0), 80, 90);
+        oracle.executeParameterChange(changeId);
+        assertEq(oracle.breakerTripThreshold(), 90);
+
+        vm.expectRevert(bytes("Change not pending"));
+        oracle.executeParameterChange(changeId);
+    }
+
+    function testCancelledChangeCannotExecute() public {
+        uint256 changeId = oracle.queueParameterChange(DeRiskOracle.Param.StalenessThreshold, bytes32(0), 1200);
+        oracle.cancelParameterChange(changeId);
+        vm.warp(block.timestamp + oracle.timelockDelay());
+
+        vm.expectRevert(bytes("Change not pending"));
+        oracle.executeParameterChange(changeId);
+        vm.expectRevert(bytes("Change not pending"));
+        oracle.cancelParameterChange(changeId);
+        assertEq(oracle.stalenessThreshold(), 600);
+
+        (uint256[] memory ids, ) = oracle.getPendingChanges();
+        assertEq(ids.length, 0);
+    }
+
+    function testNonOwnerReverts() public {
+        uint256 changeId = oracle.queueParameterChange(DeRiskOracle.Param.StalenessThreshold, bytes32(0), 1200);
+        vm.warp(block.timestamp + oracle.timelockDelay());
+
+        vm.startPrank(address(0xBEEF));
+        vm.expectRevert(bytes("Not owner"));
+        oracle.queueParameterChange(DeRiskOracle.Param.StalenessThreshold, bytes32(0), 60);
+        vm.expectRevert(bytes("Not owner"));
+        oracle.executeParameterChange(changeId);
+        vm.expectRevert(bytes("Not owner"));
+        oracle.cancelParameterChange(changeId);
+        vm.stopPrank();
+    }
+
+    function testTripThresholdMustStayAboveReset() public {
+        vm.expectRevert(bytes("Reset must be below trip"));
+        oracle.queueParameterChange(DeRiskOracle.Param.BreakerTripThreshold, bytes32(0), 70);
+        vm.expectRevert(bytes("Reset must be below trip"));
+        oracle.queueParameterChange(DeRiskOracle.Param.BreakerResetThreshold, bytes32(0), 80);
+        vm.expectRevert(bytes("Score must be 0-100"));
+        oracle.queueParameterChange(DeRiskOracle.Param.BreakerTripThreshold, bytes32(0), 101);
+    }
+
+    /// Both changes are valid when queued; the second no longer is once the first applies
+    function testExecutionRevalidatesAgainstCurrentValues() public {
+        uint256 raiseReset = oracle.queueParameterChange(DeRiskOracle.Param.BreakerResetThreshold, bytes32(0), 75);
+        uint256 lowerTrip = oracle.queueParameterChange(DeRiskOracle.Param.BreakerTripThreshold, bytes32(0), 72);
+        vm.warp(block.timestamp + oracle.timelockDelay());
+
+        oracle.executeParameterChange(raiseReset);
+        vm.expectRevert(bytes("Reset must be below trip"));
+        oracle.executeParameterChange(lowerTrip);
+    }
+
+    function testTimelockDelayBounds() public {
+        uint256 minDelay = oracle.MIN_TIMELOCK_DELAY();
+        uint256 maxDelay = oracle.MAX_TIMELOCK_DELAY();
+        assertEq(minDelay, 1 hours);
+        assertEq(maxDelay, 30 days);
+
+        vm.expectRevert(bytes("Delay out of bounds"));
+        oracle.queueParameterChange(DeRiskOracle.Param.TimelockDelay, bytes32(0), minDelay - 1);
+        vm.expectRevert(bytes("Delay out of bounds"));
+        oracle.queueParameterChange(DeRiskOracle.Param.TimelockDelay, bytes32(0), maxDelay + 1);
+
+        oracle.queueParameterChange(DeRiskOracle.Param.TimelockDelay, bytes32(0), minDelay);
+        oracle.queueParameterChange(DeRiskOracle.Param.TimelockDelay, bytes32(0), maxDelay);
+    }
+
+    function testUpdateIntervalMustStayAboveMinReportInterval() public {
+        uint256 minReportInterval = oracle.minReportInterval();
+        vm.expectRevert(bytes("Report interval must be below update"));
+        oracle.queueParameterChange(DeRiskOracle.Param.UpdateInterval, bytes32(0), minReportInterval);
+
+        oracle.queueParameterChange(DeRiskOracle.Param.UpdateInterval, bytes32(0), minReportInterval + 1);
+    }
+
+    function testTargetOnlyForProtocolChanges() public {
+        vm.expectRevert(bytes("Target only for protocol changes"));
+        oracle.queueParameterChange(DeRiskOracle.Param.StalenessThreshold, "aave", 1200);
+    }
+}
+
+contract DeRiskOracleCircuitBreakerTest is Test {
+    DeRiskOracle oracle;
+    uint256 constant START = 1_700_000_000;
+
+    function setUp() public {
+        oracle = new DeRiskOracle();
+        vm.warp(START);
+    }
+
+    function _update(uint256 _riskScore) internal {
+        oracle.updateRiskData(_riskScore, 0, 0, 2000e8);
+    }
+
+    function testTripsOnlyAboveTripThreshold() public {
+        _update(80);
+        assertTrue(!oracle.circuitBreakerActive());
+
+        _update(81);
+        assertTrue(oracle.circuitBreakerActive());
+        assertEq(oracle.circuitBreakerTrippedAt(), START);
+    }
+
+    function testStaysTrippedBetweenResetAndTripThresholds() public {
+        _update(90);
+        vm.warp(START + oracle.breakerMinActiveDuration() + 1);
+
+        for (uint256 i = 0; i < 5; i++) {
+            _update(75);
+        }
+        assertTrue(oracle.circuitBreakerActive());
+        assertEq(oracle.consecutiveBelowReset(), 0);
+    }
+
+    function testNoResetBeforeCooldown() public {
+        _update(90);
+        vm.warp(START + oracle.breakerMinActiveDuration() - 1);
+
+        for (uint256 i = 0; i < 5; i++) {
+            _update(40);
+        }
+        assertTrue(oracle.circuitBreakerActive());
+        assertEq(oracle.consecutiveBelowReset(), 5);
+
+        // The next reading at or below the reset threshold after the cooldown resets it
+        vm.warp(START + oracle.breakerMinActiveDuration());
+        _update(70);
+        assertTrue(!oracle.circuitBreakerActive());
+        assertEq(oracle.consecutiveBelowReset(), 0);
+    }
+
+    function testResetsAfterConsecutiveConfirmationsOnceCooledDown() public {
+        _update(90);
+        vm.warp(START + oracle.breakerMinActiveDuration());
+
+        _update(60);
+        _update(60);
+        assertTrue(oracle.circuitBreakerActive());
+        _update(60);
+        assertTrue(!oracle.circuitBreakerActive());
+    }
+
+    function testReadingAboveResetRestartsConfirmations() public {
+        _update(90);
+        vm.warp(START + oracle.breakerMinActiveDuration());
+
+        _update(60);
+        _update(60);
+        _update(71);
+        assertEq(oracle.consecutiveBelowReset(), 0);
+
+        _update(60);
+        _update(60);
+        assertTrue(oracle.circuitBreakerActive());
+        _update(60);
+        assertTrue(!oracle.circuitBreakerActive());
+    }
+}
+
+contract DeRiskOracleAllowlistTest is Test {
+    DeRiskOracle oracle;
+    address constant FORWARDER = address(0xF0);
+    bytes32 constant WORKFLOW_ID = keccak256("derisk-workflow");
+    bytes10 constant WORKFLOW_NAME = bytes10("derisk");
+    address constant WORKFLOW_OWNER = address(0xA11CE);
+
+    function setUp() public {
+        oracle = new DeRiskOracle();
+        oracle.setForwarder(FORWARDER, true);
+        oracle.setWorkflowId(WORKFLOW_ID, true);
+        oracle.setWorkflowOwner(WORKFLOW_OWNER, true);
+        vm.warp(1_700_000_000);
+    }
+
+    // CRE metadata layout: workflow id (bytes32) | workflow name (bytes10) | workflow owner (address)
+    function _metadata(bytes32 _workflowId, address _workflowOwner) internal pure returns (bytes memory) {
+        return abi.encodePacked(_workflowId, WORKFLOW_NAME, _workflowOwner);
+    }
+
+    function _report() internal view returns (bytes memory) {
+        DeRiskOracle.RiskReport memory report;
+        report.version = oracle.REPORT_VERSION();
+        report.riskScore = 40;
+        report.scoreSource = oracle.SCORE_SOURCE_FALLBACK();
+        return abi.encodeWithSelector(DeRiskOracle.submitRiskReport.selector, report);
+    }
+
+    function _deliver(address _forwarder, bytes memory _meta, string memory _revert) internal {
+        bytes memory report = _report();
+        vm.prank(_forwarder);
+        vm.expectRevert(bytes(_revert));
+        oracle.onReport(_meta, report);
+    }
+
+    function testAcceptsAllowlistedWorkflow() public {
+        bytes memory report = _report();
+        vm.prank(FORWARDER);
+        oracle.onReport(_metadata(WORKFLOW_ID, WORKFLOW_OWNER), report);
+        assertEq(oracle.riskScore(), 40);
+    }
+
+    function testRejectsUnauthorizedForwarder() public {
+        _deliver(address(0xBAD), _metadata(WORKFLOW_ID, WORKFLOW_OWNER), "Unauthorized forwarder");
+
+        oracle.setForwarder(FORWARDER, false);
+        _deliver(FORWARDER, _metadata(WORKFLOW_ID, WORKFLOW_OWNER), "Unauthorized forwarder");
+    }
+
+    function testRejectsWrongWorkflowId() public {
+        _deliver(FORWARDER, _metadata(keccak256("other-workflow"), WORKFLOW_OWNER), "Unauthorized workflow");
+    }
+
+    function testRejectsWrongWorkflowOwner() public {
+        _deliver(FORWARDER, _metadata(WORKFLOW_ID, address(0xBAD)), "Unauthorized workflow owner");
+    }
+
+    function testRejectsShortMetadata() public {
+        _deliver(FORWARDER, "", "Short metadata");
+        _deliver(FORWARDER, abi.encodePacked(WORKFLOW_ID, WORKFLOW_NAME, bytes19(0)), "Short metadata");
+    }
+
+    /// ABI-encoded (padded) metadata puts the owner outside bytes 42-62
+    function testRejectsMalformedMetadata() public {
+        _deliver(FORWARDER, abi.encode(WORKFLOW_ID, WORKFLOW_NAME, WORKFLOW_OWNER), "Unauthorized workflow owner");
+    }
+
+    /// Emptying an allowlist turns that check off; the other list is still enforced
+    function testEmptyAllowlistIsNotEnforced() public {
+        oracle.setWorkflowId(WORKFLOW_ID, false);
+        assertEq(oracle.allowedWorkflowIdCount(), 0);
+
+        bytes memory report = _report();
+        vm.prank(FORWARDER);
+        oracle.onReport(_metadata(keccak256("other-workflow"), WORKFLOW_OWNER), report);
+        assertEq(oracle.riskScore(), 40);
+
+        _deliver(FORWARDER, _metadata(WORKFLOW_ID, address(0xBAD)), "Unauthorized workflow owner");
+    }
+}
+
+contract DeRiskOracleSnapshotTest is Test {
+    DeRiskOracle oracle;
+    uint256 constant START = 1_700_000_000;
+    uint256 constant CADENCE = 300;
+
+    function setUp() public {
+        oracle = new DeRiskOracle();
+    }
+
+    function _at(uint256 _roundId) internal pure returns (uint256) {
+        return START + _roundId * CADENCE;
+    }
+
+    /// Rounds 1.._rounds, one per CADENCE; round r is recorded at _at(r)
+    function _record(uint256 _rounds) internal {
+        for (uint256 r = oracle.updateCount() + 1; r <= _rounds; r++) {
+            vm.warp(_at(r));
+            oracle.updateRiskData(r % 50, r * 1e6, 0, 2000e8);
+        }
+    }
+
+    function _ago(uint256 _age) internal view returns (uint64) {
+        uint256[] memory ages = new uint256[](1);
+        ages[0] = _age;
+        return oracle.getSnapshotsAgo(ages)[0].roundId;
+    }
+
+    function testWrapsAroundAfterCapacity() public {
+        uint256 capacity = oracle.SNAPSHOT_CAPACITY();
+        _record(capacity + 10);
+
+        DeRiskOracle.Snapshot memory latest = oracle.getSnapshot(capacity + 10);
+        assertEq(latest.roundId, capacity + 10);
+        assertEq(latest.timestamp, _at(capacity + 10));
+        assertEq(latest.riskScore, (capacity + 10) % 50);
+        assertEq(latest.totalTvl, (capacity + 10) * 1e6);
+
+        // Round 11 is the oldest retained; round 10 shared its slot and was overwritten
+        assertEq(oracle.getSnapshot(11).roundId, 11);
+        vm.expectRevert(bytes("Snapshot unavailable"));
+        oracle.getSnapshot(10);
+        vm.expectRevert(bytes("Snapshot unavailable"));
+        oracle.getSnapshot(capacity + 11);
+
+        DeRiskOracle.Snapshot[] memory all = oracle.getSnapshotsSince(0);
+        assertEq(all.length, capacity);
+        assertEq(all[0].roundId, 11);
+        assertEq(all[capacity - 1].roundId, capacity + 10);
+    }
+
+    function testSnapshotsSinceIsInclusive() public {
+        _record(5);
+        DeRiskOracle.Snapshot[] memory recent = oracle.getSnapshotsSince(_at(3));
+        assertEq(recent.length, 3);
+        assertEq(recent[0].roundId, 3);
+        assertEq(recent[2].roundId, 5);
+        assertEq(oracle.getSnapshotsSince(_at(5) + 1).length, 0);
+    }
+
+    function testSnapshotsAgoEdges() public {
+        assertEq(_ago(0), 0); // No history yet
+        _record(3);
+
+        assertEq(_ago(0), 3);
+        assertEq(_ago(CADENCE), 2);           // Exact match
+        assertEq(_ago(CADENCE - 1), 2);       // Between rounds: the older one
+        assertEq(_ago(2 * CADENCE), 1);       // Exactly the first snapshot
+        assertEq(_ago(2 * CADENCE + 1), 0);   // Before the first snapshot
+        assertEq(_ago(block.timestamp + 1), 0);
+    }
+
+    function testSnapshotsAgoAfterWrap() public {
+        uint256 capacity = oracle.SNAPSHOT_CAPACITY();
+        _record(capacity + 10);
+
+        assertEq(_ago(0), capacity + 10);
+        assertEq(_ago(1000 * CADENCE), capacity + 10 - 1000);
+        assertEq(_ago((capacity - 1) * CADENCE), 11);     // Oldest retained round
+        assertEq(_ago((capacity - 1) * CADENCE + 1), 0);  // Overwritten history is not returned
+    }
+
+    function testAverageScoreIsTimeWeighted() public {
+        vm.warp(START);
+        oracle.updateRiskData(20, 0, 0, 2000e8);
+        vm.warp(START + 100);
+        oracle.updateRiskData(60, 0, 0, 2000e8);
+        vm.warp(START + 400);
+
+        // 20 held for 100s, 60 for 300s
+        assertEq(oracle.getAverageScore(400), (20 * 100 + 60 * 300) / 400);
+        assertEq(oracle.getAverageScore(200), 60);
+        // Clipped to the retained history
+        assertEq(oracle.getAverageScore(10_000), (20 * 100 + 60 * 300) / 400);
+        // Zero-length window: the latest score
+        assertEq(oracle.getAverageScore(0), 60);
+    }
+
+    function testAverageScoreNeedsHistory() public {
+        vm.expectRevert(bytes("No snapshots"));
+        oracle.getAverageScore(3600);
+    }
+}